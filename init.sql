@@ -42,7 +42,21 @@ CREATE TABLE IF NOT EXISTS stages (
     evaluation_description TEXT,
     total_questions INTEGER DEFAULT 10,
     open_questions INTEGER DEFAULT 5,
-    closed_questions INTEGER DEFAULT 5
+    closed_questions INTEGER DEFAULT 5,
+    time_limit_minutes INTEGER,
+    auto_approve_questions BOOLEAN DEFAULT false,
+    scoring_mode VARCHAR(20) DEFAULT 'points',
+    passing_score INTEGER DEFAULT 60,
+    negative_marking FLOAT DEFAULT 0,
+    reveal_correct_answers BOOLEAN DEFAULT true,
+    available_from TIMESTAMP,
+    available_until TIMESTAMP,
+    publish_at TIMESTAMP,
+    max_attempts INTEGER,
+    retake_cooldown_minutes INTEGER DEFAULT 0,
+    lockout_after_failures INTEGER,
+    lockout_minutes INTEGER DEFAULT 1440,
+    practice_access VARCHAR(50) DEFAULT 'unlocked'
 );
 
 -- =====================================================
@@ -55,11 +69,25 @@ CREATE TABLE IF NOT EXISTS questions (
     question_text TEXT NOT NULL,
     options JSONB,
     correct_answer VARCHAR(255),
+    correct_answers JSONB,
+    match_targets JSONB,
     points INTEGER DEFAULT 1,
     category VARCHAR(100),
     difficulty VARCHAR(50),
+    rubric JSONB,
+    attachments JSONB,
+    status VARCHAR(50) DEFAULT 'draft',
+    reviewer_notes TEXT,
+    reviewed_by INTEGER,
+    reviewed_at TIMESTAMP,
+    version INTEGER DEFAULT 1,
+    previous_version_id INTEGER,
+    is_active BOOLEAN DEFAULT true,
+    retired_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-    FOREIGN KEY (stage_id) REFERENCES stages(id) ON DELETE CASCADE
+    FOREIGN KEY (stage_id) REFERENCES stages(id) ON DELETE CASCADE,
+    FOREIGN KEY (previous_version_id) REFERENCES questions(id) ON DELETE SET NULL,
+    FOREIGN KEY (reviewed_by) REFERENCES users(id) ON DELETE SET NULL
 );
 
 -- =====================================================
@@ -90,6 +118,11 @@ CREATE TABLE IF NOT EXISTS evaluation_attempts (
     time_spent_seconds INTEGER,
     score INTEGER,
     is_completed BOOLEAN DEFAULT false,
+    status VARCHAR(50) DEFAULT 'in_progress',
+    deadline TIMESTAMP,
+    question_ids JSONB,
+    sampling_seed VARCHAR(64),
+    submission_key VARCHAR(255),
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
     FOREIGN KEY (stage_id) REFERENCES stages(id) ON DELETE CASCADE
@@ -105,11 +138,24 @@ CREATE TABLE IF NOT EXISTS user_responses (
     user_id INTEGER NOT NULL,
     response TEXT NOT NULL,
     is_correct BOOLEAN,
-    points_earned INTEGER DEFAULT 0,
+    points_earned NUMERIC(8,2) DEFAULT 0,
+    rubric_breakdown JSONB,
+    grading_explanation TEXT,
+    grading_status VARCHAR(50) DEFAULT 'pending',
+    grading_confidence FLOAT,
+    review_status VARCHAR(50),
+    review_reason VARCHAR(50),
+    overridden BOOLEAN DEFAULT false,
+    reviewer_comment TEXT,
+    reviewed_by INTEGER,
+    reviewed_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(attempt_id, question_id),
     FOREIGN KEY (attempt_id) REFERENCES evaluation_attempts(id) ON DELETE CASCADE,
     FOREIGN KEY (question_id) REFERENCES questions(id) ON DELETE CASCADE,
-    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (reviewed_by) REFERENCES users(id) ON DELETE SET NULL
 );
 
 -- =====================================================
@@ -134,6 +180,142 @@ CREATE TABLE IF NOT EXISTS feedback (
     FOREIGN KEY (stage_id) REFERENCES stages(id) ON DELETE CASCADE
 );
 
+-- =====================================================
+-- GRADING_JOBS TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS grading_jobs (
+    id SERIAL PRIMARY KEY,
+    attempt_id INTEGER NOT NULL,
+    status VARCHAR(50) NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    last_error TEXT,
+    run_after TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    locked_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (attempt_id) REFERENCES evaluation_attempts(id) ON DELETE CASCADE
+);
+
+-- =====================================================
+-- APPEALS TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS appeals (
+    id SERIAL PRIMARY KEY,
+    response_id INTEGER NOT NULL UNIQUE,
+    attempt_id INTEGER NOT NULL,
+    user_id INTEGER NOT NULL,
+    justification TEXT NOT NULL,
+    status VARCHAR(50) NOT NULL DEFAULT 'open',
+    resolution_comment TEXT,
+    resolved_by INTEGER,
+    resolved_at TIMESTAMP,
+    learner_notified_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (response_id) REFERENCES user_responses(id) ON DELETE CASCADE,
+    FOREIGN KEY (attempt_id) REFERENCES evaluation_attempts(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (resolved_by) REFERENCES users(id) ON DELETE SET NULL
+);
+
+-- =====================================================
+-- STAGE PREREQUISITES TABLE
+-- =====================================================
+-- Rows of a stage that share group_index are alternatives (OR); every group must be met (AND)
+CREATE TABLE IF NOT EXISTS stage_prerequisites (
+    id SERIAL PRIMARY KEY,
+    stage_id INTEGER NOT NULL,
+    prerequisite_stage_id INTEGER NOT NULL,
+    group_index INTEGER NOT NULL DEFAULT 0,
+    min_score INTEGER,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (stage_id) REFERENCES stages(id) ON DELETE CASCADE,
+    FOREIGN KEY (prerequisite_stage_id) REFERENCES stages(id) ON DELETE CASCADE,
+    UNIQUE (stage_id, group_index, prerequisite_stage_id)
+);
+
+-- =====================================================
+-- TRACKS TABLES
+-- =====================================================
+CREATE TABLE IF NOT EXISTS tracks (
+    id SERIAL PRIMARY KEY,
+    title VARCHAR(255) NOT NULL UNIQUE,
+    description TEXT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS track_stages (
+    id SERIAL PRIMARY KEY,
+    track_id INTEGER NOT NULL,
+    stage_id INTEGER NOT NULL,
+    position INTEGER NOT NULL,
+    FOREIGN KEY (track_id) REFERENCES tracks(id) ON DELETE CASCADE,
+    FOREIGN KEY (stage_id) REFERENCES stages(id) ON DELETE CASCADE,
+    UNIQUE (track_id, stage_id)
+);
+
+CREATE TABLE IF NOT EXISTS user_tracks (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL,
+    track_id INTEGER NOT NULL,
+    enrolled_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (track_id) REFERENCES tracks(id) ON DELETE CASCADE,
+    UNIQUE (user_id, track_id)
+);
+
+-- =====================================================
+-- PRACTICE TABLES (never count towards progress)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS practice_sessions (
+    id SERIAL PRIMARY KEY,
+    session_id VARCHAR(255) UNIQUE NOT NULL,
+    user_id INTEGER NOT NULL,
+    kind VARCHAR(50) DEFAULT 'stage',
+    stage_id INTEGER,
+    question_ids JSONB NOT NULL,
+    sampling_seed VARCHAR(64) NOT NULL,
+    score INTEGER,
+    completed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (stage_id) REFERENCES stages(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS practice_responses (
+    id SERIAL PRIMARY KEY,
+    session_id INTEGER NOT NULL,
+    question_id INTEGER NOT NULL,
+    response TEXT NOT NULL,
+    is_correct BOOLEAN NOT NULL,
+    points_earned NUMERIC(8, 2) DEFAULT 0,
+    rubric_breakdown JSONB,
+    explanation TEXT,
+    answered_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (session_id) REFERENCES practice_sessions(id) ON DELETE CASCADE,
+    FOREIGN KEY (question_id) REFERENCES questions(id) ON DELETE CASCADE,
+    UNIQUE (session_id, question_id)
+);
+
+CREATE TABLE IF NOT EXISTS question_generation_jobs (
+    id SERIAL PRIMARY KEY,
+    stage_id INTEGER NOT NULL,
+    category VARCHAR(255) NOT NULL,
+    difficulty VARCHAR(50),
+    requested INTEGER NOT NULL,
+    status VARCHAR(50) NOT NULL DEFAULT 'pending',
+    generated_count INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    locked_at TIMESTAMP,
+    finished_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (stage_id) REFERENCES stages(id) ON DELETE CASCADE
+);
+
 -- =====================================================
 -- INDEXES FOR PERFORMANCE
 -- =====================================================
@@ -141,14 +323,25 @@ CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
 CREATE INDEX IF NOT EXISTS idx_stages_display_order ON stages(display_order);
 CREATE INDEX IF NOT EXISTS idx_stages_is_active ON stages(is_active);
 CREATE INDEX IF NOT EXISTS idx_questions_stage_id ON questions(stage_id);
+CREATE INDEX IF NOT EXISTS idx_questions_stage_id_is_active ON questions(stage_id, is_active);
+CREATE INDEX IF NOT EXISTS idx_questions_status ON questions(status);
+CREATE INDEX IF NOT EXISTS idx_questions_category ON questions(category);
 CREATE INDEX IF NOT EXISTS idx_user_stages_user_id ON user_stages(user_id);
 CREATE INDEX IF NOT EXISTS idx_user_stages_stage_id ON user_stages(stage_id);
 CREATE INDEX IF NOT EXISTS idx_evaluation_attempts_user_id ON evaluation_attempts(user_id);
 CREATE INDEX IF NOT EXISTS idx_evaluation_attempts_stage_id ON evaluation_attempts(stage_id);
 CREATE INDEX IF NOT EXISTS idx_user_responses_attempt_id ON user_responses(attempt_id);
 CREATE INDEX IF NOT EXISTS idx_user_responses_question_id ON user_responses(question_id);
+CREATE INDEX IF NOT EXISTS idx_user_responses_review_status ON user_responses(review_status);
 CREATE INDEX IF NOT EXISTS idx_feedback_attempt_id ON feedback(attempt_id);
 CREATE INDEX IF NOT EXISTS idx_feedback_user_id ON feedback(user_id);
+CREATE INDEX IF NOT EXISTS idx_grading_jobs_status_run_after ON grading_jobs(status, run_after);
+CREATE INDEX IF NOT EXISTS idx_appeals_status ON appeals(status);
+CREATE INDEX IF NOT EXISTS idx_appeals_attempt_id ON appeals(attempt_id);
+CREATE INDEX IF NOT EXISTS idx_stage_prerequisites_stage_id ON stage_prerequisites(stage_id);
+CREATE INDEX IF NOT EXISTS idx_track_stages_stage_id ON track_stages(stage_id);
+CREATE INDEX IF NOT EXISTS idx_practice_sessions_user_id ON practice_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_question_generation_jobs_status ON question_generation_jobs(status, created_at);
 
 -- =====================================================
 -- COMMIT TRANSACTION
@@ -6,6 +6,15 @@ import { UserStage } from '../entities/UserStage';
 import { EvaluationAttempt } from '../entities/EvaluationAttempt';
 import { UserResponse } from '../entities/UserResponse';
 import { Feedback } from '../entities/Feedback';
+import { GradingJob } from '../entities/GradingJob';
+import { Appeal } from '../entities/Appeal';
+import { StagePrerequisite } from '../entities/StagePrerequisite';
+import { Track } from '../entities/Track';
+import { TrackStage } from '../entities/TrackStage';
+import { UserTrack } from '../entities/UserTrack';
+import { PracticeSession } from '../entities/PracticeSession';
+import { PracticeResponse } from '../entities/PracticeResponse';
+import { QuestionGenerationJob } from '../entities/QuestionGenerationJob';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -40,7 +49,16 @@ const createDataSource = () => {
         UserStage,
         EvaluationAttempt,
         UserResponse,
-        Feedback
+        Feedback,
+        GradingJob,
+        Appeal,
+        StagePrerequisite,
+        Track,
+        TrackStage,
+        UserTrack,
+        PracticeSession,
+        PracticeResponse,
+        QuestionGenerationJob
       ],
       extra: shouldUseSSL ? {
         ssl: sslConfig
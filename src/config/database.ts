@@ -2,7 +2,41 @@ import { DataSource } from 'typeorm';
 import { User } from '../entities/User';
 import { Stage } from '../entities/Stage';
 import { Question } from '../entities/Question';
+import { UserStage } from '../entities/UserStage';
 import { EvaluationAttempt } from '../entities/EvaluationAttempt';
+import { UserResponse } from '../entities/UserResponse';
+import { Feedback } from '../entities/Feedback';
+import { GradingJob } from '../entities/GradingJob';
+import { Appeal } from '../entities/Appeal';
+import { StagePrerequisite } from '../entities/StagePrerequisite';
+import { Track } from '../entities/Track';
+import { TrackStage } from '../entities/TrackStage';
+import { UserTrack } from '../entities/UserTrack';
+import { PracticeSession } from '../entities/PracticeSession';
+import { PracticeResponse } from '../entities/PracticeResponse';
+import { QuestionGenerationJob } from '../entities/QuestionGenerationJob';
+import { AddQuestionFieldsSafe1711740000001 } from '../migrations/add-question-fields-safe';
+import { AddAttemptLifecycle1711740000002 } from '../migrations/add-attempt-lifecycle';
+import { AddResponseDrafts1711740000003 } from '../migrations/add-response-drafts';
+import { AddGradingJobs1711740000004 } from '../migrations/add-grading-jobs';
+import { AddQuestionVersioning1711740000005 } from '../migrations/add-question-versioning';
+import { AddQuestionReview1711740000006 } from '../migrations/add-question-review';
+import { AddAttemptSamplingSeed1711740000007 } from '../migrations/add-attempt-sampling-seed';
+import { AddStageScoringPolicy1711740000008 } from '../migrations/add-stage-scoring-policy';
+import { AddQuestionRubrics1711740000009 } from '../migrations/add-question-rubrics';
+import { AddResponseReview1711740000010 } from '../migrations/add-response-review';
+import { AddAppeals1711740000011 } from '../migrations/add-appeals';
+import { AddAnswerReview1711740000012 } from '../migrations/add-answer-review';
+import { AddQuestionTypes1711740000013 } from '../migrations/add-question-types';
+import { AddQuestionAttachments1711740000014 } from '../migrations/add-question-attachments';
+import { AddStagePrerequisites1711740000015 } from '../migrations/add-stage-prerequisites';
+import { AddTracks1711740000016 } from '../migrations/add-tracks';
+import { AddStageAvailability1711740000017 } from '../migrations/add-stage-availability';
+import { AddStageAttemptPolicy1711740000018 } from '../migrations/add-stage-attempt-policy';
+import { AddAttemptSubmissionKey1711740000019 } from '../migrations/add-attempt-submission-key';
+import { AddPracticeMode1711740000020 } from '../migrations/add-practice-mode';
+import { AddWeakAreaPractice1711740000021 } from '../migrations/add-weak-area-practice';
+import { AddQuestionGenerationJobs1711740000022 } from '../migrations/add-question-generation-jobs';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -34,7 +68,43 @@ const createDataSource = () => {
         User, 
         Stage, 
         Question, 
-        EvaluationAttempt
+        UserStage,
+        EvaluationAttempt,
+        UserResponse,
+        Feedback,
+        GradingJob,
+        Appeal,
+        StagePrerequisite,
+        Track,
+        TrackStage,
+        UserTrack,
+        PracticeSession,
+        PracticeResponse,
+        QuestionGenerationJob
+      ],
+      migrations: [
+        AddQuestionFieldsSafe1711740000001,
+        AddAttemptLifecycle1711740000002,
+        AddResponseDrafts1711740000003,
+        AddGradingJobs1711740000004,
+        AddQuestionVersioning1711740000005,
+        AddQuestionReview1711740000006,
+        AddAttemptSamplingSeed1711740000007,
+        AddStageScoringPolicy1711740000008,
+        AddQuestionRubrics1711740000009,
+        AddResponseReview1711740000010,
+        AddAppeals1711740000011,
+        AddAnswerReview1711740000012,
+        AddQuestionTypes1711740000013,
+        AddQuestionAttachments1711740000014,
+        AddStagePrerequisites1711740000015,
+        AddTracks1711740000016,
+        AddStageAvailability1711740000017,
+        AddStageAttemptPolicy1711740000018,
+        AddAttemptSubmissionKey1711740000019,
+        AddPracticeMode1711740000020,
+        AddWeakAreaPractice1711740000021,
+        AddQuestionGenerationJobs1711740000022
       ],
       extra: shouldUseSSL ? {
         ssl: sslConfig
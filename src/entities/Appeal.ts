@@ -0,0 +1,49 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { UserResponse } from './UserResponse';
+
+export type AppealStatus = 'open' | 'upheld' | 'rejected';
+
+@Entity('appeals')
+export class Appeal {
+  @PrimaryGeneratedColumn()
+  id: number = 0;
+
+  // One appeal per answer
+  @Column({ name: 'response_id', type: 'integer', unique: true })
+  responseId: number = 0;
+
+  @Column({ name: 'attempt_id', type: 'integer' })
+  attemptId: number = 0;
+
+  @Column({ name: 'user_id', type: 'integer' })
+  userId: number = 0;
+
+  @Column({ type: 'text' })
+  justification: string = '';
+
+  @Column({ type: 'varchar', default: 'open' })
+  status: AppealStatus = 'open';
+
+  @Column({ name: 'resolution_comment', type: 'text', nullable: true })
+  resolutionComment: string | null = null;
+
+  @Column({ name: 'resolved_by', type: 'integer', nullable: true })
+  resolvedBy: number | null = null;
+
+  @Column({ name: 'resolved_at', type: 'timestamp', nullable: true })
+  resolvedAt: Date | null = null;
+
+  // Set the first time the learner opens their feedback after the appeal was resolved
+  @Column({ name: 'learner_notified_at', type: 'timestamp', nullable: true })
+  learnerNotifiedAt: Date | null = null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt: Date = new Date();
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamp' })
+  updatedAt: Date = new Date();
+
+  @ManyToOne(() => UserResponse, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'response_id' })
+  response: UserResponse;
+}
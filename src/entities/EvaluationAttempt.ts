@@ -4,6 +4,8 @@ import { Stage } from './Stage';
 import { UserResponse } from './UserResponse';
 import { Feedback } from './Feedback';
 
+export type AttemptStatus = 'in_progress' | 'submitted' | 'grading' | 'graded' | 'grading_failed' | 'expired';
+
 @Entity('evaluation_attempts')
 export class EvaluationAttempt {
   @PrimaryGeneratedColumn()
@@ -33,6 +35,23 @@ export class EvaluationAttempt {
   @Column({ name: 'is_completed', type: 'boolean', default: false })
   isCompleted: boolean = false;
 
+  @Column({ type: 'varchar', default: 'in_progress' })
+  status: AttemptStatus = 'in_progress';
+
+  @Column({ type: 'timestamp', nullable: true })
+  deadline: Date | null = null;
+
+  @Column({ name: 'question_ids', type: 'jsonb', nullable: true })
+  questionIds: number[] | null = null;
+
+  // Seed of the question draw and option shuffles; needed to map answers back to options
+  @Column({ name: 'sampling_seed', type: 'varchar', nullable: true })
+  samplingSeed: string | null = null;
+
+  // Idempotency-Key of the submission that closed the attempt, so retries can be told apart
+  @Column({ name: 'submission_key', type: 'varchar', nullable: true })
+  submissionKey: string | null = null;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
   createdAt: Date = new Date();
 
@@ -0,0 +1,41 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { EvaluationAttempt } from './EvaluationAttempt';
+
+export type GradingJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+@Entity('grading_jobs')
+export class GradingJob {
+  @PrimaryGeneratedColumn()
+  id: number = 0;
+
+  @Column({ name: 'attempt_id', type: 'integer' })
+  attemptId: number = 0;
+
+  @Column({ type: 'varchar', default: 'pending' })
+  status: GradingJobStatus = 'pending';
+
+  @Column({ type: 'integer', default: 0 })
+  attempts: number = 0;
+
+  @Column({ name: 'max_attempts', type: 'integer', default: 5 })
+  maxAttempts: number = 5;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string | null = null;
+
+  @Column({ name: 'run_after', type: 'timestamp' })
+  runAfter: Date = new Date();
+
+  @Column({ name: 'locked_at', type: 'timestamp', nullable: true })
+  lockedAt: Date | null = null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt: Date = new Date();
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamp' })
+  updatedAt: Date = new Date();
+
+  @ManyToOne(() => EvaluationAttempt)
+  @JoinColumn({ name: 'attempt_id' })
+  attempt: EvaluationAttempt;
+}
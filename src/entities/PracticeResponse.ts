@@ -0,0 +1,52 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, UpdateDateColumn, Unique } from 'typeorm';
+import { PracticeSession } from './PracticeSession';
+import { Question } from './Question';
+import { RubricCriterionScore } from './UserResponse';
+
+// A graded practice answer; each question of a session is answered once
+@Entity('practice_responses')
+@Unique(['sessionId', 'questionId'])
+export class PracticeResponse {
+  @PrimaryGeneratedColumn()
+  id: number = 0;
+
+  @Column({ name: 'session_id', type: 'integer' })
+  sessionId: number = 0;
+
+  @Column({ name: 'question_id', type: 'integer' })
+  questionId: number = 0;
+
+  @Column({ type: 'text' })
+  response: string = '';
+
+  @Column({ name: 'is_correct', type: 'boolean' })
+  isCorrect: boolean = false;
+
+  @Column({
+    name: 'points_earned',
+    type: 'numeric',
+    precision: 8,
+    scale: 2,
+    default: 0,
+    transformer: { to: (value: number) => value, from: (value: string | null) => (value === null ? 0 : parseFloat(value)) }
+  })
+  pointsEarned: number = 0;
+
+  @Column({ name: 'rubric_breakdown', type: 'jsonb', nullable: true })
+  rubricBreakdown: RubricCriterionScore[] | null = null;
+
+  // Grader's explanation for open answers
+  @Column({ type: 'text', nullable: true })
+  explanation: string | null = null;
+
+  @UpdateDateColumn({ name: 'answered_at', type: 'timestamp' })
+  answeredAt: Date = new Date();
+
+  @ManyToOne(() => PracticeSession, session => session.responses, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'session_id' })
+  session: PracticeSession;
+
+  @ManyToOne(() => Question, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'question_id' })
+  question: Question;
+}
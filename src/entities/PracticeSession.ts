@@ -0,0 +1,55 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, OneToMany } from 'typeorm';
+import { User } from './User';
+import { Stage } from './Stage';
+import { PracticeResponse } from './PracticeResponse';
+
+// 'stage' drills one stage; 'weak_areas' is a remedial quiz drawn from several stages
+export type PracticeSessionKind = 'stage' | 'weak_areas';
+
+// A practice run. Kept apart from evaluation attempts so it never affects progress
+@Entity('practice_sessions')
+export class PracticeSession {
+  @PrimaryGeneratedColumn()
+  id: number = 0;
+
+  @Column({ name: 'session_id', type: 'varchar', unique: true })
+  sessionId: string = '';
+
+  @Column({ name: 'user_id', type: 'integer' })
+  userId: number = 0;
+
+  @Column({ type: 'varchar', default: 'stage' })
+  kind: PracticeSessionKind = 'stage';
+
+  // Null for weak-area quizzes, whose questions come from several stages
+  @Column({ name: 'stage_id', type: 'integer', nullable: true })
+  stageId: number | null = null;
+
+  @Column({ name: 'question_ids', type: 'jsonb' })
+  questionIds: number[] = [];
+
+  // Seed of the question draw and option shuffles, as for evaluation attempts
+  @Column({ name: 'sampling_seed', type: 'varchar' })
+  samplingSeed: string = '';
+
+  // Set once every question has been answered
+  @Column({ type: 'integer', nullable: true })
+  score: number | null = null;
+
+  @Column({ name: 'completed_at', type: 'timestamp', nullable: true })
+  completedAt: Date | null = null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt: Date = new Date();
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @ManyToOne(() => Stage, { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'stage_id' })
+  stage: Stage | null;
+
+  @OneToMany(() => PracticeResponse, response => response.session)
+  responses: PracticeResponse[];
+}
@@ -2,6 +2,25 @@ import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDa
 import { Stage } from './Stage';
 import { UserResponse } from './UserResponse';
 
+export type QuestionStatus = 'draft' | 'in_review' | 'approved' | 'rejected';
+
+// One weighted criterion used to give partial credit on open answers
+export interface RubricCriterion {
+  criterion: string;
+  weight: number;
+}
+
+export type QuestionAttachmentKind = 'code' | 'http' | 'bug-report';
+
+// Material a question asks the learner to work on: a code snippet, an HTTP exchange or a bug report
+export interface QuestionAttachment {
+  kind: QuestionAttachmentKind;
+  title: string | null;
+  // Language of a code snippet, e.g. "javascript"
+  language: string | null;
+  content: string;
+}
+
 @Entity('questions')
 export class Question {
   @PrimaryGeneratedColumn()
@@ -22,6 +41,14 @@ export class Question {
   @Column({ name: 'correct_answer', type: 'varchar', nullable: true })
   correctAnswer: string | null = '';
 
+  // Every correct option of a multi-select question
+  @Column({ name: 'correct_answers', type: 'jsonb', nullable: true })
+  correctAnswers: string[] | null = null;
+
+  // Right-hand items of a matching question; options[i] pairs with matchTargets[i]
+  @Column({ name: 'match_targets', type: 'jsonb', nullable: true })
+  matchTargets: string[] | null = null;
+
   @Column({ type: 'integer', default: 1 })
   points: number = 0;
 
@@ -31,6 +58,39 @@ export class Question {
   @Column({ type: 'varchar', nullable: true })
   difficulty: string | null = '';
 
+  @Column({ type: 'jsonb', nullable: true })
+  rubric: RubricCriterion[] | null = null;
+
+  @Column({ type: 'jsonb', nullable: true })
+  attachments: QuestionAttachment[] | null = null;
+
+  // Only approved questions are served in evaluations
+  @Column({ type: 'varchar', default: 'draft' })
+  status: QuestionStatus = 'draft';
+
+  @Column({ name: 'reviewer_notes', type: 'text', nullable: true })
+  reviewerNotes: string | null = null;
+
+  @Column({ name: 'reviewed_by', type: 'integer', nullable: true })
+  reviewedBy: number | null = null;
+
+  @Column({ name: 'reviewed_at', type: 'timestamp', nullable: true })
+  reviewedAt: Date | null = null;
+
+  @Column({ type: 'integer', default: 1 })
+  version: number = 1;
+
+  // The question this one replaced when it was edited
+  @Column({ name: 'previous_version_id', type: 'integer', nullable: true })
+  previousVersionId: number | null = null;
+
+  // Retired questions are never served again but stay referenced by past responses
+  @Column({ name: 'is_active', type: 'boolean', default: true })
+  isActive: boolean = true;
+
+  @Column({ name: 'retired_at', type: 'timestamp', nullable: true })
+  retiredAt: Date | null = null;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
   createdAt: Date = new Date();
 
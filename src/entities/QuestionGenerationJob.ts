@@ -0,0 +1,49 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { Stage } from './Stage';
+
+export type QuestionGenerationJobStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+// A queued request to generate closed questions of one category for a stage
+@Entity('question_generation_jobs')
+export class QuestionGenerationJob {
+  @PrimaryGeneratedColumn()
+  id: number = 0;
+
+  @Column({ name: 'stage_id', type: 'integer' })
+  stageId: number = 0;
+
+  @Column({ type: 'varchar' })
+  category: string = '';
+
+  // Overrides the stage's difficulty for the generated questions
+  @Column({ type: 'varchar', nullable: true })
+  difficulty: string | null = null;
+
+  @Column({ type: 'integer' })
+  requested: number = 0;
+
+  @Column({ type: 'varchar', default: 'pending' })
+  status: QuestionGenerationJobStatus = 'pending';
+
+  @Column({ name: 'generated_count', type: 'integer', default: 0 })
+  generatedCount: number = 0;
+
+  @Column({ name: 'last_error', type: 'text', nullable: true })
+  lastError: string | null = null;
+
+  @Column({ name: 'locked_at', type: 'timestamp', nullable: true })
+  lockedAt: Date | null = null;
+
+  @Column({ name: 'finished_at', type: 'timestamp', nullable: true })
+  finishedAt: Date | null = null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt: Date = new Date();
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamp' })
+  updatedAt: Date = new Date();
+
+  @ManyToOne(() => Stage, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'stage_id' })
+  stage: Stage;
+}
@@ -4,6 +4,12 @@ import { Question } from './Question';
 import { UserStage } from './UserStage';
 import { EvaluationAttempt } from './EvaluationAttempt';
 
+// 'points' weights each question by its points; 'count' gives every question the same weight
+export type ScoringMode = 'points' | 'count';
+
+// Who may practice a stage: nobody, learners who unlocked it, or every learner who can see it
+export type PracticeAccess = 'disabled' | 'unlocked' | 'always';
+
 export interface ICreateStageInput {
   title: string;
   description: string;
@@ -21,6 +27,20 @@ export interface ICreateStageInput {
   totalQuestions?: number;
   openQuestions?: number;
   closedQuestions?: number;
+  timeLimitMinutes?: number | null;
+  autoApproveQuestions?: boolean;
+  scoringMode?: ScoringMode;
+  passingScore?: number;
+  negativeMarking?: number;
+  revealCorrectAnswers?: boolean;
+  availableFrom?: Date | null;
+  availableUntil?: Date | null;
+  publishAt?: Date | null;
+  maxAttempts?: number | null;
+  retakeCooldownMinutes?: number;
+  lockoutAfterFailures?: number | null;
+  lockoutMinutes?: number;
+  practiceAccess?: PracticeAccess;
 }
 
 @Entity('stages')
@@ -79,6 +99,57 @@ export class Stage {
   @Column({ name: 'closed_questions', type: 'integer', default: 5 })
   closedQuestions: number = 5;
 
+  @Column({ name: 'time_limit_minutes', type: 'integer', nullable: true })
+  timeLimitMinutes: number | null = null;
+
+  // When enabled, AI-generated and imported questions skip the review queue
+  @Column({ name: 'auto_approve_questions', type: 'boolean', default: false })
+  autoApproveQuestions: boolean = false;
+
+  @Column({ name: 'scoring_mode', type: 'varchar', default: 'points' })
+  scoringMode: ScoringMode = 'points';
+
+  // Minimum score (0-100) needed to complete the stage and unlock the next one
+  @Column({ name: 'passing_score', type: 'integer', default: 60 })
+  passingScore: number = 60;
+
+  // Fraction of a question's weight deducted for each wrong closed (auto-graded) answer
+  @Column({ name: 'negative_marking', type: 'float', default: 0 })
+  negativeMarking: number = 0;
+
+  // Whether learners see the correct answers when reviewing a graded attempt
+  @Column({ name: 'reveal_correct_answers', type: 'boolean', default: true })
+  revealCorrectAnswers: boolean = true;
+
+  // Window in which learners can start attempts; null leaves that side open
+  @Column({ name: 'available_from', type: 'timestamp', nullable: true })
+  availableFrom: Date | null = null;
+
+  @Column({ name: 'available_until', type: 'timestamp', nullable: true })
+  availableUntil: Date | null = null;
+
+  // When an inactive stage gets published (isActive set) by the publishing worker
+  @Column({ name: 'publish_at', type: 'timestamp', nullable: true })
+  publishAt: Date | null = null;
+
+  // Attempts a learner can start on the stage; null means unlimited
+  @Column({ name: 'max_attempts', type: 'integer', nullable: true })
+  maxAttempts: number | null = null;
+
+  // Minutes a learner must wait after an attempt ends before starting another
+  @Column({ name: 'retake_cooldown_minutes', type: 'integer', default: 0 })
+  retakeCooldownMinutes: number = 0;
+
+  // Failed attempts in a row that lock the learner out for lockoutMinutes; null disables the lockout
+  @Column({ name: 'lockout_after_failures', type: 'integer', nullable: true })
+  lockoutAfterFailures: number | null = null;
+
+  @Column({ name: 'lockout_minutes', type: 'integer', default: 1440 })
+  lockoutMinutes: number = 1440;
+
+  @Column({ name: 'practice_access', type: 'varchar', default: 'unlocked' })
+  practiceAccess: PracticeAccess = 'unlocked';
+
   @OneToMany(() => Question, question => question.stage)
   questions: Question[];
 
@@ -121,6 +192,20 @@ export class Stage {
     stage.totalQuestions = stageData.totalQuestions || 10;
     stage.openQuestions = stageData.openQuestions || 5;
     stage.closedQuestions = stageData.closedQuestions || 5;
+    stage.timeLimitMinutes = stageData.timeLimitMinutes || null;
+    stage.autoApproveQuestions = stageData.autoApproveQuestions || false;
+    stage.scoringMode = stageData.scoringMode || 'points';
+    stage.passingScore = stageData.passingScore ?? 60;
+    stage.negativeMarking = stageData.negativeMarking || 0;
+    stage.revealCorrectAnswers = stageData.revealCorrectAnswers ?? true;
+    stage.availableFrom = stageData.availableFrom || null;
+    stage.availableUntil = stageData.availableUntil || null;
+    stage.publishAt = stageData.publishAt || null;
+    stage.maxAttempts = stageData.maxAttempts ?? null;
+    stage.retakeCooldownMinutes = stageData.retakeCooldownMinutes || 0;
+    stage.lockoutAfterFailures = stageData.lockoutAfterFailures ?? null;
+    stage.lockoutMinutes = stageData.lockoutMinutes ?? 1440;
+    stage.practiceAccess = stageData.practiceAccess || 'unlocked';
 
     try {
       await stageRepository.save(stage);
@@ -0,0 +1,34 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn } from 'typeorm';
+import { Stage } from './Stage';
+
+// One edge of the prerequisite graph: `stageId` requires `prerequisiteStageId`.
+// Rows of a stage that share a group are alternatives (OR); every group must be met (AND).
+@Entity('stage_prerequisites')
+export class StagePrerequisite {
+  @PrimaryGeneratedColumn()
+  id: number = 0;
+
+  @Column({ name: 'stage_id', type: 'integer' })
+  stageId: number = 0;
+
+  @Column({ name: 'prerequisite_stage_id', type: 'integer' })
+  prerequisiteStageId: number = 0;
+
+  @Column({ name: 'group_index', type: 'integer', default: 0 })
+  groupIndex: number = 0;
+
+  // Best score (0-100) needed on the prerequisite; null means passing it under its own policy
+  @Column({ name: 'min_score', type: 'integer', nullable: true })
+  minScore: number | null = null;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt: Date = new Date();
+
+  @ManyToOne(() => Stage, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'stage_id' })
+  stage: Stage;
+
+  @ManyToOne(() => Stage, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'prerequisite_stage_id' })
+  prerequisiteStage: Stage;
+}
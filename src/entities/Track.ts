@@ -0,0 +1,27 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, OneToMany } from 'typeorm';
+import { TrackStage } from './TrackStage';
+
+// A learning path (e.g. manual QA, automation, performance) made of ordered stages
+@Entity('tracks')
+export class Track {
+  @PrimaryGeneratedColumn()
+  id: number = 0;
+
+  @Column({ type: 'varchar', unique: true })
+  title: string = '';
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null = null;
+
+  @Column({ name: 'is_active', type: 'boolean', default: true })
+  isActive: boolean = true;
+
+  @Column({ name: 'display_order', type: 'integer', default: 0 })
+  displayOrder: number = 0;
+
+  @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
+  createdAt: Date = new Date();
+
+  @OneToMany(() => TrackStage, trackStage => trackStage.track)
+  trackStages: TrackStage[];
+}
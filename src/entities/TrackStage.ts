@@ -0,0 +1,29 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, Unique } from 'typeorm';
+import { Stage } from './Stage';
+import { Track } from './Track';
+
+// Places a stage in a track; a stage can belong to several tracks
+@Entity('track_stages')
+@Unique(['trackId', 'stageId'])
+export class TrackStage {
+  @PrimaryGeneratedColumn()
+  id: number = 0;
+
+  @Column({ name: 'track_id', type: 'integer' })
+  trackId: number = 0;
+
+  @Column({ name: 'stage_id', type: 'integer' })
+  stageId: number = 0;
+
+  // Order of the stage within the track, starting at 1
+  @Column({ type: 'integer' })
+  position: number = 0;
+
+  @ManyToOne(() => Track, track => track.trackStages, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'track_id' })
+  track: Track;
+
+  @ManyToOne(() => Stage, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'stage_id' })
+  stage: Stage;
+}
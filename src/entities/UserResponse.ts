@@ -1,9 +1,25 @@
-import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn, Unique } from 'typeorm';
 import { EvaluationAttempt } from './EvaluationAttempt';
 import { Question } from './Question';
 import { User } from './User';
 
+export type ResponseGradingStatus = 'pending' | 'graded' | 'failed';
+
+export type ResponseReviewStatus = 'pending' | 'resolved';
+
+// Why an answer was sent to the human review queue
+export type ResponseReviewReason = 'low_confidence' | 'grading_failed';
+
+// How an open answer scored against one rubric criterion
+export interface RubricCriterionScore {
+  criterion: string;
+  weight: number;
+  score: number; // 0-1
+  justification: string;
+}
+
 @Entity('user_responses')
+@Unique(['attempt', 'question'])
 export class UserResponse {
   @PrimaryGeneratedColumn()
   id: number;
@@ -26,9 +42,53 @@ export class UserResponse {
   @Column({ name: 'is_correct', type: 'boolean', nullable: true })
   isCorrect: boolean | null;
 
-  @Column({ name: 'points_earned', type: 'integer', default: 0 })
+  // Fractional when the answer was graded against a rubric; numeric columns come back as strings
+  @Column({
+    name: 'points_earned',
+    type: 'numeric',
+    precision: 8,
+    scale: 2,
+    default: 0,
+    transformer: { to: (value: number) => value, from: (value: string | null) => (value === null ? 0 : parseFloat(value)) }
+  })
   pointsEarned: number;
 
+  @Column({ name: 'rubric_breakdown', type: 'jsonb', nullable: true })
+  rubricBreakdown: RubricCriterionScore[] | null;
+
+  // Grader's explanation of the verdict, shown to the learner when reviewing the attempt
+  @Column({ name: 'grading_explanation', type: 'text', nullable: true })
+  gradingExplanation: string | null;
+
+  @Column({ name: 'grading_status', type: 'varchar', default: 'pending' })
+  gradingStatus: ResponseGradingStatus;
+
+  // AI grader's self-reported confidence (0-1); null for answers graded without the AI
+  @Column({ name: 'grading_confidence', type: 'float', nullable: true })
+  gradingConfidence: number | null;
+
+  @Column({ name: 'review_status', type: 'varchar', nullable: true })
+  reviewStatus: ResponseReviewStatus | null;
+
+  @Column({ name: 'review_reason', type: 'varchar', nullable: true })
+  reviewReason: ResponseReviewReason | null;
+
+  // Set when a reviewer replaced the grader's verdict
+  @Column({ type: 'boolean', default: false })
+  overridden: boolean;
+
+  @Column({ name: 'reviewer_comment', type: 'text', nullable: true })
+  reviewerComment: string | null;
+
+  @Column({ name: 'reviewed_by', type: 'integer', nullable: true })
+  reviewedBy: number | null;
+
+  @Column({ name: 'reviewed_at', type: 'timestamp', nullable: true })
+  reviewedAt: Date | null;
+
   @CreateDateColumn({ name: 'created_at', type: 'timestamp' })
   createdAt: Date;
-}
\ No newline at end of file
+
+  @UpdateDateColumn({ name: 'updated_at', type: 'timestamp' })
+  updatedAt: Date;
+}
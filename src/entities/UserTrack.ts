@@ -0,0 +1,28 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Unique } from 'typeorm';
+import { Track } from './Track';
+import { User } from './User';
+
+// A learner's enrollment in a track
+@Entity('user_tracks')
+@Unique(['userId', 'trackId'])
+export class UserTrack {
+  @PrimaryGeneratedColumn()
+  id: number = 0;
+
+  @Column({ name: 'user_id', type: 'integer' })
+  userId: number = 0;
+
+  @Column({ name: 'track_id', type: 'integer' })
+  trackId: number = 0;
+
+  @CreateDateColumn({ name: 'enrolled_at', type: 'timestamp' })
+  enrolledAt: Date = new Date();
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @ManyToOne(() => Track, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'track_id' })
+  track: Track;
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddAnswerReview1711740000012 implements MigrationInterface {
+    name = 'AddAnswerReview1711740000012'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns already exist
+        const hasRevealCorrectAnswers = await queryRunner.hasColumn('stages', 'reveal_correct_answers');
+        const hasGradingExplanation = await queryRunner.hasColumn('user_responses', 'grading_explanation');
+
+        if (!hasRevealCorrectAnswers) {
+            await queryRunner.query(`ALTER TABLE "stages" ADD COLUMN "reveal_correct_answers" boolean DEFAULT true`);
+        }
+
+        if (!hasGradingExplanation) {
+            await queryRunner.query(`ALTER TABLE "user_responses" ADD COLUMN "grading_explanation" text`);
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns exist before dropping
+        const hasRevealCorrectAnswers = await queryRunner.hasColumn('stages', 'reveal_correct_answers');
+        const hasGradingExplanation = await queryRunner.hasColumn('user_responses', 'grading_explanation');
+
+        if (hasGradingExplanation) {
+            await queryRunner.query(`ALTER TABLE "user_responses" DROP COLUMN "grading_explanation"`);
+        }
+
+        if (hasRevealCorrectAnswers) {
+            await queryRunner.query(`ALTER TABLE "stages" DROP COLUMN "reveal_correct_answers"`);
+        }
+    }
+}
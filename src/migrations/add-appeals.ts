@@ -0,0 +1,34 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddAppeals1711740000011 implements MigrationInterface {
+    name = 'AddAppeals1711740000011'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "appeals" (
+                "id" SERIAL PRIMARY KEY,
+                "response_id" integer NOT NULL UNIQUE,
+                "attempt_id" integer NOT NULL,
+                "user_id" integer NOT NULL,
+                "justification" text NOT NULL,
+                "status" varchar(50) NOT NULL DEFAULT 'open',
+                "resolution_comment" text,
+                "resolved_by" integer,
+                "resolved_at" TIMESTAMP,
+                "learner_notified_at" TIMESTAMP,
+                "created_at" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                "updated_at" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY ("response_id") REFERENCES "user_responses"("id") ON DELETE CASCADE,
+                FOREIGN KEY ("attempt_id") REFERENCES "evaluation_attempts"("id") ON DELETE CASCADE,
+                FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE,
+                FOREIGN KEY ("resolved_by") REFERENCES "users"("id") ON DELETE SET NULL
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_appeals_status" ON "appeals" ("status")`);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_appeals_attempt_id" ON "appeals" ("attempt_id")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "appeals"`);
+    }
+}
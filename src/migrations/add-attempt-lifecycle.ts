@@ -0,0 +1,55 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddAttemptLifecycle1711740000002 implements MigrationInterface {
+    name = 'AddAttemptLifecycle1711740000002'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns already exist
+        const hasStatus = await queryRunner.hasColumn('evaluation_attempts', 'status');
+        const hasDeadline = await queryRunner.hasColumn('evaluation_attempts', 'deadline');
+        const hasQuestionIds = await queryRunner.hasColumn('evaluation_attempts', 'question_ids');
+        const hasTimeLimit = await queryRunner.hasColumn('stages', 'time_limit_minutes');
+
+        if (!hasStatus) {
+            await queryRunner.query(`ALTER TABLE "evaluation_attempts" ADD COLUMN "status" varchar(50) DEFAULT 'in_progress'`);
+            // Attempts created before the lifecycle existed were always submitted in one go
+            await queryRunner.query(`UPDATE "evaluation_attempts" SET "status" = 'submitted' WHERE "is_completed" = true`);
+        }
+
+        if (!hasDeadline) {
+            await queryRunner.query(`ALTER TABLE "evaluation_attempts" ADD COLUMN "deadline" TIMESTAMP`);
+        }
+
+        if (!hasQuestionIds) {
+            await queryRunner.query(`ALTER TABLE "evaluation_attempts" ADD COLUMN "question_ids" jsonb`);
+        }
+
+        if (!hasTimeLimit) {
+            await queryRunner.query(`ALTER TABLE "stages" ADD COLUMN "time_limit_minutes" integer`);
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns exist before dropping
+        const hasStatus = await queryRunner.hasColumn('evaluation_attempts', 'status');
+        const hasDeadline = await queryRunner.hasColumn('evaluation_attempts', 'deadline');
+        const hasQuestionIds = await queryRunner.hasColumn('evaluation_attempts', 'question_ids');
+        const hasTimeLimit = await queryRunner.hasColumn('stages', 'time_limit_minutes');
+
+        if (hasStatus) {
+            await queryRunner.query(`ALTER TABLE "evaluation_attempts" DROP COLUMN "status"`);
+        }
+
+        if (hasDeadline) {
+            await queryRunner.query(`ALTER TABLE "evaluation_attempts" DROP COLUMN "deadline"`);
+        }
+
+        if (hasQuestionIds) {
+            await queryRunner.query(`ALTER TABLE "evaluation_attempts" DROP COLUMN "question_ids"`);
+        }
+
+        if (hasTimeLimit) {
+            await queryRunner.query(`ALTER TABLE "stages" DROP COLUMN "time_limit_minutes"`);
+        }
+    }
+}
@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddAttemptSamplingSeed1711740000007 implements MigrationInterface {
+    name = 'AddAttemptSamplingSeed1711740000007'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if column already exists
+        const hasSamplingSeed = await queryRunner.hasColumn('evaluation_attempts', 'sampling_seed');
+
+        // Existing attempts keep a null seed: their options were served in stored order
+        if (!hasSamplingSeed) {
+            await queryRunner.query(`ALTER TABLE "evaluation_attempts" ADD COLUMN "sampling_seed" varchar(64)`);
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Check if column exists before dropping
+        const hasSamplingSeed = await queryRunner.hasColumn('evaluation_attempts', 'sampling_seed');
+
+        if (hasSamplingSeed) {
+            await queryRunner.query(`ALTER TABLE "evaluation_attempts" DROP COLUMN "sampling_seed"`);
+        }
+    }
+}
@@ -0,0 +1,24 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddAttemptSubmissionKey1711740000019 implements MigrationInterface {
+    name = 'AddAttemptSubmissionKey1711740000019'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if column already exists
+        const hasSubmissionKey = await queryRunner.hasColumn('evaluation_attempts', 'submission_key');
+
+        // Attempts submitted before this keep a null key and match any retry
+        if (!hasSubmissionKey) {
+            await queryRunner.query(`ALTER TABLE "evaluation_attempts" ADD COLUMN "submission_key" varchar(255)`);
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Check if column exists before dropping
+        const hasSubmissionKey = await queryRunner.hasColumn('evaluation_attempts', 'submission_key');
+
+        if (hasSubmissionKey) {
+            await queryRunner.query(`ALTER TABLE "evaluation_attempts" DROP COLUMN "submission_key"`);
+        }
+    }
+}
@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddGradingJobs1711740000004 implements MigrationInterface {
+    name = 'AddGradingJobs1711740000004'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if column already exists
+        const hasGradingStatus = await queryRunner.hasColumn('user_responses', 'grading_status');
+
+        if (!hasGradingStatus) {
+            await queryRunner.query(`ALTER TABLE "user_responses" ADD COLUMN "grading_status" varchar(50) DEFAULT 'pending'`);
+            // Responses stored before the pipeline existed were graded synchronously
+            await queryRunner.query(`UPDATE "user_responses" SET "grading_status" = 'graded' WHERE "is_correct" IS NOT NULL`);
+        }
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "grading_jobs" (
+                "id" SERIAL PRIMARY KEY,
+                "attempt_id" integer NOT NULL,
+                "status" varchar(50) NOT NULL DEFAULT 'pending',
+                "attempts" integer NOT NULL DEFAULT 0,
+                "max_attempts" integer NOT NULL DEFAULT 5,
+                "last_error" text,
+                "run_after" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                "locked_at" TIMESTAMP,
+                "created_at" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                "updated_at" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY ("attempt_id") REFERENCES "evaluation_attempts"("id") ON DELETE CASCADE
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_grading_jobs_status_run_after" ON "grading_jobs" ("status", "run_after")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "grading_jobs"`);
+
+        // Check if column exists before dropping
+        const hasGradingStatus = await queryRunner.hasColumn('user_responses', 'grading_status');
+
+        if (hasGradingStatus) {
+            await queryRunner.query(`ALTER TABLE "user_responses" DROP COLUMN "grading_status"`);
+        }
+    }
+}
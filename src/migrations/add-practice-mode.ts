@@ -0,0 +1,59 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddPracticeMode1711740000020 implements MigrationInterface {
+    name = 'AddPracticeMode1711740000020'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if column already exists
+        const hasPracticeAccess = await queryRunner.hasColumn('stages', 'practice_access');
+
+        if (!hasPracticeAccess) {
+            await queryRunner.query(`ALTER TABLE "stages" ADD COLUMN "practice_access" varchar(50) DEFAULT 'unlocked'`);
+        }
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "practice_sessions" (
+                "id" SERIAL PRIMARY KEY,
+                "session_id" varchar(255) NOT NULL UNIQUE,
+                "user_id" integer NOT NULL,
+                "stage_id" integer NOT NULL,
+                "question_ids" jsonb NOT NULL,
+                "sampling_seed" varchar(64) NOT NULL,
+                "score" integer,
+                "completed_at" TIMESTAMP,
+                "created_at" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE,
+                FOREIGN KEY ("stage_id") REFERENCES "stages"("id") ON DELETE CASCADE
+            )
+        `);
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "practice_responses" (
+                "id" SERIAL PRIMARY KEY,
+                "session_id" integer NOT NULL,
+                "question_id" integer NOT NULL,
+                "response" text NOT NULL,
+                "is_correct" boolean NOT NULL,
+                "points_earned" numeric(8,2) DEFAULT 0,
+                "rubric_breakdown" jsonb,
+                "explanation" text,
+                "answered_at" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY ("session_id") REFERENCES "practice_sessions"("id") ON DELETE CASCADE,
+                FOREIGN KEY ("question_id") REFERENCES "questions"("id") ON DELETE CASCADE,
+                UNIQUE ("session_id", "question_id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_practice_sessions_user_id" ON "practice_sessions" ("user_id")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "practice_responses"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "practice_sessions"`);
+
+        // Check if column exists before dropping
+        const hasPracticeAccess = await queryRunner.hasColumn('stages', 'practice_access');
+
+        if (hasPracticeAccess) {
+            await queryRunner.query(`ALTER TABLE "stages" DROP COLUMN "practice_access"`);
+        }
+    }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddQuestionAttachments1711740000014 implements MigrationInterface {
+    name = 'AddQuestionAttachments1711740000014'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if column already exists
+        const hasAttachments = await queryRunner.hasColumn('questions', 'attachments');
+
+        if (!hasAttachments) {
+            await queryRunner.query(`ALTER TABLE "questions" ADD COLUMN "attachments" jsonb`);
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Check if column exists before dropping
+        const hasAttachments = await queryRunner.hasColumn('questions', 'attachments');
+
+        if (hasAttachments) {
+            await queryRunner.query(`ALTER TABLE "questions" DROP COLUMN "attachments"`);
+        }
+    }
+}
@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddQuestionGenerationJobs1711740000022 implements MigrationInterface {
+    name = 'AddQuestionGenerationJobs1711740000022'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "question_generation_jobs" (
+                "id" SERIAL PRIMARY KEY,
+                "stage_id" integer NOT NULL,
+                "category" varchar(255) NOT NULL,
+                "difficulty" varchar(50),
+                "requested" integer NOT NULL,
+                "status" varchar(50) NOT NULL DEFAULT 'pending',
+                "generated_count" integer NOT NULL DEFAULT 0,
+                "last_error" text,
+                "locked_at" TIMESTAMP,
+                "finished_at" TIMESTAMP,
+                "created_at" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                "updated_at" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY ("stage_id") REFERENCES "stages"("id") ON DELETE CASCADE
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_question_generation_jobs_status" ON "question_generation_jobs" ("status", "created_at")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "question_generation_jobs"`);
+    }
+}
@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddQuestionReview1711740000006 implements MigrationInterface {
+    name = 'AddQuestionReview1711740000006'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns already exist
+        const hasStatus = await queryRunner.hasColumn('questions', 'status');
+        const hasReviewerNotes = await queryRunner.hasColumn('questions', 'reviewer_notes');
+        const hasReviewedBy = await queryRunner.hasColumn('questions', 'reviewed_by');
+        const hasReviewedAt = await queryRunner.hasColumn('questions', 'reviewed_at');
+        const hasAutoApprove = await queryRunner.hasColumn('stages', 'auto_approve_questions');
+
+        if (!hasStatus) {
+            await queryRunner.query(`ALTER TABLE "questions" ADD COLUMN "status" varchar(50) DEFAULT 'draft'`);
+            // Questions already in circulation stay selectable
+            await queryRunner.query(`UPDATE "questions" SET "status" = 'approved'`);
+        }
+
+        if (!hasReviewerNotes) {
+            await queryRunner.query(`ALTER TABLE "questions" ADD COLUMN "reviewer_notes" text`);
+        }
+
+        if (!hasReviewedBy) {
+            await queryRunner.query(`ALTER TABLE "questions" ADD COLUMN "reviewed_by" integer REFERENCES "users"("id") ON DELETE SET NULL`);
+        }
+
+        if (!hasReviewedAt) {
+            await queryRunner.query(`ALTER TABLE "questions" ADD COLUMN "reviewed_at" TIMESTAMP`);
+        }
+
+        if (!hasAutoApprove) {
+            await queryRunner.query(`ALTER TABLE "stages" ADD COLUMN "auto_approve_questions" boolean DEFAULT false`);
+        }
+
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_questions_status" ON "questions" ("status")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_questions_status"`);
+
+        // Check if columns exist before dropping
+        for (const column of ['reviewed_at', 'reviewed_by', 'reviewer_notes', 'status']) {
+            if (await queryRunner.hasColumn('questions', column)) {
+                await queryRunner.query(`ALTER TABLE "questions" DROP COLUMN "${column}"`);
+            }
+        }
+
+        if (await queryRunner.hasColumn('stages', 'auto_approve_questions')) {
+            await queryRunner.query(`ALTER TABLE "stages" DROP COLUMN "auto_approve_questions"`);
+        }
+    }
+}
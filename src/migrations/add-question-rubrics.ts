@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddQuestionRubrics1711740000009 implements MigrationInterface {
+    name = 'AddQuestionRubrics1711740000009'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns already exist
+        const hasRubric = await queryRunner.hasColumn('questions', 'rubric');
+        const hasRubricBreakdown = await queryRunner.hasColumn('user_responses', 'rubric_breakdown');
+
+        if (!hasRubric) {
+            await queryRunner.query(`ALTER TABLE "questions" ADD COLUMN "rubric" jsonb`);
+        }
+
+        if (!hasRubricBreakdown) {
+            await queryRunner.query(`ALTER TABLE "user_responses" ADD COLUMN "rubric_breakdown" jsonb`);
+        }
+
+        // Rubric grading awards fractional points; existing integer values convert as-is
+        await queryRunner.query(`ALTER TABLE "user_responses" ALTER COLUMN "points_earned" TYPE numeric(8,2)`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns exist before dropping
+        const hasRubric = await queryRunner.hasColumn('questions', 'rubric');
+        const hasRubricBreakdown = await queryRunner.hasColumn('user_responses', 'rubric_breakdown');
+
+        await queryRunner.query(`ALTER TABLE "user_responses" ALTER COLUMN "points_earned" TYPE integer USING round("points_earned")`);
+
+        if (hasRubricBreakdown) {
+            await queryRunner.query(`ALTER TABLE "user_responses" DROP COLUMN "rubric_breakdown"`);
+        }
+
+        if (hasRubric) {
+            await queryRunner.query(`ALTER TABLE "questions" DROP COLUMN "rubric"`);
+        }
+    }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddQuestionTypes1711740000013 implements MigrationInterface {
+    name = 'AddQuestionTypes1711740000013'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns already exist
+        const hasCorrectAnswers = await queryRunner.hasColumn('questions', 'correct_answers');
+        const hasMatchTargets = await queryRunner.hasColumn('questions', 'match_targets');
+
+        if (!hasCorrectAnswers) {
+            await queryRunner.query(`ALTER TABLE "questions" ADD COLUMN "correct_answers" jsonb`);
+        }
+
+        if (!hasMatchTargets) {
+            await queryRunner.query(`ALTER TABLE "questions" ADD COLUMN "match_targets" jsonb`);
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns exist before dropping
+        const hasCorrectAnswers = await queryRunner.hasColumn('questions', 'correct_answers');
+        const hasMatchTargets = await queryRunner.hasColumn('questions', 'match_targets');
+
+        if (hasMatchTargets) {
+            await queryRunner.query(`ALTER TABLE "questions" DROP COLUMN "match_targets"`);
+        }
+
+        if (hasCorrectAnswers) {
+            await queryRunner.query(`ALTER TABLE "questions" DROP COLUMN "correct_answers"`);
+        }
+    }
+}
@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddQuestionVersioning1711740000005 implements MigrationInterface {
+    name = 'AddQuestionVersioning1711740000005'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns already exist
+        const hasVersion = await queryRunner.hasColumn('questions', 'version');
+        const hasPreviousVersionId = await queryRunner.hasColumn('questions', 'previous_version_id');
+        const hasIsActive = await queryRunner.hasColumn('questions', 'is_active');
+        const hasRetiredAt = await queryRunner.hasColumn('questions', 'retired_at');
+
+        if (!hasVersion) {
+            await queryRunner.query(`ALTER TABLE "questions" ADD COLUMN "version" integer DEFAULT 1`);
+        }
+
+        if (!hasPreviousVersionId) {
+            await queryRunner.query(`ALTER TABLE "questions" ADD COLUMN "previous_version_id" integer REFERENCES "questions"("id") ON DELETE SET NULL`);
+        }
+
+        if (!hasIsActive) {
+            await queryRunner.query(`ALTER TABLE "questions" ADD COLUMN "is_active" boolean DEFAULT true`);
+        }
+
+        if (!hasRetiredAt) {
+            await queryRunner.query(`ALTER TABLE "questions" ADD COLUMN "retired_at" TIMESTAMP`);
+        }
+
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_questions_stage_id_is_active" ON "questions" ("stage_id", "is_active")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_questions_stage_id_is_active"`);
+
+        // Check if columns exist before dropping
+        for (const column of ['retired_at', 'is_active', 'previous_version_id', 'version']) {
+            if (await queryRunner.hasColumn('questions', column)) {
+                await queryRunner.query(`ALTER TABLE "questions" DROP COLUMN "${column}"`);
+            }
+        }
+    }
+}
@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddResponseDrafts1711740000003 implements MigrationInterface {
+    name = 'AddResponseDrafts1711740000003'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if column already exists
+        const hasUpdatedAt = await queryRunner.hasColumn('user_responses', 'updated_at');
+
+        if (!hasUpdatedAt) {
+            await queryRunner.query(`ALTER TABLE "user_responses" ADD COLUMN "updated_at" TIMESTAMP DEFAULT CURRENT_TIMESTAMP`);
+        }
+
+        // Older submissions could answer a question twice; keep only the newest response
+        await queryRunner.query(`
+            DELETE FROM "user_responses" older
+            USING "user_responses" newer
+            WHERE older."attempt_id" = newer."attempt_id"
+              AND older."question_id" = newer."question_id"
+              AND older."id" < newer."id"
+        `);
+
+        // A draft is saved per question, so an attempt can hold at most one response per question
+        await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "uq_user_responses_attempt_question" ON "user_responses" ("attempt_id", "question_id")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "uq_user_responses_attempt_question"`);
+
+        // Check if column exists before dropping
+        const hasUpdatedAt = await queryRunner.hasColumn('user_responses', 'updated_at');
+
+        if (hasUpdatedAt) {
+            await queryRunner.query(`ALTER TABLE "user_responses" DROP COLUMN "updated_at"`);
+        }
+    }
+}
@@ -0,0 +1,60 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddResponseReview1711740000010 implements MigrationInterface {
+    name = 'AddResponseReview1711740000010'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns already exist
+        const hasConfidence = await queryRunner.hasColumn('user_responses', 'grading_confidence');
+        const hasReviewStatus = await queryRunner.hasColumn('user_responses', 'review_status');
+        const hasReviewReason = await queryRunner.hasColumn('user_responses', 'review_reason');
+        const hasOverridden = await queryRunner.hasColumn('user_responses', 'overridden');
+        const hasReviewerComment = await queryRunner.hasColumn('user_responses', 'reviewer_comment');
+        const hasReviewedBy = await queryRunner.hasColumn('user_responses', 'reviewed_by');
+        const hasReviewedAt = await queryRunner.hasColumn('user_responses', 'reviewed_at');
+
+        if (!hasConfidence) {
+            await queryRunner.query(`ALTER TABLE "user_responses" ADD COLUMN "grading_confidence" float`);
+        }
+
+        if (!hasReviewStatus) {
+            await queryRunner.query(`ALTER TABLE "user_responses" ADD COLUMN "review_status" varchar(50)`);
+            // Answers whose grading already failed go straight to the queue
+            await queryRunner.query(`UPDATE "user_responses" SET "review_status" = 'pending' WHERE "grading_status" = 'failed'`);
+        }
+
+        if (!hasReviewReason) {
+            await queryRunner.query(`ALTER TABLE "user_responses" ADD COLUMN "review_reason" varchar(50)`);
+            await queryRunner.query(`UPDATE "user_responses" SET "review_reason" = 'grading_failed' WHERE "grading_status" = 'failed'`);
+        }
+
+        if (!hasOverridden) {
+            await queryRunner.query(`ALTER TABLE "user_responses" ADD COLUMN "overridden" boolean DEFAULT false`);
+        }
+
+        if (!hasReviewerComment) {
+            await queryRunner.query(`ALTER TABLE "user_responses" ADD COLUMN "reviewer_comment" text`);
+        }
+
+        if (!hasReviewedBy) {
+            await queryRunner.query(`ALTER TABLE "user_responses" ADD COLUMN "reviewed_by" integer REFERENCES "users"("id") ON DELETE SET NULL`);
+        }
+
+        if (!hasReviewedAt) {
+            await queryRunner.query(`ALTER TABLE "user_responses" ADD COLUMN "reviewed_at" TIMESTAMP`);
+        }
+
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_user_responses_review_status" ON "user_responses" ("review_status")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_user_responses_review_status"`);
+
+        // Check if columns exist before dropping
+        for (const column of ['reviewed_at', 'reviewed_by', 'reviewer_comment', 'overridden', 'review_reason', 'review_status', 'grading_confidence']) {
+            if (await queryRunner.hasColumn('user_responses', column)) {
+                await queryRunner.query(`ALTER TABLE "user_responses" DROP COLUMN "${column}"`);
+            }
+        }
+    }
+}
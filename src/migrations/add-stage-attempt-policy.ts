@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddStageAttemptPolicy1711740000018 implements MigrationInterface {
+    name = 'AddStageAttemptPolicy1711740000018'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns already exist
+        const hasMaxAttempts = await queryRunner.hasColumn('stages', 'max_attempts');
+        const hasRetakeCooldown = await queryRunner.hasColumn('stages', 'retake_cooldown_minutes');
+        const hasLockoutAfterFailures = await queryRunner.hasColumn('stages', 'lockout_after_failures');
+        const hasLockoutMinutes = await queryRunner.hasColumn('stages', 'lockout_minutes');
+
+        if (!hasMaxAttempts) {
+            await queryRunner.query(`ALTER TABLE "stages" ADD COLUMN "max_attempts" integer`);
+        }
+
+        if (!hasRetakeCooldown) {
+            await queryRunner.query(`ALTER TABLE "stages" ADD COLUMN "retake_cooldown_minutes" integer DEFAULT 0`);
+        }
+
+        if (!hasLockoutAfterFailures) {
+            await queryRunner.query(`ALTER TABLE "stages" ADD COLUMN "lockout_after_failures" integer`);
+        }
+
+        if (!hasLockoutMinutes) {
+            await queryRunner.query(`ALTER TABLE "stages" ADD COLUMN "lockout_minutes" integer DEFAULT 1440`);
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns exist before dropping
+        const hasMaxAttempts = await queryRunner.hasColumn('stages', 'max_attempts');
+        const hasRetakeCooldown = await queryRunner.hasColumn('stages', 'retake_cooldown_minutes');
+        const hasLockoutAfterFailures = await queryRunner.hasColumn('stages', 'lockout_after_failures');
+        const hasLockoutMinutes = await queryRunner.hasColumn('stages', 'lockout_minutes');
+
+        if (hasLockoutMinutes) {
+            await queryRunner.query(`ALTER TABLE "stages" DROP COLUMN "lockout_minutes"`);
+        }
+
+        if (hasLockoutAfterFailures) {
+            await queryRunner.query(`ALTER TABLE "stages" DROP COLUMN "lockout_after_failures"`);
+        }
+
+        if (hasRetakeCooldown) {
+            await queryRunner.query(`ALTER TABLE "stages" DROP COLUMN "retake_cooldown_minutes"`);
+        }
+
+        if (hasMaxAttempts) {
+            await queryRunner.query(`ALTER TABLE "stages" DROP COLUMN "max_attempts"`);
+        }
+    }
+}
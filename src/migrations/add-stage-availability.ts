@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddStageAvailability1711740000017 implements MigrationInterface {
+    name = 'AddStageAvailability1711740000017'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns already exist
+        const hasAvailableFrom = await queryRunner.hasColumn('stages', 'available_from');
+        const hasAvailableUntil = await queryRunner.hasColumn('stages', 'available_until');
+        const hasPublishAt = await queryRunner.hasColumn('stages', 'publish_at');
+
+        if (!hasAvailableFrom) {
+            await queryRunner.query(`ALTER TABLE "stages" ADD COLUMN "available_from" TIMESTAMP`);
+        }
+
+        if (!hasAvailableUntil) {
+            await queryRunner.query(`ALTER TABLE "stages" ADD COLUMN "available_until" TIMESTAMP`);
+        }
+
+        if (!hasPublishAt) {
+            await queryRunner.query(`ALTER TABLE "stages" ADD COLUMN "publish_at" TIMESTAMP`);
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns exist before dropping
+        const hasAvailableFrom = await queryRunner.hasColumn('stages', 'available_from');
+        const hasAvailableUntil = await queryRunner.hasColumn('stages', 'available_until');
+        const hasPublishAt = await queryRunner.hasColumn('stages', 'publish_at');
+
+        if (hasPublishAt) {
+            await queryRunner.query(`ALTER TABLE "stages" DROP COLUMN "publish_at"`);
+        }
+
+        if (hasAvailableUntil) {
+            await queryRunner.query(`ALTER TABLE "stages" DROP COLUMN "available_until"`);
+        }
+
+        if (hasAvailableFrom) {
+            await queryRunner.query(`ALTER TABLE "stages" DROP COLUMN "available_from"`);
+        }
+    }
+}
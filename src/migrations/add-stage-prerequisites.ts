@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddStagePrerequisites1711740000015 implements MigrationInterface {
+    name = 'AddStagePrerequisites1711740000015'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const hasTable = await queryRunner.hasTable('stage_prerequisites');
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "stage_prerequisites" (
+                "id" SERIAL PRIMARY KEY,
+                "stage_id" integer NOT NULL,
+                "prerequisite_stage_id" integer NOT NULL,
+                "group_index" integer NOT NULL DEFAULT 0,
+                "min_score" integer,
+                "created_at" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY ("stage_id") REFERENCES "stages"("id") ON DELETE CASCADE,
+                FOREIGN KEY ("prerequisite_stage_id") REFERENCES "stages"("id") ON DELETE CASCADE,
+                UNIQUE ("stage_id", "group_index", "prerequisite_stage_id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_stage_prerequisites_stage_id" ON "stage_prerequisites" ("stage_id")`);
+
+        // Keep the existing roadmap: each stage requires the one right before it by display_order
+        if (!hasTable) {
+            await queryRunner.query(`
+                INSERT INTO "stage_prerequisites" ("stage_id", "prerequisite_stage_id", "group_index")
+                SELECT s."id", p."id", 0
+                FROM "stages" s
+                JOIN "stages" p ON p."display_order" = s."display_order" - 1
+            `);
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "stage_prerequisites"`);
+    }
+}
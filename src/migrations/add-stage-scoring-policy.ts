@@ -0,0 +1,44 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddStageScoringPolicy1711740000008 implements MigrationInterface {
+    name = 'AddStageScoringPolicy1711740000008'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns already exist
+        const hasScoringMode = await queryRunner.hasColumn('stages', 'scoring_mode');
+        const hasPassingScore = await queryRunner.hasColumn('stages', 'passing_score');
+        const hasNegativeMarking = await queryRunner.hasColumn('stages', 'negative_marking');
+
+        if (!hasScoringMode) {
+            await queryRunner.query(`ALTER TABLE "stages" ADD COLUMN "scoring_mode" varchar(20) DEFAULT 'points'`);
+        }
+
+        // 60 matches the pass mark that was hardcoded before this column existed
+        if (!hasPassingScore) {
+            await queryRunner.query(`ALTER TABLE "stages" ADD COLUMN "passing_score" integer DEFAULT 60`);
+        }
+
+        if (!hasNegativeMarking) {
+            await queryRunner.query(`ALTER TABLE "stages" ADD COLUMN "negative_marking" float DEFAULT 0`);
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Check if columns exist before dropping
+        const hasScoringMode = await queryRunner.hasColumn('stages', 'scoring_mode');
+        const hasPassingScore = await queryRunner.hasColumn('stages', 'passing_score');
+        const hasNegativeMarking = await queryRunner.hasColumn('stages', 'negative_marking');
+
+        if (hasNegativeMarking) {
+            await queryRunner.query(`ALTER TABLE "stages" DROP COLUMN "negative_marking"`);
+        }
+
+        if (hasPassingScore) {
+            await queryRunner.query(`ALTER TABLE "stages" DROP COLUMN "passing_score"`);
+        }
+
+        if (hasScoringMode) {
+            await queryRunner.query(`ALTER TABLE "stages" DROP COLUMN "scoring_mode"`);
+        }
+    }
+}
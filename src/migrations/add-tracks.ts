@@ -0,0 +1,47 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddTracks1711740000016 implements MigrationInterface {
+    name = 'AddTracks1711740000016'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "tracks" (
+                "id" SERIAL PRIMARY KEY,
+                "title" varchar(255) NOT NULL UNIQUE,
+                "description" text,
+                "is_active" boolean NOT NULL DEFAULT true,
+                "display_order" integer NOT NULL DEFAULT 0,
+                "created_at" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+            )
+        `);
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "track_stages" (
+                "id" SERIAL PRIMARY KEY,
+                "track_id" integer NOT NULL,
+                "stage_id" integer NOT NULL,
+                "position" integer NOT NULL,
+                FOREIGN KEY ("track_id") REFERENCES "tracks"("id") ON DELETE CASCADE,
+                FOREIGN KEY ("stage_id") REFERENCES "stages"("id") ON DELETE CASCADE,
+                UNIQUE ("track_id", "stage_id")
+            )
+        `);
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "user_tracks" (
+                "id" SERIAL PRIMARY KEY,
+                "user_id" integer NOT NULL,
+                "track_id" integer NOT NULL,
+                "enrolled_at" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE,
+                FOREIGN KEY ("track_id") REFERENCES "tracks"("id") ON DELETE CASCADE,
+                UNIQUE ("user_id", "track_id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_track_stages_stage_id" ON "track_stages" ("stage_id")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "user_tracks"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "track_stages"`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "tracks"`);
+    }
+}
@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddWeakAreaPractice1711740000021 implements MigrationInterface {
+    name = 'AddWeakAreaPractice1711740000021'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Check if column already exists
+        const hasKind = await queryRunner.hasColumn('practice_sessions', 'kind');
+
+        if (!hasKind) {
+            await queryRunner.query(`ALTER TABLE "practice_sessions" ADD COLUMN "kind" varchar(50) DEFAULT 'stage'`);
+        }
+
+        // Weak-area quizzes draw from several stages
+        await queryRunner.query(`ALTER TABLE "practice_sessions" ALTER COLUMN "stage_id" DROP NOT NULL`);
+        await queryRunner.query(`CREATE INDEX IF NOT EXISTS "idx_questions_category" ON "questions" ("category")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_questions_category"`);
+        await queryRunner.query(`DELETE FROM "practice_sessions" WHERE "stage_id" IS NULL`);
+        await queryRunner.query(`ALTER TABLE "practice_sessions" ALTER COLUMN "stage_id" SET NOT NULL`);
+
+        // Check if column exists before dropping
+        const hasKind = await queryRunner.hasColumn('practice_sessions', 'kind');
+
+        if (hasKind) {
+            await queryRunner.query(`ALTER TABLE "practice_sessions" DROP COLUMN "kind"`);
+        }
+    }
+}
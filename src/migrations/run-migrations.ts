@@ -5,7 +5,9 @@ async function runMigrations() {
   try {
     // Get initialized data source
     const dataSource = await getDataSource();
-  
+
+    // Apply pending schema migrations
+    await dataSource.runMigrations();
 
     // Insert initial stages
     const stageRepository = dataSource.getRepository(Stage);
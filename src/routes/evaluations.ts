@@ -3,38 +3,24 @@ import { AppDataSource } from '../config/database-minimal';
 import { Question } from '../entities/Question';
 import { Stage } from '../entities/Stage';
 import { authMiddleware, AuthRequest, adminMiddleware } from '../middleware/auth';
-import { openRouterService } from '../services/openRouterService';
+import {
+  AttemptError,
+  getResumableAttempt,
+  saveDraftResponse,
+  selectQuestionsForStage,
+  startAttempt,
+  toClientQuestion
+} from '../services/attemptService';
+import { generateQuestionsForStage, parseClosedTypes, validateGenerationParams } from '../services/questionGenerationService';
+import { createSeededRandom, generateSeed } from '../services/samplingService';
+import { createQuestions, initialQuestionStatus, QuestionValidationError } from '../services/questionService';
+import { QuestionGenerationError } from '../services/questionSchema';
+import { AUTO_GRADED_QUESTION_TYPES, serializeAnswer } from '../services/questionTypes';
 
 const router = Router();
 
-// Cache para preguntas generadas (evita regenerar las mismas preguntas)
-const questionGenerationCache = new Map<string, any>();
-const CACHE_TTL = 10 * 60 * 1000; // 10 minutos
-
-// Helper function para generar cache key
-const generateCacheKey = (stageId: number, openQuestions: number, closedQuestions: number): string => {
-  return `${stageId}-${openQuestions}-${closedQuestions}`;
-};
-
-// Helper function para validar parámetros
-const validateGenerationParams = (stageId: number, openQuestions: number, closedQuestions: number): string | null => {
-  if (!stageId || stageId <= 0) {
-    return 'ID de etapa inválido';
-  }
-  if (openQuestions < 0 || closedQuestions < 0) {
-    return 'El número de preguntas no puede ser negativo';
-  }
-  if (openQuestions + closedQuestions === 0) {
-    return 'Debe especificar al menos una pregunta';
-  }
-  if (openQuestions + closedQuestions > 20) {
-    return 'No puede generar más de 20 preguntas a la vez';
-  }
-  return null;
-};
-
-// Generate questions for a stage using AI
-router.get('/generate', authMiddleware, async (req: AuthRequest, res) => {
+// Sample a stage's approved questions (admin only: it skips the attempt gating and limits)
+router.get('/generate', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
   try {
     const { stage, open = 5, closed = 5 } = req.query;
     const stageId = parseInt(stage as string);
@@ -50,76 +36,43 @@ router.get('/generate', authMiddleware, async (req: AuthRequest, res) => {
       });
     }
 
-    // Verificar cache primero
-    const cacheKey = generateCacheKey(stageId, openQuestions, closedQuestions);
-    const cachedResult = questionGenerationCache.get(cacheKey);
-    
-    if (cachedResult && Date.now() - cachedResult.timestamp < CACHE_TTL) {
-      console.log(`✅ Preguntas servidas desde cache para stage ${stageId}`);
-      return res.json({ 
-        questions: cachedResult.questions,
-        fromCache: true
-      });
-    }
-
-    // Buscar preguntas pre-generadas para este stage
+    // Cada solicitud obtiene su propia muestra del banco de preguntas aprobadas
     const questionRepository = AppDataSource.getRepository(Question);
-    const existingQuestions = await questionRepository.find({
-      where: { stageId },
-      order: { id: 'ASC' }
+    const totalAvailable = await questionRepository.count({
+      where: { stageId, isActive: true, status: 'approved' }
     });
 
-    if (existingQuestions.length === 0) {
+    if (totalAvailable === 0) {
       return res.status(404).json({ 
         error: 'No hay preguntas disponibles',
         message: 'Este stage no tiene preguntas generadas. Contacta al administrador para que genere las preguntas.'
       });
     }
 
-    // Filtrar preguntas según el tipo solicitado
-    const openTypeQuestions = existingQuestions.filter(q => q.type === 'open_text' || q.type === 'open-text');
-    const closedTypeQuestions = existingQuestions.filter(q => q.type === 'multiple_choice' || q.type === 'multiple-choice');
-
-    // Seleccionar el número de preguntas solicitado
-    const selectedOpenQuestions = openTypeQuestions.slice(0, openQuestions);
-    const selectedClosedQuestions = closedTypeQuestions.slice(0, closedQuestions);
-
-    // Combinar y mezclar las preguntas
-    const allSelectedQuestions = [...selectedOpenQuestions, ...selectedClosedQuestions];
-    
-    // Mezclar aleatoriamente las preguntas
-    const shuffledQuestions = allSelectedQuestions.sort(() => Math.random() - 0.5);
+    const sampledQuestions = await selectQuestionsForStage(
+      AppDataSource.manager,
+      stageId,
+      openQuestions,
+      closedQuestions,
+      createSeededRandom(generateSeed())
+    );
 
-    if (shuffledQuestions.length === 0) {
+    if (sampledQuestions.length === 0) {
       return res.status(404).json({ 
         error: 'No hay suficientes preguntas',
         message: 'No hay suficientes preguntas del tipo solicitado para este stage.'
       });
     }
 
-    console.log(`✅ ${shuffledQuestions.length} preguntas pre-generadas cargadas para stage ${stageId}`);
+    console.log(`✅ ${sampledQuestions.length} preguntas pre-generadas cargadas para stage ${stageId}`);
 
     // Formatear preguntas para el cliente (sin respuestas correctas)
-    const questionsForClient = shuffledQuestions.map((q: any) => ({
-      id: q.id,
-      type: q.type,
-      questionText: q.questionText,
-      options: q.options,
-      points: q.points,
-      category: q.category,
-      difficulty: q.difficulty
-    }));
-
-    // Guardar en cache
-    questionGenerationCache.set(cacheKey, {
-      questions: questionsForClient,
-      timestamp: Date.now()
-    });
+    const questionsForClient = sampledQuestions.map(q => toClientQuestion(q));
 
     res.json({ 
       questions: questionsForClient,
       fromPreGenerated: true,
-      totalAvailable: existingQuestions.length,
+      totalAvailable,
       message: 'Preguntas pre-generadas cargadas exitosamente'
     });
 
@@ -133,6 +86,149 @@ router.get('/generate', authMiddleware, async (req: AuthRequest, res) => {
   }
 });
 
+// Start an evaluation attempt: freezes the question set and the deadline server-side
+router.post('/attempts', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const stageId = parseInt(req.body.stageId);
+    const openQuestions = req.body.open !== undefined ? parseInt(req.body.open) : undefined;
+    const closedQuestions = req.body.closed !== undefined ? parseInt(req.body.closed) : undefined;
+
+    if (!stageId || isNaN(stageId) || stageId <= 0) {
+      return res.status(400).json({
+        error: 'Parámetros inválidos',
+        message: 'ID de etapa inválido'
+      });
+    }
+
+    if (openQuestions !== undefined || closedQuestions !== undefined) {
+      const validationError = validateGenerationParams(stageId, openQuestions ?? 0, closedQuestions ?? 0);
+      if (validationError) {
+        return res.status(400).json({
+          error: 'Parámetros inválidos',
+          message: validationError
+        });
+      }
+    }
+
+    const { attempt, questions, resumed } = await startAttempt(req.user!.id, stageId, openQuestions, closedQuestions);
+
+    res.status(resumed ? 200 : 201).json({
+      attemptId: attempt.attemptId,
+      stageId: attempt.stageId,
+      status: attempt.status,
+      startTime: attempt.startTime,
+      deadline: attempt.deadline,
+      timeLimitSeconds: attempt.deadline
+        ? Math.round((new Date(attempt.deadline).getTime() - new Date(attempt.startTime).getTime()) / 1000)
+        : null,
+      resumed,
+      questions: questions.map(q => toClientQuestion(q, attempt.samplingSeed))
+    });
+  } catch (error: any) {
+    if (error instanceof AttemptError) {
+      return res.status(error.status).json({
+        error: error.message,
+        code: error.code
+      });
+    }
+
+    console.error('Error starting evaluation attempt:', error);
+    res.status(500).json({
+      error: 'Error interno del servidor',
+      message: 'Error al iniciar la evaluación. Por favor, intenta de nuevo más tarde.'
+    });
+  }
+});
+
+// Get the user's in-progress attempt (optionally for one stage) to resume it
+router.get('/attempts/current', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const stageId = req.query.stage ? parseInt(req.query.stage as string) : undefined;
+    if (stageId !== undefined && (isNaN(stageId) || stageId <= 0)) {
+      return res.status(400).json({
+        error: 'Parámetros inválidos',
+        message: 'ID de etapa inválido'
+      });
+    }
+
+    const resumable = await getResumableAttempt(req.user!.id, stageId);
+    if (!resumable) {
+      return res.status(404).json({
+        error: 'No hay evaluaciones en curso',
+        code: 'NO_OPEN_ATTEMPT'
+      });
+    }
+
+    const { attempt, questions, responses } = resumable;
+    res.json({
+      attemptId: attempt.attemptId,
+      stageId: attempt.stageId,
+      status: attempt.status,
+      startTime: attempt.startTime,
+      deadline: attempt.deadline,
+      remainingSeconds: attempt.deadline
+        ? Math.max(0, Math.round((new Date(attempt.deadline).getTime() - Date.now()) / 1000))
+        : null,
+      questions: questions.map(q => toClientQuestion(q, attempt.samplingSeed)),
+      answers: responses.map(r => ({
+        questionId: r.question.id,
+        answer: r.response,
+        savedAt: r.updatedAt
+      }))
+    });
+  } catch (error: any) {
+    console.error('Error loading in-progress attempt:', error);
+    res.status(500).json({
+      error: 'Error interno del servidor',
+      message: 'Error al cargar la evaluación en curso. Por favor, intenta de nuevo más tarde.'
+    });
+  }
+});
+
+// Autosave the draft answer to one question of an in-progress attempt
+router.put('/attempts/:attemptId/responses/:questionId', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const questionId = parseInt(req.params.questionId);
+    const { answer } = req.body;
+
+    if (!questionId || isNaN(questionId)) {
+      return res.status(400).json({
+        error: 'Parámetros inválidos',
+        message: 'ID de pregunta inválido'
+      });
+    }
+
+    // Multi-item answers (multi-select, ordering, matching) are arrays of shown indexes
+    if (answer === undefined || answer === null || (typeof answer === 'object' && !Array.isArray(answer))) {
+      return res.status(400).json({
+        error: 'Parámetros inválidos',
+        message: 'La respuesta es obligatoria'
+      });
+    }
+
+    const draft = await saveDraftResponse(req.user!.id, req.params.attemptId, questionId, serializeAnswer(answer));
+
+    res.json({
+      attemptId: req.params.attemptId,
+      questionId,
+      savedAt: draft.updatedAt
+    });
+  } catch (error: any) {
+    if (error instanceof AttemptError) {
+      return res.status(error.status).json({
+        error: error.message,
+        code: error.code
+      });
+    }
+
+    console.error('Error saving draft response:', error);
+    res.status(500).json({
+      error: 'Error interno del servidor',
+      message: 'Error al guardar la respuesta. Por favor, intenta de nuevo más tarde.'
+    });
+  }
+});
+
 // Función de fallback para generar preguntas básicas cuando la IA falla
 async function generateFallbackQuestions(
   stageEntity: any,
@@ -144,21 +240,13 @@ async function generateFallbackQuestions(
   try {
     // Buscar preguntas existentes para este stage
     const existingQuestions = await questionRepository.find({
-      where: { stageId },
+      where: { stageId, isActive: true },
       order: { id: 'DESC' },
       take: 20
     });
 
     if (existingQuestions.length >= (openQuestions + closedQuestions)) {
-      return existingQuestions.slice(0, openQuestions + closedQuestions).map((q: any) => ({
-        id: q.id,
-        type: q.type,
-        questionText: q.questionText,
-        options: q.options,
-        points: q.points,
-        category: q.category,
-        difficulty: q.difficulty
-      }));
+      return existingQuestions.slice(0, openQuestions + closedQuestions).map((q: Question) => toClientQuestion(q));
     }
 
     // Si no hay suficientes preguntas existentes, generar preguntas básicas
@@ -201,7 +289,7 @@ async function generateFallbackQuestions(
 router.post('/regenerate/:stageId', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
   try {
     const stageId = parseInt(req.params.stageId);
-    const { open = 5, closed = 5 } = req.body;
+    const { open = 5, closed = 5, types } = req.body;
 
     // Validar parámetros
     const validationError = validateGenerationParams(stageId, open, closed);
@@ -212,6 +300,15 @@ router.post('/regenerate/:stageId', authMiddleware, adminMiddleware, async (req:
       });
     }
 
+    // Tipos de preguntas cerradas a generar, p. ej. ["multiple-choice", "ordering"]
+    const closedTypes = parseClosedTypes(types);
+    if (!closedTypes) {
+      return res.status(400).json({
+        error: 'Parámetros inválidos',
+        message: `types debe ser una lista de: ${AUTO_GRADED_QUESTION_TYPES.join(', ')}`
+      });
+    }
+
     // Obtener información del stage
     const stageRepository = AppDataSource.getRepository(Stage);
     const stageEntity = await stageRepository.findOne({ where: { id: stageId } });
@@ -225,53 +322,35 @@ router.post('/regenerate/:stageId', authMiddleware, adminMiddleware, async (req:
 
     console.log(`🔄 Regenerando preguntas para stage: ${stageEntity.title}`);
 
-    // Generar preguntas con IA
-    const aiResponse = await openRouterService.getInstance().generateQuestions(
-      stageEntity.title,
-      stageEntity.difficulty,
+    // Generar preguntas con IA, validarlas y retirar las existentes (se conservan para el historial)
+    const { savedQuestions, retiredCount, report } = await generateQuestionsForStage(
+      stageEntity,
       open,
       closed,
-      stageEntity.considerations || undefined
+      { replaceExisting: true, closedTypes }
     );
 
-    // Eliminar preguntas existentes
-    const questionRepository = AppDataSource.getRepository(Question);
-    await questionRepository.delete({ stageId });
-
-    // Guardar nuevas preguntas
-    const questionsToSave = aiResponse.questions.map((q: any) => ({
-      stageId,
-      type: q.type,
-      questionText: q.questionText,
-      options: q.options || null,
-      correctAnswer: q.correctAnswer || null,
-      points: q.points,
-      category: q.category,
-      difficulty: q.difficulty
-    }));
-
-    const savedQuestions = await questionRepository.save(questionsToSave);
-
-    // Actualizar conteo de preguntas del stage
-    await stageRepository.update(stageId, {
-      questionCount: savedQuestions.length
-    });
-
-    // Limpiar cache para este stage
-    const cacheKeysToDelete = Array.from(questionGenerationCache.keys())
-      .filter(key => key.startsWith(`${stageId}-`));
-    cacheKeysToDelete.forEach(key => questionGenerationCache.delete(key));
-
     console.log(`✅ ${savedQuestions.length} preguntas regeneradas exitosamente para stage ${stageId}`);
 
     res.json({ 
       message: 'Preguntas regeneradas exitosamente',
       questionsCount: savedQuestions.length,
-      stageId
+      retiredCount,
+      pendingReview: savedQuestions.filter(q => q.status === 'in_review').length,
+      stageId,
+      report
     });
 
   } catch (error: any) {
     console.error('Error regenerating questions:', error);
+
+    if (error instanceof QuestionGenerationError) {
+      return res.status(502).json({
+        error: 'Preguntas inválidas',
+        message: 'La IA no generó ninguna pregunta válida. Las preguntas existentes no se modificaron.',
+        report: error.report
+      });
+    }
     
     if (error.message.includes('timeout') || error.message.includes('ETIMEDOUT')) {
       return res.status(408).json({ 
@@ -297,12 +376,20 @@ router.post('/regenerate/:stageId', authMiddleware, adminMiddleware, async (req:
 // Create a new question (admin only)
 router.post('/', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
   try {
-    const questionRepository = AppDataSource.getRepository(Question);
-    const question = questionRepository.create(req.body);
-    const savedQuestion = await questionRepository.save(question);
+    const stageId = parseInt(req.body.stageId);
+    const stage = isNaN(stageId) ? null : await AppDataSource.getRepository(Stage).findOne({ where: { id: stageId } });
+    if (!stage) {
+      return res.status(400).json({ error: 'Validation Error', details: [{ index: 0, errors: ['stageId no corresponde a una etapa existente'] }] });
+    }
+
+    const status = req.body.status === 'draft' ? 'draft' : initialQuestionStatus(stage);
+    const [savedQuestion] = await AppDataSource.transaction(manager => createQuestions(manager, stageId, [req.body], status));
 
     res.status(201).json({ question: savedQuestion });
   } catch (error) {
+    if (error instanceof QuestionValidationError) {
+      return res.status(400).json({ error: 'Validation Error', details: error.details });
+    }
     res.status(500).json({ error: 'Failed to create question' });
   }
 });
@@ -1,43 +1,92 @@
 import { Router } from 'express';
+import { Not } from 'typeorm';
 import { AppDataSource } from '../config/database-minimal';
 import { Feedback } from '../entities/Feedback';
 import { EvaluationAttempt } from '../entities/EvaluationAttempt';
 import { UserResponse } from '../entities/UserResponse';
-import { Question } from '../entities/Question';
 import { Stage } from '../entities/Stage';
-import { UserStage } from '../entities/UserStage';
 import { authMiddleware, AuthRequest } from '../middleware/auth';
-import { openRouterService } from '../services/openRouterService';
+import { enqueueGradingJob, triggerGradingWorker } from '../services/gradingJobRunner';
+import { getScoringPolicy, isPassingScore } from '../services/scoringService';
+import { buildAttemptReview } from '../services/answerReviewService';
+import { gradeAutoAnswer, serializeAnswer } from '../services/questionTypes';
+import { pointsForCredit } from '../services/rubricService';
+import {
+  AppealError,
+  createAppeal,
+  findAppeals,
+  getAttemptAppealsForLearner,
+  MAX_JUSTIFICATION_LENGTH
+} from '../services/appealService';
 import { User } from '../entities/User';
+import { Appeal } from '../entities/Appeal';
+import {
+  computeTimeSpentSeconds,
+  expireAttempt,
+  getAttemptQuestions,
+  getAttemptResponses,
+  isAttemptPastDeadline,
+  isRepeatedSubmission,
+  MAX_SUBMISSION_KEY_LENGTH
+} from '../services/attemptService';
 
 const router = Router();
 
-// Submit evaluation attempt and generate feedback
+// Body of a successful submission; repeated submissions get it back with the current status
+const toSubmissionResult = (attempt: EvaluationAttempt) => ({
+  success: true,
+  status: attempt.status,
+  attemptId: attempt.attemptId,
+  statusUrl: `/api/feedback/attempts/${attempt.attemptId}/status`
+});
+
+const toLearnerAppeal = (appeal: Appeal & { isNew?: boolean }) => ({
+  id: appeal.id,
+  responseId: appeal.responseId,
+  attemptId: appeal.attemptId,
+  justification: appeal.justification,
+  status: appeal.status,
+  resolutionComment: appeal.resolutionComment,
+  resolvedAt: appeal.resolvedAt,
+  createdAt: appeal.createdAt,
+  ...(appeal.isNew !== undefined ? { isNew: appeal.isNew } : {})
+});
+
+// Submit evaluation attempt; grading and feedback run in the background.
+// Retries (same attemptId, optionally the same Idempotency-Key header) return the original result
 router.post('/attempts', authMiddleware, async (req: AuthRequest, res) => {
   const queryRunner = AppDataSource.createQueryRunner();
   
   try {
-    const { attemptId, userId, stageId, responses, timeSpent } = req.body;
+    const { attemptId, responses = [] } = req.body;
     
     // Validate required fields
     if (!req.user?.id) {
       return res.status(401).json({ success: false, error: 'User not authenticated' });
     }
     
-    // Ensure userId from payload matches authenticated user
-    if (Number(userId) !== req.user.id) {
+    // Ensure userId from payload (if sent) matches authenticated user
+    if (req.body.userId !== undefined && Number(req.body.userId) !== req.user.id) {
       return res.status(403).json({ success: false, error: 'User ID mismatch' });
     }
 
-    
-    
-    // Validate that userId and stageId are valid numbers
-    if (!userId || isNaN(Number(userId)) || Number(userId) <= 0) {
-      return res.status(400).json({ success: false, error: 'Invalid user ID' });
+    if (!attemptId || typeof attemptId !== 'string') {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'attemptId is required. Start the evaluation with POST /api/evaluations/attempts first.' 
+      });
     }
-    
-    if (!stageId || isNaN(Number(stageId)) || Number(stageId) <= 0) {
-      return res.status(400).json({ success: false, error: 'Invalid stage ID' });
+
+    if (!Array.isArray(responses)) {
+      return res.status(400).json({ success: false, error: 'Responses must be an array' });
+    }
+
+    const submissionKey = req.header('Idempotency-Key')?.trim() || null;
+    if (submissionKey && submissionKey.length > MAX_SUBMISSION_KEY_LENGTH) {
+      return res.status(400).json({
+        success: false,
+        error: `Idempotency-Key must be at most ${MAX_SUBMISSION_KEY_LENGTH} characters`
+      });
     }
 
     // Start transaction
@@ -46,87 +95,137 @@ router.post('/attempts', authMiddleware, async (req: AuthRequest, res) => {
 
     // Get repositories
     const attemptRepository = queryRunner.manager.getRepository(EvaluationAttempt);
-    const feedbackRepository = queryRunner.manager.getRepository(Feedback);
     const responseRepository = queryRunner.manager.getRepository(UserResponse);
-    const questionRepository = queryRunner.manager.getRepository(Question);
     const stageRepository = queryRunner.manager.getRepository(Stage);
     const userRepository = queryRunner.manager.getRepository(User);
 
-    // Verify user exists
-    const user = await userRepository.findOne({ where: { id: Number(userId) } });
-    if (!user) {
+    // Lock the attempt so concurrent submissions are serialized
+    const attempt = await attemptRepository.findOne({
+      where: { attemptId, userId: req.user.id },
+      lock: { mode: 'pessimistic_write' }
+    });
+
+    if (!attempt) {
       await queryRunner.rollbackTransaction();
-      return res.status(404).json({ success: false, error: 'User not found' });
+      return res.status(404).json({ success: false, error: 'Attempt not found' });
     }
 
-    // Verify stage exists
-    const stage = await stageRepository.findOne({ where: { id: Number(stageId) } });
-    if (!stage) {
+    if (req.body.stageId !== undefined && Number(req.body.stageId) !== attempt.stageId) {
       await queryRunner.rollbackTransaction();
-      return res.status(404).json({ success: false, error: 'Stage not found' });
+      return res.status(400).json({ success: false, error: 'Stage ID does not match the attempt' });
     }
 
-    // Check if stage has questions first
-    const stageQuestions = await questionRepository.find({ where: { stageId } });
-  
-    
-    if (stageQuestions.length === 0) {
+    // A retry waits on the lock above, so it sees the first submission once it has committed
+    if (isRepeatedSubmission(attempt, submissionKey)) {
       await queryRunner.rollbackTransaction();
-      return res.status(400).json({ 
+      return res.status(attempt.status === 'grading' ? 202 : 200).json({
+        ...toSubmissionResult(attempt),
+        replayed: true
+      });
+    }
+
+    if (attempt.status === 'expired') {
+      await queryRunner.rollbackTransaction();
+      return res.status(410).json({
+        success: false,
+        error: 'The time limit for this attempt has passed',
+        code: 'ATTEMPT_EXPIRED',
+        deadline: attempt.deadline
+      });
+    }
+
+    if (attempt.status !== 'in_progress') {
+      await queryRunner.rollbackTransaction();
+      return res.status(409).json({ 
         success: false, 
-        error: `No questions available for stage ${stageId}. Please generate questions first.` 
+        error: 'Attempt is already closed',
+        code: 'ATTEMPT_CLOSED',
+        status: attempt.status
       });
     }
-    
-    // Get all question details at once for better performance
-    const questionIds = responses.map((r: any) => Number(r.questionId));
-    
 
-    
-    // Validate that we have question IDs
-    if (!questionIds.length || questionIds.every((id: number) => !id || isNaN(id))) {
-      console.error('No valid question IDs provided:', { questionIds, responses });
+    // Time is measured from server timestamps only
+    const submittedAt = new Date();
+    if (isAttemptPastDeadline(attempt, submittedAt)) {
+      await expireAttempt(queryRunner.manager, attempt);
+      await queryRunner.commitTransaction();
+      return res.status(410).json({ 
+        success: false, 
+        error: 'The time limit for this attempt has passed',
+        code: 'ATTEMPT_EXPIRED',
+        deadline: attempt.deadline
+      });
+    }
+
+    if (submissionKey && await attemptRepository.exist({
+      where: { userId: attempt.userId, submissionKey, id: Not(attempt.id) }
+    })) {
       await queryRunner.rollbackTransaction();
-      return res.status(400).json({ success: false, error: 'No valid question IDs provided' });
-    } 
-    
-    const questions = await questionRepository
-      .createQueryBuilder('question')
-      .where('question.id IN (:...ids)', { ids: questionIds })
-      .getMany();
-    
+      return res.status(409).json({
+        success: false,
+        error: 'This Idempotency-Key was already used to submit another attempt',
+        code: 'IDEMPOTENCY_KEY_REUSED'
+      });
+    }
 
+    const userId = attempt.userId;
+    const stageId = attempt.stageId;
 
-    if (questions.length === 0) {
+    // Verify user exists
+    const user = await userRepository.findOne({ where: { id: userId } });
+    if (!user) {
       await queryRunner.rollbackTransaction();
-      return res.status(400).json({ success: false, error: 'No valid questions found' });
+      return res.status(404).json({ success: false, error: 'User not found' });
     }
 
-    // Create a map for quick lookup
+    // Verify stage exists
+    const stage = await stageRepository.findOne({ where: { id: stageId } });
+    if (!stage) {
+      await queryRunner.rollbackTransaction();
+      return res.status(404).json({ success: false, error: 'Stage not found' });
+    }
+
+    // Only the questions frozen when the attempt started can be answered
+    const questions = await getAttemptQuestions(queryRunner.manager, attempt);
     const questionMap = new Map(questions.map(q => [q.id, q]));
 
     // Validate question IDs
+    const answeredQuestionIds = new Set<number>();
     for (const response of responses) {
       const questionId = Number(response.questionId);
       if (!questionId || isNaN(questionId) || !questionMap.has(questionId)) {
         await queryRunner.rollbackTransaction();
         return res.status(400).json({ success: false, error: `Invalid question ID: ${response.questionId}` });
       }
+      if (answeredQuestionIds.has(questionId)) {
+        await queryRunner.rollbackTransaction();
+        return res.status(400).json({ success: false, error: `Duplicate response for question ID: ${response.questionId}` });
+      }
+      answeredQuestionIds.add(questionId);
     }
 
-    // Create new attempt
-
-    const attempt = attemptRepository.create({
-      attemptId,
-      user,
-      stage,
-      startTime: new Date(Date.now() - (timeSpent * 1000)),
-      endTime: new Date(),
-      timeSpentSeconds: timeSpent,
-      isCompleted: true,
-      score: 0
-    });
+    // Autosaved drafts count as answers unless the submission overrides them
+    const draftResponses = await getAttemptResponses(queryRunner.manager, attempt);
+    const draftMap = new Map(draftResponses.map(r => [r.question.id, r]));
+    const finalResponses = [
+      ...responses,
+      ...draftResponses
+        .filter(r => !answeredQuestionIds.has(r.question.id))
+        .map(r => ({ questionId: r.question.id, answer: r.response }))
+    ];
+
+    if (finalResponses.length === 0) {
+      await queryRunner.rollbackTransaction();
+      return res.status(400).json({ success: false, error: 'No responses provided' });
+    }
 
+    // Close the attempt; the score is set once grading finishes
+    attempt.endTime = submittedAt;
+    attempt.timeSpentSeconds = computeTimeSpentSeconds(attempt, submittedAt);
+    attempt.status = 'grading';
+    attempt.isCompleted = true;
+    attempt.score = null;
+    attempt.submissionKey = submissionKey;
 
     // Save attempt with error handling
     const savedAttempt = await attemptRepository.save(attempt).catch(err => {
@@ -134,220 +233,202 @@ router.post('/attempts', authMiddleware, async (req: AuthRequest, res) => {
       throw new Error(`Failed to save evaluation attempt: ${err.message}`);
     });
 
-
-    // Verify attempt was saved
-    if (!savedAttempt.id) {
-      await queryRunner.rollbackTransaction();
-      return res.status(500).json({ success: false, error: 'Failed to save evaluation attempt' });
-    }
-
-    // Process responses
-    const savedResponses = [];
-    let correctCount = 0;
-    let totalScore = 0;
-    const userResponsesWithDetails = [];
-
-    for (const response of responses) {
+    // Persist responses: closed questions are graded now, open ones by the grading worker
+    for (const response of finalResponses) {
       const question = questionMap.get(Number(response.questionId));
       if (!question) continue;
 
-      // For multiple choice, check if answer is correct
-      let isCorrect = false;
-      if (question.type === 'multiple-choice') {
-        // Convert user answer (index) to the actual option text
-        const userAnswerIndex = parseInt(response.answer);
-        const userSelectedOption = question.options?.[userAnswerIndex];
-        
-        // Compare with the correct answer
-        isCorrect = question.correctAnswer === userSelectedOption;
-        
-
-      } else {
-        // For open questions, evaluate with AI
-        try {
-          const aiEvaluation = await openRouterService.getInstance().evaluateOpenQuestion(
-            question.questionText,
-            response.answer,
-            question.category || 'General',
-            question.difficulty || 'intermediate'
-          );
-          isCorrect = aiEvaluation.isCorrect;
-  
-        } catch (error) {
-          console.error('Error evaluating open question with AI:', error);
-          // Fallback: mark as incorrect if AI evaluation fails
-          isCorrect = false;
-        }
-      }
-
-      const pointsEarned = isCorrect ? question.points : 0;
-      if (isCorrect) correctCount++;
-      totalScore += pointsEarned;
-
-      const userResponse = responseRepository.create({
-        attempt: savedAttempt,
-        question, // Use the question entity
-        user,
-        response: response.answer,
-        isCorrect,
-        pointsEarned
-      });
-
-      const savedResponse = await responseRepository.save(userResponse).catch(err => {
+      // A response sent without an answer is stored blank
+      const answer = response.answer !== undefined && response.answer !== null ? serializeAnswer(response.answer) : '';
+      const grade = gradeAutoAnswer(question, answer, attempt.samplingSeed);
+      const gradedFields = grade === null
+        ? { response: answer, isCorrect: null, pointsEarned: 0, gradingStatus: 'pending' as const }
+        : {
+            response: answer,
+            isCorrect: grade.isCorrect,
+            pointsEarned: pointsForCredit(question.points, grade.credit),
+            gradingStatus: 'graded' as const
+          };
+
+      // Grade the autosaved row in place when there is one
+      const draft = draftMap.get(question.id);
+      const userResponse = draft
+        ? Object.assign(draft, gradedFields)
+        : responseRepository.create({
+            attempt: savedAttempt,
+            question, // Use the question entity
+            user,
+            ...gradedFields
+          });
+
+      await responseRepository.save(userResponse).catch(err => {
         console.error('Failed to save user response:', err);
         throw new Error(`Failed to save user response: ${err.message}`);
       });
-
-      savedResponses.push(savedResponse);
-      
-      userResponsesWithDetails.push({
-        ...savedResponse,
-        question: question.questionText,
-        correctAnswer: question.correctAnswer,
-        userSelectedOption: question.type === 'multiple-choice' ? question.options?.[parseInt(response.answer)] : null,
-        type: question.type,
-        options: question.options
-      });
     }
 
-    // Calculate final score
-    const finalScore = Math.round((correctCount / responses.length) * 100);
-
-    // Generate AI feedback
-    const aiFeedback = await openRouterService.getInstance().generateFeedback(
-      userResponsesWithDetails,
-      questions,
-      finalScore,
-      responses.length,
-      correctCount,
-      stage.title
-    );
-
-    // Create feedback
-    const feedback = feedbackRepository.create({
-      attempt: savedAttempt,
-      user,
-      stage,
-      score: finalScore,
-      totalQuestions: responses.length,
-      correctAnswers: correctCount,
-      strengths: aiFeedback.strengths || [],
-      improvements: aiFeedback.improvements || [],
-      nextSteps: aiFeedback.nextSteps || '',
-      detailedFeedback: aiFeedback.detailedFeedback || '',
-      badge: aiFeedback.badge || 'QA Novice'
-    });
+    await enqueueGradingJob(queryRunner.manager, savedAttempt.id);
 
-    const savedFeedback = await feedbackRepository.save(feedback).catch(err => {
-      console.error('Failed to save feedback:', err);
-      throw new Error(`Failed to save feedback: ${err.message}`);
-    });
+    // Commit transaction
+    await queryRunner.commitTransaction();
+    triggerGradingWorker();
 
+    // Prepare response
+    res.status(202).json(toSubmissionResult(savedAttempt));
 
-    // Update attempt with final score
-    savedAttempt.score = finalScore;
-    await attemptRepository.save(savedAttempt).catch(err => {
-      console.error('Failed to update attempt score:', err);
-      throw new Error(`Failed to update attempt score: ${err.message}`);
+  } catch (error) {
+    if (queryRunner.isTransactionActive) {
+      await queryRunner.rollbackTransaction();
+    }
+    console.error('Error submitting evaluation:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: 'Failed to submit evaluation',
+      details: error instanceof Error ? error.message : 'Unknown error'
     });
+  } finally {
+    await queryRunner.release();
+  }
+});
 
-    // Update user stage progress
-    const userStageRepository = queryRunner.manager.getRepository(UserStage);
-    
-
-    
-    // Check if user has already completed this stage
-    let userStage = await userStageRepository.findOne({
-      where: { userId: Number(userId), stageId: Number(stageId) }
+// Get the grading status of a submitted attempt (clients poll this until it is graded)
+router.get('/attempts/:attemptId/status', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const attempt = await AppDataSource.getRepository(EvaluationAttempt).findOne({
+      where: { attemptId: req.params.attemptId, userId: req.user!.id },
+      relations: ['stage']
     });
 
-    if (!userStage) {
-      // Create new user stage record
-      const userIdNum = Number(userId);
-      const stageIdNum = Number(stageId);
-      
-
-      
-      userStage = userStageRepository.create({
-        userId: userIdNum,
-        stageId: stageIdNum,
-        isCompleted: finalScore >= 60, // Mark as completed if score >= 60%
-        score: finalScore,
-        completedAt: finalScore >= 60 ? new Date() : null
-      });
-    } else {
-      // Update existing record if new score is better
-      if (finalScore >= 60 && !userStage.isCompleted) {
-        userStage.isCompleted = true;
-        userStage.completedAt = new Date();
-      }
-      if (finalScore > (userStage.score || 0)) {
-        userStage.score = finalScore;
-      }
+    if (!attempt) {
+      return res.status(404).json({ success: false, error: 'Attempt not found' });
     }
 
-    await userStageRepository.save(userStage).catch(err => {
-      console.error('Failed to update user stage progress:', err);
-      throw new Error(`Failed to update user stage progress: ${err.message}`);
-    });
-
+    const policy = getScoringPolicy(attempt.stage);
+    const gradingCounts: { status: string; count: string }[] = await AppDataSource.getRepository(UserResponse)
+      .createQueryBuilder('response')
+      .select('response.gradingStatus', 'status')
+      .addSelect('COUNT(*)', 'count')
+      .where('response.attempt_id = :attemptId', { attemptId: attempt.id })
+      .groupBy('response.gradingStatus')
+      .getRawMany();
+    const countFor = (status: string) => Number(gradingCounts.find(c => c.status === status)?.count || 0);
 
+    const feedback = attempt.status === 'graded'
+      ? await AppDataSource.getRepository(Feedback).findOne({ where: { attemptId: attempt.id } })
+      : null;
 
-    // Update user's global score and current stage
-    const userRepo = queryRunner.manager.getRepository(User);
-    const currentUser = await userRepo.findOne({ where: { id: Number(userId) } });
-    
-    if (currentUser) {
-      // Update global score
-      const totalScore = await userStageRepository
-        .createQueryBuilder('userStage')
-        .select('SUM(userStage.score)', 'total')
-        .where('userStage.userId = :userId', { userId: Number(userId) })
-        .andWhere('userStage.isCompleted = :isCompleted', { isCompleted: true })
-        .getRawOne();
-      
-      currentUser.globalScore = totalScore?.total || 0;
-      
-      // Update current stage to next stage if completed
-      if (userStage.isCompleted) {
-        const nextStage = await queryRunner.manager.getRepository(Stage).findOne({
-          where: { 
-            displayOrder: stage.displayOrder + 1,
-            isActive: true 
-          }
-        });
-        
-        if (nextStage) {
-          currentUser.currentStageId = nextStage.id;
+    res.json({
+      success: true,
+      data: {
+        attemptId: attempt.attemptId,
+        status: attempt.status,
+        score: attempt.score,
+        passingScore: policy.passingScore,
+        passed: attempt.status === 'graded' ? isPassingScore(attempt.score, policy) : null,
+        feedbackId: feedback?.id ?? null,
+        responses: {
+          graded: countFor('graded'),
+          pending: countFor('pending'),
+          failed: countFor('failed')
         }
       }
-      
-      await userRepo.save(currentUser);
+    });
+  } catch (error) {
+    console.error('Error fetching attempt status:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: 'Failed to fetch attempt status',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Question-by-question review of a submitted attempt, once grading has finished
+router.get('/attempts/:attemptId/review', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const attempt = await AppDataSource.getRepository(EvaluationAttempt).findOne({
+      where: { attemptId: req.params.attemptId, userId: req.user!.id },
+      relations: ['stage']
+    });
 
+    if (!attempt) {
+      return res.status(404).json({ success: false, error: 'Attempt not found' });
+    }
+    if (!['graded', 'grading_failed'].includes(attempt.status)) {
+      return res.status(409).json({
+        success: false,
+        error: 'The attempt can be reviewed once grading has finished',
+        status: attempt.status
+      });
     }
 
-    // Commit transaction
-    await queryRunner.commitTransaction();
+    const policy = getScoringPolicy(attempt.stage);
+    const questions = await buildAttemptReview(AppDataSource.manager, attempt);
 
-    // Prepare response
-    res.status(201).json({
+    res.json({
       success: true,
-      feedbackId: savedFeedback.id,
-      attemptId: savedAttempt.attemptId
+      data: {
+        attemptId: attempt.attemptId,
+        stageId: attempt.stageId,
+        status: attempt.status,
+        score: attempt.score,
+        passingScore: policy.passingScore,
+        passed: attempt.status === 'graded' ? isPassingScore(attempt.score, policy) : null,
+        correctAnswersRevealed: attempt.stage.revealCorrectAnswers,
+        questions
+      }
     });
+  } catch (error) {
+    console.error('Error fetching attempt review:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch attempt review' });
+  }
+});
+
+// Appeal the grade of one of the learner's own open answers
+router.post('/responses/:responseId/appeal', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const responseId = parseInt(req.params.responseId);
+    const justification = typeof req.body.justification === 'string' ? req.body.justification.trim() : '';
 
+    const details: string[] = [];
+    if (isNaN(responseId)) {
+      details.push('responseId must be a number');
+    }
+    if (!justification) {
+      details.push('justification is required');
+    } else if (justification.length > MAX_JUSTIFICATION_LENGTH) {
+      details.push(`justification must be at most ${MAX_JUSTIFICATION_LENGTH} characters`);
+    }
+    if (details.length > 0) {
+      return res.status(400).json({ success: false, error: 'Validation Error', details });
+    }
+
+    const appeal = await createAppeal(req.user!.id, responseId, justification);
+    res.status(201).json({ success: true, data: toLearnerAppeal(appeal) });
   } catch (error) {
-    if (queryRunner.isTransactionActive) {
-      await queryRunner.rollbackTransaction();
+    if (error instanceof AppealError) {
+      return res.status(error.status).json({ success: false, error: error.message, code: error.code });
     }
-    console.error('Error submitting evaluation:', error);
-    res.status(500).json({ 
-      success: false, 
-      error: 'Failed to submit evaluation',
-      details: error instanceof Error ? error.message : 'Unknown error'
+    console.error('Error creating appeal:', error);
+    res.status(500).json({ success: false, error: 'Failed to create appeal' });
+  }
+});
+
+// List the learner's own appeals
+router.get('/appeals', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+
+    const { appeals, total } = await findAppeals(AppDataSource.manager, { userId: req.user!.id, page, limit });
+    res.json({
+      success: true,
+      data: appeals.map(toLearnerAppeal),
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
     });
-  } finally {
-    await queryRunner.release();
+  } catch (error) {
+    console.error('Error fetching appeals:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch appeals' });
   }
 });
 
@@ -372,9 +453,31 @@ router.get('/:id', authMiddleware, async (req: AuthRequest, res) => {
       });
     }
 
+    // Points per answer, with the rubric breakdown so learners see which criteria they missed
+    const responses = await AppDataSource.getRepository(UserResponse).find({
+      where: { attempt: { id: feedback.attemptId } },
+      relations: ['question'],
+      order: { id: 'ASC' }
+    });
+
+    const appeals = await getAttemptAppealsForLearner(AppDataSource.manager, feedback.attemptId, req.user!.id);
+
     res.json({
       success: true,
-      data: feedback
+      data: {
+        ...feedback,
+        responses: responses.map(r => ({
+          responseId: r.id,
+          questionId: r.question.id,
+          type: r.question.type,
+          isCorrect: r.isCorrect,
+          pointsEarned: r.pointsEarned,
+          maxPoints: r.question.points,
+          rubricBreakdown: r.rubricBreakdown,
+          appealStatus: appeals.find(a => a.responseId === r.id)?.status ?? null
+        })),
+        appeals: appeals.map(toLearnerAppeal)
+      }
     });
   } catch (error) {
     console.error('Error fetching feedback:', error);
@@ -401,7 +504,8 @@ router.get('/attempts/:attemptId', authMiddleware, async (req: AuthRequest, res)
       return res.status(404).json({ error: 'Feedback not found' });
     }
 
-    res.json({ feedback });
+    const appeals = await getAttemptAppealsForLearner(AppDataSource.manager, feedback.attemptId, req.user!.id);
+    res.json({ feedback, appeals: appeals.map(toLearnerAppeal) });
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch feedback' });
   }
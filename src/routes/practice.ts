@@ -0,0 +1,191 @@
+import { Response, Router } from 'express';
+import { AppDataSource } from '../config/database-minimal';
+import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { toClientQuestion } from '../services/attemptService';
+import {
+  answerPracticeQuestion,
+  findPracticeSessions,
+  getPracticeSession,
+  PracticeError,
+  startPracticeSession,
+  summarizePracticeSession,
+  toPracticeAnswerResult
+} from '../services/practiceService';
+import { isBlankAnswer, serializeAnswer } from '../services/questionTypes';
+import {
+  buildWeakAreaQuiz,
+  DEFAULT_WEAK_AREA_COUNT,
+  DEFAULT_WEAK_AREA_QUIZ_SIZE,
+  getWeakAreas,
+  MAX_WEAK_AREA_COUNT,
+  MAX_WEAK_AREA_QUIZ_SIZE
+} from '../services/weakAreaService';
+
+const router = Router();
+
+// Most questions a practice session can draw, as for generated question batches
+const MAX_PRACTICE_QUESTIONS = 20;
+
+const handlePracticeError = (error: unknown, res: Response, fallback: string) => {
+  if (error instanceof PracticeError) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+};
+
+// Start a practice session on a stage; answers are graded as they come and never count
+router.post('/sessions', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const stageId = Number(req.body.stageId);
+    const openQuestions = req.body.open !== undefined ? Number(req.body.open) : undefined;
+    const closedQuestions = req.body.closed !== undefined ? Number(req.body.closed) : undefined;
+
+    const details: string[] = [];
+    if (!Number.isInteger(stageId) || stageId <= 0) {
+      details.push('stageId must be a stage ID');
+    }
+    for (const [field, value] of [['open', openQuestions], ['closed', closedQuestions]] as const) {
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        details.push(`${field} must be a non-negative integer`);
+      }
+    }
+    if (openQuestions !== undefined || closedQuestions !== undefined) {
+      const total = (openQuestions ?? 0) + (closedQuestions ?? 0);
+      if (total === 0 || total > MAX_PRACTICE_QUESTIONS) {
+        details.push(`open and closed must add up to between 1 and ${MAX_PRACTICE_QUESTIONS} questions`);
+      }
+    }
+    if (details.length > 0) {
+      return res.status(400).json({ error: 'Validation Error', details });
+    }
+
+    const { session, questions } = await startPracticeSession(req.user!.id, stageId, openQuestions, closedQuestions);
+    res.status(201).json({
+      sessionId: session.sessionId,
+      stageId: session.stageId,
+      createdAt: session.createdAt,
+      questions: questions.map(q => toClientQuestion(q, session.samplingSeed))
+    });
+  } catch (error) {
+    handlePracticeError(error, res, 'Failed to start practice session');
+  }
+});
+
+// The learner's weakest categories, from the answers they missed in graded evaluations
+router.get('/weak-areas', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    res.json({ weakAreas: await getWeakAreas(AppDataSource.manager, req.user!.id) });
+  } catch (error) {
+    handlePracticeError(error, res, 'Failed to analyze weak areas');
+  }
+});
+
+// Build a remedial practice quiz from the learner's weakest categories
+router.post('/weak-areas', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const size = req.body.size !== undefined ? Number(req.body.size) : DEFAULT_WEAK_AREA_QUIZ_SIZE;
+    const areaCount = req.body.areas !== undefined ? Number(req.body.areas) : DEFAULT_WEAK_AREA_COUNT;
+
+    const details: string[] = [];
+    if (!Number.isInteger(size) || size < 1 || size > MAX_WEAK_AREA_QUIZ_SIZE) {
+      details.push(`size must be an integer between 1 and ${MAX_WEAK_AREA_QUIZ_SIZE}`);
+    }
+    if (!Number.isInteger(areaCount) || areaCount < 1 || areaCount > MAX_WEAK_AREA_COUNT) {
+      details.push(`areas must be an integer between 1 and ${MAX_WEAK_AREA_COUNT}`);
+    }
+    if (details.length > 0) {
+      return res.status(400).json({ error: 'Validation Error', details });
+    }
+
+    const { session, questions, weakAreas, generation } = await buildWeakAreaQuiz(req.user!.id, {
+      size,
+      areaCount: Math.min(areaCount, size)
+    });
+    res.status(201).json({
+      sessionId: session.sessionId,
+      kind: session.kind,
+      createdAt: session.createdAt,
+      weakAreas,
+      generation,
+      questions: questions.map(q => ({ ...toClientQuestion(q, session.samplingSeed), stageId: q.stageId }))
+    });
+  } catch (error) {
+    handlePracticeError(error, res, 'Failed to build weak-area quiz');
+  }
+});
+
+// The learner's practice history, newest first
+router.get('/sessions', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+    const stageId = req.query.stageId ? parseInt(req.query.stageId as string) || undefined : undefined;
+
+    const { sessions, total } = await findPracticeSessions(AppDataSource.manager, {
+      userId: req.user!.id,
+      stageId,
+      page,
+      limit
+    });
+    res.json({
+      sessions,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) }
+    });
+  } catch (error) {
+    handlePracticeError(error, res, 'Failed to fetch practice sessions');
+  }
+});
+
+// One practice session with its questions and the answers graded so far
+router.get('/sessions/:sessionId', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { session, questions, responses, revealedStageIds } = await getPracticeSession(
+      AppDataSource.manager,
+      req.user!.id,
+      req.params.sessionId
+    );
+    const responseByQuestion = new Map(responses.map(r => [r.questionId, r]));
+
+    res.json({
+      ...summarizePracticeSession(session, responses),
+      questions: questions.map(q => {
+        const response = responseByQuestion.get(q.id);
+        return {
+          ...toClientQuestion(q, session.samplingSeed),
+          answer: response
+            ? toPracticeAnswerResult(q, response, session.samplingSeed, revealedStageIds.has(q.stageId))
+            : null
+        };
+      })
+    });
+  } catch (error) {
+    handlePracticeError(error, res, 'Failed to fetch practice session');
+  }
+});
+
+// Answer one question and get it graded straight away
+router.post('/sessions/:sessionId/answers', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const questionId = Number(req.body.questionId);
+    const answer = req.body.answer !== undefined && req.body.answer !== null ? serializeAnswer(req.body.answer) : '';
+
+    const details: string[] = [];
+    if (!Number.isInteger(questionId) || questionId <= 0) {
+      details.push('questionId must be a question ID');
+    }
+    if (isBlankAnswer(answer)) {
+      details.push('answer is required');
+    }
+    if (details.length > 0) {
+      return res.status(400).json({ error: 'Validation Error', details });
+    }
+
+    const { result, summary } = await answerPracticeQuestion(req.user!.id, req.params.sessionId, questionId, answer);
+    res.json({ answer: result, session: summary });
+  } catch (error) {
+    handlePracticeError(error, res, 'Failed to grade practice answer');
+  }
+});
+
+export default router;
@@ -1,20 +1,95 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
+import { In } from 'typeorm';
 import { AppDataSource } from '../config/database-minimal';
-import { Question } from '../entities/Question';
+import { Question, QuestionStatus } from '../entities/Question';
 import { Stage } from '../entities/Stage';
 import { authMiddleware, AuthRequest, adminMiddleware } from '../middleware/auth';
+import { CLOSED_QUESTION_TYPES, toClientQuestion } from '../services/attemptService';
+import { AUTO_GRADED_QUESTION_TYPES } from '../services/questionTypes';
 import { openRouterService } from '../services/openRouterService';
+import {
+  QUESTION_BANK_CONTENT_TYPES,
+  QUESTION_BANK_FORMATS,
+  QuestionBankFormat,
+  QuestionBankParseError
+} from '../services/questionBankFormats';
+import { exportStageQuestions, importStageQuestions } from '../services/questionBankService';
+import { generateQuestionsForStage, parseClosedTypes, validateGenerationParams } from '../services/questionGenerationService';
+import {
+  buildQuestionContent,
+  BULK_EDITABLE_FIELDS,
+  createQuestions,
+  findQuestions,
+  getQuestionHistory,
+  initialQuestionStatus,
+  pickQuestionChanges,
+  QuestionFilters,
+  QuestionReviewError,
+  QuestionValidationError,
+  refreshStageQuestionCount,
+  retireQuestions,
+  ReviewAction,
+  reviewQuestions,
+  reviseQuestion
+} from '../services/questionService';
+import { QuestionGenerationError } from '../services/questionSchema';
 
 const router = Router();
 
-// Generate questions for a stage using AI
-router.get('/generate', authMiddleware, async (req: AuthRequest, res) => {
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_BULK_SIZE = 200;
+
+class QuestionNotFoundError extends Error {
+  constructor(public readonly ids: number[]) {
+    super('Questions not found');
+  }
+}
+
+// CSV and QTI uploads arrive as raw text; JSON is already parsed by the app-wide parser
+const importBodyParser = express.text({
+  type: ['text/csv', 'text/plain', 'application/xml', 'text/xml', 'application/qti+xml'],
+  limit: '10mb'
+});
+
+const QUESTION_STATUSES: QuestionStatus[] = ['draft', 'in_review', 'approved', 'rejected'];
+const REVIEW_ACTIONS: ReviewAction[] = ['submit', 'approve', 'reject'];
+
+const findStage = (stageId: number): Promise<Stage | null> =>
+  isNaN(stageId) ? Promise.resolve(null) : AppDataSource.getRepository(Stage).findOne({ where: { id: stageId } });
+
+// Authors may keep a question as a draft; anything else enters the stage's review flow
+const creationStatus = (requested: unknown, stage: Stage): QuestionStatus =>
+  requested === 'draft' ? 'draft' : initialQuestionStatus(stage);
+
+// Returns null unless the value is a non-empty list of question IDs within the bulk limit
+const parseIds = (value: unknown): number[] | null => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_BULK_SIZE) {
+    return null;
+  }
+  const ids = value.map(id => parseInt(id));
+  return ids.some(isNaN) ? null : [...new Set(ids)];
+};
+
+// Generate questions for a stage using AI (admin only)
+router.get('/generate', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
   try {
-    const { stage, open = 5, closed = 5 } = req.query;
+    const { stage, open = 5, closed = 5, types } = req.query;
     const stageId = parseInt(stage as string);
     const openQuestions = parseInt(open as string);
     const closedQuestions = parseInt(closed as string);
 
+    const validationError = validateGenerationParams(stageId, openQuestions, closedQuestions);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    // Closed question types to generate, e.g. ?types=multiple-choice,ordering
+    const closedTypes = parseClosedTypes(types);
+    if (!closedTypes) {
+      return res.status(400).json({ error: `types must be a list of: ${AUTO_GRADED_QUESTION_TYPES.join(', ')}` });
+    }
+
     const stageRepository = AppDataSource.getRepository(Stage);
     const stageEntity = await stageRepository.findOne({ where: { id: stageId } });
 
@@ -22,66 +97,284 @@ router.get('/generate', authMiddleware, async (req: AuthRequest, res) => {
       return res.status(404).json({ error: 'Stage not found' });
     }
 
-    // Generate questions using AI with considerations
-    const aiResponse = await openRouterService.getInstance().generateQuestions(
-      stageEntity.title,
-      stageEntity.difficulty,
+    // Generate and validate questions using AI with considerations
+    const { savedQuestions, report } = await generateQuestionsForStage(
+      stageEntity,
       openQuestions,
       closedQuestions,
-      stageEntity.considerations || undefined // Pass considerations to AI
+      { closedTypes }
     );
 
-    // Save generated questions to database
-    const questionRepository = AppDataSource.getRepository(Question);
-    const questionsToSave = aiResponse.questions.map((q: any) => ({
-      stageId,
-      type: q.type,
-      questionText: q.questionText,
-      options: q.options || null,
-      correctAnswer: q.correctAnswer || null,
-      points: q.points,
-      category: q.category,
-      difficulty: q.difficulty
-    }));
-
-    const savedQuestions = await questionRepository.save(questionsToSave);
-
-    // Update stage question count
-    await stageRepository.update(stageId, {
-      questionCount: savedQuestions.length
-    });
-
     // Return questions without correct answers for security
-    const questionsForClient = savedQuestions.map((q: any) => ({
-      id: q.id,
-      type: q.type,
-      questionText: q.questionText,
-      options: q.options,
-      points: q.points,
-      category: q.category,
-      difficulty: q.difficulty
-    }));
-
-    res.json({ questions: questionsForClient });
+    const questionsForClient = savedQuestions.map(q => toClientQuestion(q));
+
+    res.json({ questions: questionsForClient, report });
   } catch (error) {
     console.error('Error generating questions:', error);
+    if (error instanceof QuestionGenerationError) {
+      return res.status(502).json({ error: 'Generated questions failed validation', report: error.report });
+    }
     res.status(500).json({ error: 'Failed to generate questions' });
   }
 });
 
+// List and search the question bank (admin only)
+router.get('/', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { stage, type, category, difficulty, search, status, state = 'active' } = req.query;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    if (stage !== undefined && isNaN(parseInt(stage as string))) {
+      return res.status(400).json({ error: 'stage must be a number' });
+    }
+    if (!['active', 'retired', 'all'].includes(state as string)) {
+      return res.status(400).json({ error: 'state must be one of: active, retired, all' });
+    }
+    if (status !== undefined && !QUESTION_STATUSES.includes(status as QuestionStatus)) {
+      return res.status(400).json({ error: `status must be one of: ${QUESTION_STATUSES.join(', ')}` });
+    }
+
+    const { questions, total } = await findQuestions(AppDataSource.manager, {
+      stageId: stage !== undefined ? parseInt(stage as string) : undefined,
+      type: type as string | undefined,
+      category: category as string | undefined,
+      difficulty: difficulty as string | undefined,
+      search: search as string | undefined,
+      status: status as QuestionStatus | undefined,
+      state: state as QuestionFilters['state'],
+      page,
+      limit
+    });
+
+    res.json({
+      questions,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Error listing questions:', error);
+    res.status(500).json({ error: 'Failed to fetch questions' });
+  }
+});
+
 // Create a new question (admin only)
 router.post('/', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
   try {
-    const questionRepository = AppDataSource.getRepository(Question);
-    const question = questionRepository.create(req.body);
-    const savedQuestion = await questionRepository.save(question);
+    const stageId = parseInt(req.body.stageId);
+    const stage = await findStage(stageId);
+    if (!stage) {
+      return res.status(400).json({ error: 'Validation Error', details: [{ index: 0, errors: ['stageId no corresponde a una etapa existente'] }] });
+    }
+
+    const [savedQuestion] = await AppDataSource.transaction(manager =>
+      createQuestions(manager, stageId, [req.body], creationStatus(req.body.status, stage))
+    );
 
     res.status(201).json({ question: savedQuestion });
   } catch (error) {
+    if (error instanceof QuestionValidationError) {
+      return res.status(400).json({ error: 'Validation Error', details: error.details });
+    }
     res.status(500).json({ error: 'Failed to create question' });
   }
 });
 
+// Create several questions in one stage; nothing is saved if any is invalid (admin only)
+router.post('/bulk', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const stageId = parseInt(req.body.stageId);
+    const { questions } = req.body;
+
+    if (!Array.isArray(questions) || questions.length === 0) {
+      return res.status(400).json({ error: 'questions must be a non-empty array' });
+    }
+    if (questions.length > MAX_BULK_SIZE) {
+      return res.status(400).json({ error: `At most ${MAX_BULK_SIZE} questions per request` });
+    }
+    const stage = await findStage(stageId);
+    if (!stage) {
+      return res.status(400).json({ error: 'Validation Error', details: [{ index: 0, errors: ['stageId no corresponde a una etapa existente'] }] });
+    }
+
+    const savedQuestions = await AppDataSource.transaction(manager =>
+      createQuestions(manager, stageId, questions, creationStatus(req.body.status, stage))
+    );
+
+    res.status(201).json({ questions: savedQuestions, created: savedQuestions.length });
+  } catch (error) {
+    if (error instanceof QuestionValidationError) {
+      return res.status(400).json({ error: 'Validation Error', details: error.details });
+    }
+    console.error('Error bulk creating questions:', error);
+    res.status(500).json({ error: 'Failed to create questions' });
+  }
+});
+
+// Change points, category or difficulty of several questions (admin only)
+router.patch('/bulk', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const ids = parseIds(req.body.ids);
+    const changes = pickQuestionChanges(req.body.changes, BULK_EDITABLE_FIELDS);
+
+    if (!ids) {
+      return res.status(400).json({ error: `ids must be a non-empty array of at most ${MAX_BULK_SIZE} question IDs` });
+    }
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ error: `changes must include at least one of: ${BULK_EDITABLE_FIELDS.join(', ')}` });
+    }
+
+    const results = await AppDataSource.transaction(async manager => {
+      const questions = await manager.getRepository(Question).find({ where: { id: In(ids), isActive: true } });
+      if (questions.length !== ids.length) {
+        throw new QuestionNotFoundError(ids.filter(id => !questions.some(q => q.id === id)));
+      }
+
+      const revised = [];
+      for (const [index, question] of questions.entries()) {
+        const content = buildQuestionContent(changes, index, question);
+        revised.push(await reviseQuestion(manager, question, content));
+      }
+      return revised;
+    });
+
+    res.json({
+      questions: results.map(r => r.question),
+      updated: results.length,
+      versioned: results.filter(r => r.versioned).length
+    });
+  } catch (error) {
+    if (error instanceof QuestionValidationError) {
+      return res.status(400).json({ error: 'Validation Error', details: error.details });
+    }
+    if (error instanceof QuestionNotFoundError) {
+      return res.status(404).json({ error: 'Active questions not found', ids: error.ids });
+    }
+    console.error('Error bulk updating questions:', error);
+    res.status(500).json({ error: 'Failed to update questions' });
+  }
+});
+
+// Retire several questions (admin only)
+router.post('/bulk/retire', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const ids = parseIds(req.body.ids);
+    if (!ids) {
+      return res.status(400).json({ error: `ids must be a non-empty array of at most ${MAX_BULK_SIZE} question IDs` });
+    }
+
+    const retired = await AppDataSource.transaction(async manager => {
+      const questions = await manager.getRepository(Question).find({ where: { id: In(ids) } });
+      const count = await retireQuestions(manager, ids);
+      for (const stageId of new Set(questions.map(q => q.stageId))) {
+        await refreshStageQuestionCount(manager, stageId);
+      }
+      return count;
+    });
+
+    res.json({ retired });
+  } catch (error) {
+    console.error('Error bulk retiring questions:', error);
+    res.status(500).json({ error: 'Failed to retire questions' });
+  }
+});
+
+// Submit, approve or reject several questions at once (admin only)
+router.post('/bulk/review', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const ids = parseIds(req.body.ids);
+    const { action, notes } = req.body;
+
+    if (!ids) {
+      return res.status(400).json({ error: `ids must be a non-empty array of at most ${MAX_BULK_SIZE} question IDs` });
+    }
+    if (!REVIEW_ACTIONS.includes(action)) {
+      return res.status(400).json({ error: `action must be one of: ${REVIEW_ACTIONS.join(', ')}` });
+    }
+    if (action === 'reject' && !notes?.trim()) {
+      return res.status(400).json({ error: 'notes are required when rejecting questions' });
+    }
+
+    const questions = await AppDataSource.transaction(manager =>
+      reviewQuestions(manager, ids, action, req.user!.id, notes?.trim() || null)
+    );
+
+    res.json({ questions, reviewed: questions.length });
+  } catch (error) {
+    if (error instanceof QuestionReviewError) {
+      return res.status(409).json({ error: error.message, ids: error.questionIds });
+    }
+    console.error('Error reviewing questions:', error);
+    res.status(500).json({ error: 'Failed to review questions' });
+  }
+});
+
+// Export a stage's questions as JSON, CSV or QTI 2.1 (admin only)
+router.get('/export', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const stageId = parseInt(req.query.stage as string);
+    const format = ((req.query.format as string) || 'json').toLowerCase() as QuestionBankFormat;
+
+    if (!QUESTION_BANK_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of: ${QUESTION_BANK_FORMATS.join(', ')}` });
+    }
+
+    const stage = isNaN(stageId) ? null : await AppDataSource.getRepository(Stage).findOne({ where: { id: stageId } });
+    if (!stage) {
+      return res.status(404).json({ error: 'Stage not found' });
+    }
+
+    const body = await exportStageQuestions(AppDataSource.manager, stage, format, req.query.includeRetired === 'true');
+    const extension = format === 'qti' ? 'xml' : format;
+
+    res
+      .type(QUESTION_BANK_CONTENT_TYPES[format])
+      .attachment(`stage-${stage.id}-questions.${extension}`)
+      .send(body);
+  } catch (error) {
+    console.error('Error exporting questions:', error);
+    res.status(500).json({ error: 'Failed to export questions' });
+  }
+});
+
+// Import questions into a stage (admin only). Runs as a dry-run unless dryRun=false.
+router.post('/import', authMiddleware, adminMiddleware, importBodyParser, async (req: AuthRequest, res) => {
+  try {
+    const stageId = parseInt(req.query.stage as string);
+    const format = ((req.query.format as string) || 'json').toLowerCase() as QuestionBankFormat;
+    const dryRun = req.query.dryRun !== 'false';
+
+    if (!QUESTION_BANK_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `format must be one of: ${QUESTION_BANK_FORMATS.join(', ')}` });
+    }
+
+    const stage = isNaN(stageId) ? null : await AppDataSource.getRepository(Stage).findOne({ where: { id: stageId } });
+    if (!stage) {
+      return res.status(404).json({ error: 'Stage not found' });
+    }
+
+    const report = await AppDataSource.transaction(manager =>
+      importStageQuestions(manager, stage, format, req.body, dryRun)
+    );
+
+    if (!dryRun && report.invalid > 0) {
+      return res.status(422).json({ error: 'Import contains invalid questions; nothing was saved', report });
+    }
+
+    res.status(report.created > 0 ? 201 : 200).json({ report });
+  } catch (error) {
+    if (error instanceof QuestionBankParseError) {
+      return res.status(400).json({ error: 'Could not read import file', message: error.message });
+    }
+    console.error('Error importing questions:', error);
+    res.status(500).json({ error: 'Failed to import questions' });
+  }
+});
+
 // Get question details (admin only)
 router.get('/:id', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
   try {
@@ -102,4 +395,132 @@ router.get('/:id', authMiddleware, adminMiddleware, async (req: AuthRequest, res
   }
 });
 
+// Edit a question (admin only). Questions already served to learners get a new version.
+router.patch('/:id', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const questionId = parseInt(req.params.id);
+    const question = await AppDataSource.getRepository(Question).findOne({ where: { id: questionId } });
+
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+    if (!question.isActive) {
+      return res.status(409).json({ error: 'Retired questions cannot be edited' });
+    }
+
+    const content = buildQuestionContent(pickQuestionChanges(req.body), 0, question);
+    const result = await AppDataSource.transaction(manager => reviseQuestion(manager, question, content));
+
+    res.json({ question: result.question, versioned: result.versioned, previousVersionId: result.versioned ? question.id : null });
+  } catch (error) {
+    if (error instanceof QuestionValidationError) {
+      return res.status(400).json({ error: 'Validation Error', details: error.details });
+    }
+    console.error('Error updating question:', error);
+    res.status(500).json({ error: 'Failed to update question' });
+  }
+});
+
+// Retire a question (admin only). It stays attached to past responses.
+router.delete('/:id', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const questionId = parseInt(req.params.id);
+    const question = await AppDataSource.getRepository(Question).findOne({ where: { id: questionId } });
+
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    await AppDataSource.transaction(async manager => {
+      await retireQuestions(manager, [question.id]);
+      await refreshStageQuestionCount(manager, question.stageId);
+    });
+
+    res.json({ message: 'Question retired', questionId: question.id });
+  } catch (error) {
+    console.error('Error retiring question:', error);
+    res.status(500).json({ error: 'Failed to retire question' });
+  }
+});
+
+// Send a draft or rejected question to review, or approve / reject it (admin only)
+router.post('/:id/:action(submit|approve|reject)', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const questionId = parseInt(req.params.id);
+    const action = req.params.action as ReviewAction;
+    const notes: string | undefined = req.body.notes;
+
+    if (isNaN(questionId)) {
+      return res.status(400).json({ error: 'Invalid question ID' });
+    }
+    if (action === 'reject' && !notes?.trim()) {
+      return res.status(400).json({ error: 'notes are required when rejecting a question' });
+    }
+
+    const [question] = await AppDataSource.transaction(manager =>
+      reviewQuestions(manager, [questionId], action, req.user!.id, notes?.trim() || null)
+    );
+
+    res.json({ question });
+  } catch (error) {
+    if (error instanceof QuestionReviewError) {
+      const status = error.message === 'Questions not found' ? 404 : 409;
+      return res.status(status).json({ error: error.message });
+    }
+    console.error('Error reviewing question:', error);
+    res.status(500).json({ error: 'Failed to review question' });
+  }
+});
+
+// Ask the AI for a rubric draft for an open question (admin only). Nothing is saved:
+// the admin edits the draft and stores it with PATCH /:id.
+router.post('/:id/rubric/draft', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const questionId = parseInt(req.params.id);
+    const question = await AppDataSource.getRepository(Question).findOne({ where: { id: questionId } });
+
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+    if (CLOSED_QUESTION_TYPES.includes(question.type)) {
+      return res.status(400).json({ error: 'Rubrics only apply to open questions' });
+    }
+
+    let rubric;
+    try {
+      rubric = await openRouterService.getInstance().generateRubric(
+        question.questionText,
+        question.category || 'General',
+        question.difficulty || 'intermediate',
+        question.attachments
+      );
+    } catch (error) {
+      console.error('Error drafting rubric:', error);
+      return res.status(502).json({ error: 'Failed to draft a valid rubric' });
+    }
+
+    res.json({ questionId: question.id, rubric, currentRubric: question.rubric });
+  } catch (error) {
+    console.error('Error drafting rubric:', error);
+    res.status(500).json({ error: 'Failed to draft rubric' });
+  }
+});
+
+// List every version of a question (admin only)
+router.get('/:id/versions', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const questionId = parseInt(req.params.id);
+    const question = await AppDataSource.getRepository(Question).findOne({ where: { id: questionId } });
+
+    if (!question) {
+      return res.status(404).json({ error: 'Question not found' });
+    }
+
+    const versions = await getQuestionHistory(AppDataSource.manager, question);
+    res.json({ versions });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch question versions' });
+  }
+});
+
 export default router;
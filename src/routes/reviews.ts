@@ -0,0 +1,250 @@
+import { Response, Router } from 'express';
+import { AppDataSource } from '../config/database-minimal';
+import { Appeal, AppealStatus } from '../entities/Appeal';
+import { ResponseReviewReason, ResponseReviewStatus, UserResponse } from '../entities/UserResponse';
+import { authMiddleware, AuthRequest, adminMiddleware } from '../middleware/auth';
+import { triggerGradingWorker } from '../services/gradingJobRunner';
+import { AppealAction, AppealError, findAppeals, resolveAppeal } from '../services/appealService';
+import {
+  confirmResponseGrade,
+  findReviewQueue,
+  overrideResponseGrade,
+  ResponseReviewError
+} from '../services/responseReviewService';
+
+const router = Router();
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const REVIEW_STATUSES: ResponseReviewStatus[] = ['pending', 'resolved'];
+const REVIEW_REASONS: ResponseReviewReason[] = ['low_confidence', 'grading_failed'];
+const APPEAL_STATUSES: AppealStatus[] = ['open', 'upheld', 'rejected'];
+
+// Attempt fields are only present when the attempt relation was loaded
+const toReviewItem = (response: UserResponse) => ({
+  responseId: response.id,
+  attemptId: response.attempt?.id,
+  userId: response.attempt?.userId,
+  stageId: response.attempt?.stageId,
+  question: {
+    id: response.question.id,
+    questionText: response.question.questionText,
+    points: response.question.points,
+    rubric: response.question.rubric,
+    attachments: response.question.attachments
+  },
+  response: response.response,
+  isCorrect: response.isCorrect,
+  pointsEarned: response.pointsEarned,
+  rubricBreakdown: response.rubricBreakdown,
+  gradingStatus: response.gradingStatus,
+  gradingConfidence: response.gradingConfidence,
+  reviewStatus: response.reviewStatus,
+  reviewReason: response.reviewReason,
+  overridden: response.overridden,
+  reviewerComment: response.reviewerComment,
+  reviewedBy: response.reviewedBy,
+  reviewedAt: response.reviewedAt
+});
+
+const toAppealItem = (appeal: Appeal) => ({
+  id: appeal.id,
+  responseId: appeal.responseId,
+  attemptId: appeal.attemptId,
+  userId: appeal.userId,
+  justification: appeal.justification,
+  status: appeal.status,
+  resolutionComment: appeal.resolutionComment,
+  resolvedBy: appeal.resolvedBy,
+  resolvedAt: appeal.resolvedAt,
+  createdAt: appeal.createdAt,
+  ...(appeal.response ? { response: toReviewItem(appeal.response) } : {})
+});
+
+const handleReviewError = (error: unknown, res: Response, fallback: string) => {
+  if (error instanceof ResponseReviewError || error instanceof AppealError) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+};
+
+// Human review queue of open answers (admin only)
+router.get('/', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { status = 'pending', reason, stage } = req.query;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    if (!REVIEW_STATUSES.includes(status as ResponseReviewStatus)) {
+      return res.status(400).json({ error: `status must be one of: ${REVIEW_STATUSES.join(', ')}` });
+    }
+    if (reason !== undefined && !REVIEW_REASONS.includes(reason as ResponseReviewReason)) {
+      return res.status(400).json({ error: `reason must be one of: ${REVIEW_REASONS.join(', ')}` });
+    }
+    if (stage !== undefined && isNaN(parseInt(stage as string))) {
+      return res.status(400).json({ error: 'stage must be a number' });
+    }
+
+    const { responses, total } = await findReviewQueue(AppDataSource.manager, {
+      status: status as ResponseReviewStatus,
+      reason: reason as ResponseReviewReason | undefined,
+      stageId: stage !== undefined ? parseInt(stage as string) : undefined,
+      page,
+      limit
+    });
+
+    res.json({
+      responses: responses.map(toReviewItem),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    handleReviewError(error, res, 'Failed to fetch review queue');
+  }
+});
+
+// Override the grade of an open answer and re-score its attempt (admin only)
+router.post('/:responseId/override', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const responseId = parseInt(req.params.responseId);
+    const { isCorrect, pointsEarned, comment } = req.body;
+
+    const details: string[] = [];
+    if (isNaN(responseId)) {
+      details.push('responseId must be a number');
+    }
+    if (typeof isCorrect !== 'boolean') {
+      details.push('isCorrect must be a boolean');
+    }
+    if (pointsEarned !== undefined && pointsEarned !== null && !Number.isFinite(Number(pointsEarned))) {
+      details.push('pointsEarned must be a number');
+    }
+    if (typeof comment !== 'string' || !comment.trim()) {
+      details.push('comment is required');
+    }
+    if (details.length > 0) {
+      return res.status(400).json({ error: 'Validation Error', details });
+    }
+
+    const outcome = await overrideResponseGrade(responseId, req.user!.id, {
+      isCorrect,
+      pointsEarned: pointsEarned !== undefined && pointsEarned !== null ? Number(pointsEarned) : undefined,
+      comment: comment.trim()
+    });
+
+    if (outcome.finalizationQueued) {
+      triggerGradingWorker();
+    }
+
+    res.json({
+      response: toReviewItem(outcome.response),
+      attempt: {
+        status: outcome.attemptStatus,
+        score: outcome.attemptScore,
+        finalizationQueued: outcome.finalizationQueued
+      }
+    });
+  } catch (error) {
+    handleReviewError(error, res, 'Failed to override grade');
+  }
+});
+
+// Accept the AI grade of a queued answer (admin only)
+router.post('/:responseId/confirm', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const responseId = parseInt(req.params.responseId);
+    if (isNaN(responseId)) {
+      return res.status(400).json({ error: 'responseId must be a number' });
+    }
+
+    const comment = typeof req.body.comment === 'string' && req.body.comment.trim() ? req.body.comment.trim() : null;
+    const response = await confirmResponseGrade(responseId, req.user!.id, comment);
+
+    res.json({ response: toReviewItem(response) });
+  } catch (error) {
+    handleReviewError(error, res, 'Failed to confirm grade');
+  }
+});
+
+// Learner appeals, open ones first by default (admin only)
+router.get('/appeals', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { status = 'open', stage } = req.query;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    if (!APPEAL_STATUSES.includes(status as AppealStatus)) {
+      return res.status(400).json({ error: `status must be one of: ${APPEAL_STATUSES.join(', ')}` });
+    }
+    if (stage !== undefined && isNaN(parseInt(stage as string))) {
+      return res.status(400).json({ error: 'stage must be a number' });
+    }
+
+    const { appeals, total } = await findAppeals(AppDataSource.manager, {
+      status: status as AppealStatus,
+      stageId: stage !== undefined ? parseInt(stage as string) : undefined,
+      page,
+      limit
+    });
+
+    res.json({
+      appeals: appeals.map(toAppealItem),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    handleReviewError(error, res, 'Failed to fetch appeals');
+  }
+});
+
+// Uphold or reject an appeal (admin only). Upholding re-grades the answer.
+router.post('/appeals/:appealId/:action(uphold|reject)', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const appealId = parseInt(req.params.appealId);
+    const action = req.params.action as AppealAction;
+    const { comment, isCorrect, pointsEarned } = req.body;
+
+    const details: string[] = [];
+    if (isNaN(appealId)) {
+      details.push('appealId must be a number');
+    }
+    if (typeof comment !== 'string' || !comment.trim()) {
+      details.push('comment is required');
+    }
+    if (isCorrect !== undefined && typeof isCorrect !== 'boolean') {
+      details.push('isCorrect must be a boolean');
+    }
+    if (pointsEarned !== undefined && pointsEarned !== null && !Number.isFinite(Number(pointsEarned))) {
+      details.push('pointsEarned must be a number');
+    }
+    if (details.length > 0) {
+      return res.status(400).json({ error: 'Validation Error', details });
+    }
+
+    const { appeal, outcome } = await resolveAppeal(appealId, req.user!.id, {
+      action,
+      comment: comment.trim(),
+      isCorrect,
+      pointsEarned: pointsEarned !== undefined && pointsEarned !== null ? Number(pointsEarned) : undefined
+    });
+
+    res.json({
+      appeal: toAppealItem(appeal),
+      attempt: outcome ? { status: outcome.attemptStatus, score: outcome.attemptScore } : null
+    });
+  } catch (error) {
+    handleReviewError(error, res, 'Failed to resolve appeal');
+  }
+});
+
+export default router;
@@ -4,6 +4,7 @@ import { EvaluationAttempt } from '../entities/EvaluationAttempt';
 import { Stage } from '../entities/Stage';
 import { User } from '../entities/User';
 import { authMiddleware } from '../middleware/auth';
+import { getScoringPolicy, isPassingScore } from '../services/scoringService';
 import { AuthRequest } from '../middleware/auth';
 
 const router = Router();
@@ -29,7 +30,8 @@ router.get('/analytics', authMiddleware, async (req: AuthRequest, res) => {
     const queryBuilder = attemptRepository
       .createQueryBuilder('attempt')
       .leftJoinAndSelect('attempt.stage', 'stage')
-      .where('attempt.userId = :userId', { userId });
+      .where('attempt.userId = :userId', { userId })
+      .andWhere('attempt.status = :status', { status: 'graded' });
 
     if (stageId) {
       queryBuilder.andWhere('attempt.stageId = :stageId', { stageId: parseInt(stageId as string) });
@@ -100,7 +102,7 @@ router.get('/analytics', authMiddleware, async (req: AuthRequest, res) => {
         metrics.completedAttempts++;
         completedAttempts++;
         
-        if (attempt.score !== null && attempt.score >= 70) {
+        if (isPassingScore(attempt.score, getScoringPolicy(attempt.stage))) {
           passedStages.add(stageId);
         }
       }
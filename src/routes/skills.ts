@@ -5,6 +5,7 @@ import { Stage } from '../entities/Stage';
 import { User } from '../entities/User';
 import { authMiddleware } from '../middleware/auth';
 import { openRouterService } from '../services/openRouterService';
+import { getScoringPolicy, isPassingScore } from '../services/scoringService';
 import { AuthRequest } from '../middleware/auth';
 
 const router = Router();
@@ -58,7 +59,8 @@ router.get('/analytics', authMiddleware, async (req: AuthRequest, res) => {
     const queryBuilder = attemptRepository
       .createQueryBuilder('attempt')
       .leftJoinAndSelect('attempt.stage', 'stage')
-      .where('attempt.userId = :userId', { userId });
+      .where('attempt.userId = :userId', { userId })
+      .andWhere('attempt.status = :status', { status: 'graded' });
 
     if (stageId) {
       queryBuilder.andWhere('attempt.stageId = :stageId', { stageId: parseInt(stageId as string) });
@@ -128,7 +130,7 @@ router.get('/analytics', authMiddleware, async (req: AuthRequest, res) => {
         metrics.completedAttempts++;
         completedAttempts++;
         
-        if (attempt.score !== null && attempt.score >= 70) {
+        if (isPassingScore(attempt.score, getScoringPolicy(attempt.stage))) {
           passedStages.add(stageId);
         }
       }
@@ -240,7 +242,8 @@ router.get('/attempts', authMiddleware, async (req: AuthRequest, res) => {
     const queryBuilder = attemptRepository
       .createQueryBuilder('attempt')
       .leftJoinAndSelect('attempt.stage', 'stage')
-      .where('attempt.userId = :userId', { userId });
+      .where('attempt.userId = :userId', { userId })
+      .andWhere('attempt.status = :status', { status: 'graded' });
 
     if (stageId) {
       queryBuilder.andWhere('attempt.stageId = :stageId', { stageId: parseInt(stageId as string) });
@@ -304,7 +307,8 @@ router.get('/feedback', authMiddleware, async (req: AuthRequest, res) => {
     const queryBuilder = attemptRepository
       .createQueryBuilder('attempt')
       .leftJoinAndSelect('attempt.stage', 'stage')
-      .where('attempt.userId = :userId', { userId });
+      .where('attempt.userId = :userId', { userId })
+      .andWhere('attempt.status = :status', { status: 'graded' });
 
     if (stageId) {
       queryBuilder.andWhere('attempt.stageId = :stageId', { stageId: parseInt(stageId as string) });
@@ -440,7 +444,7 @@ Responde en español de manera motivacional pero honesta, usando los datos reale
       }
     ];
     
-    const response = await openRouterService.getInstance().generateCompletion(messages);
+    const response = await openRouterService.getInstance().generateCompletion(messages, 'analytics');
     
     // Parse the AI response and structure it
     const feedbackText = response; // response is already a string from generateCompletion
@@ -5,101 +5,104 @@ import { UserStage } from '../entities/UserStage';
 import { Question } from '../entities/Question';
 import { authMiddleware, AuthRequest, adminMiddleware } from '../middleware/auth';
 import { openRouterService } from '../services/openRouterService';
+import { generateQuestionsForStage, parseClosedTypes } from '../services/questionGenerationService';
+import { GeneratedQuestionType } from '../services/questionSchema';
+import { AUTO_GRADED_QUESTION_TYPES } from '../services/questionTypes';
+import { validateScoringPolicyInput } from '../services/scoringService';
+import { getAttemptPolicyState, validateAttemptPolicyInput } from '../services/attemptPolicyService';
+import { canPracticeStage, validatePracticeAccessInput } from '../services/practiceService';
+import { CLOSED_QUESTION_TYPES } from '../services/attemptService';
+import {
+  checkPrerequisites,
+  getDefaultPrerequisites,
+  parsePrerequisiteInput,
+  PrerequisiteError,
+  setStagePrerequisites,
+  toPrerequisiteGroups
+} from '../services/prerequisiteService';
+import { StagePrerequisite } from '../entities/StagePrerequisite';
+import { loadLearnerProgress, TrackProgress } from '../services/trackService';
+import {
+  cloneStage,
+  getStageAvailability,
+  isStagePublished,
+  parseStageOrderInput,
+  parseStageScheduleInput,
+  reorderStages,
+  StageError,
+  StagePreview
+} from '../services/stageService';
 import { In } from 'typeorm';
 
 const router = Router();
 
 // Background task to generate questions for a stage
-async function generateQuestionsInBackground(stage: Stage): Promise<void> {
+async function generateQuestionsInBackground(stage: Stage, closedTypes: GeneratedQuestionType[]): Promise<void> {
   try {
     console.log(`🔄 Generando preguntas en segundo plano para stage: ${stage.title}`);
     
-    const aiResponse = await openRouterService.getInstance().generateQuestions(
-      stage.title,
-      stage.difficulty,
+    const { savedQuestions, report } = await generateQuestionsForStage(
+      stage,
       stage.openQuestions,
       stage.closedQuestions,
-      stage.considerations || undefined
+      { closedTypes }
     );
 
-    // Save generated questions to database
-    const questionRepository = AppDataSource.getRepository(Question);
-    const questionsToSave = aiResponse.questions.map((q: any) => ({
-      stageId: stage.id,
-      type: q.type,
-      questionText: q.questionText,
-      options: q.options || null,
-      correctAnswer: q.correctAnswer || null,
-      points: q.points,
-      category: q.category,
-      difficulty: q.difficulty
-    }));
-
-    const savedQuestions = await questionRepository.save(questionsToSave);
-
-    // Update stage question count
-    await AppDataSource.getRepository(Stage).update(stage.id, {
-      questionCount: savedQuestions.length
-    });
-
-    console.log(`✅ ${savedQuestions.length} preguntas generadas exitosamente en segundo plano para stage ${stage.id}`);
+    console.log(`✅ ${savedQuestions.length} preguntas generadas exitosamente en segundo plano para stage ${stage.id} (${report.droppedCount} descartadas)`);
   } catch (error: any) {
     console.error(`❌ Error generando preguntas en segundo plano para stage ${stage.id}:`, error);
     throw error;
   }
 }
 
-// Helper function to determine if a stage is unlocked
-const isStageUnlocked = (stage: any, stages: any[], userStages: any[]): boolean => {
-  // Si es el primer stage por displayOrder, siempre está desbloqueado
-  if (stage.displayOrder === 1) {
-    return true;
+// Admins can pass `?preview=true` (optionally with `?at=<date>`) to see unpublished stages
+// exactly as learners will once they are published
+const getStagePreview = (req: AuthRequest): { preview?: StagePreview; now: Date; error?: { status: number; message: string } } => {
+  if (req.query.preview !== 'true') {
+    return { now: new Date() };
   }
-  
-  // Para otros stages, verificar si el stage anterior está completado
-  const previousStage = stages.find(s => s.displayOrder === stage.displayOrder - 1);
-  if (!previousStage) {
-    // Si no hay stage anterior, está desbloqueado
-    // Esto puede pasar si hay gaps en el displayOrder
-    console.warn(`Stage ${stage.id} (displayOrder: ${stage.displayOrder}) has no previous stage. Unlocking by default.`);
-    return true;
+  if (req.user?.role !== 'admin') {
+    return { now: new Date(), error: { status: 403, message: 'Access denied. Admin privileges required.' } };
   }
-  
-  const previousUserStage = userStages.find(us => us.stageId === previousStage.id);
-  const isUnlocked = previousUserStage?.isCompleted || false;
-  
-  return isUnlocked;
-};
-
-// Validation function to ensure proper stage unlocking logic
-const validateStageUnlocking = (stages: any[], userStages: any[]): void => {
-  // Validation logic without console logs for production
+  if (req.query.at === undefined) {
+    return { preview: { at: null }, now: new Date() };
+  }
+  const at = new Date(req.query.at as string);
+  if (isNaN(at.getTime())) {
+    return { now: new Date(), error: { status: 400, message: 'at must be a date' } };
+  }
+  return { preview: { at }, now: at };
 };
 
-// Get all stages
+// Get all stages; `?track=` lists one track's stages in track order
 router.get('/', authMiddleware, async (req: AuthRequest, res) => {
   try {
-    const stageRepository = AppDataSource.getRepository(Stage);
-    const userStageRepository = AppDataSource.getRepository(UserStage);
-
-    const stages = await stageRepository.find({
-      where: { isActive: true },
-      order: { displayOrder: 'ASC' }
-    });
+    const { preview, now, error: previewError } = getStagePreview(req);
+    if (previewError) {
+      return res.status(previewError.status).json({ error: previewError.message });
+    }
 
-    // Get user progress for each stage
-    const userStages = await userStageRepository.find({
-      where: { userId: req.user!.id }
-    });
+    const { stages: allStages, userStages, prerequisites: graph, isUnlocked: unlocked, tracks } =
+      await loadLearnerProgress(AppDataSource.manager, req.user!.id, preview);
 
-    // Validate stage unlocking logic
-    validateStageUnlocking(stages, userStages);
+    let stages = allStages.filter(stage => stage.isActive);
+    let trackProgress: TrackProgress | undefined;
+    if (req.query.track !== undefined) {
+      trackProgress = tracks.find(t => t.trackId === parseInt(req.query.track as string));
+      if (!trackProgress) {
+        return res.status(404).json({ error: 'Track not found' });
+      }
+      stages = trackProgress.stages.map(ts => stages.find(stage => stage.id === ts.stageId)!);
+    }
 
     const stagesWithProgress = stages.map(stage => {
       const userStage = userStages.find(us => us.stageId === stage.id);
-      
-      // Determinar si el stage está desbloqueado usando la función helper
-      const isUnlocked = isStageUnlocked(stage, stages, userStages);
+      const trackStage = trackProgress?.stages.find(ts => ts.stageId === stage.id);
+      // Within a track, unlocking follows that track's order; outside its window nothing can be started
+      const availability = getStageAvailability(stage, now);
+      const isUnlocked = (trackStage ? trackStage.isUnlocked : unlocked.get(stage.id)!) && availability === 'open';
+      const { prerequisites } = graph.get(stage.id)!;
+      const trackIds = tracks.filter(t => t.stages.some(ts => ts.stageId === stage.id)).map(t => t.trackId);
       
       return {
         id: stage.id,
@@ -120,14 +123,47 @@ router.get('/', authMiddleware, async (req: AuthRequest, res) => {
         totalQuestions: stage.totalQuestions,
         openQuestions: stage.openQuestions,
         closedQuestions: stage.closedQuestions,
+        timeLimitMinutes: stage.timeLimitMinutes,
+        autoApproveQuestions: stage.autoApproveQuestions,
+        scoringMode: stage.scoringMode,
+        passingScore: stage.passingScore,
+        negativeMarking: stage.negativeMarking,
+        revealCorrectAnswers: stage.revealCorrectAnswers,
+        availableFrom: stage.availableFrom,
+        availableUntil: stage.availableUntil,
+        availability,
+        ...(preview ? { publishAt: stage.publishAt } : {}),
+        maxAttempts: stage.maxAttempts,
+        retakeCooldownMinutes: stage.retakeCooldownMinutes,
+        lockoutAfterFailures: stage.lockoutAfterFailures,
+        lockoutMinutes: stage.lockoutMinutes,
+        practiceAccess: stage.practiceAccess,
         isCompleted: userStage?.isCompleted || false,
         userScore: userStage?.score || null,
         completedAt: userStage?.completedAt || null,
-        isUnlocked
+        isUnlocked,
+        prerequisites,
+        trackIds,
+        ...(trackStage ? { trackPosition: trackStage.position } : {})
       };
     });
 
-    res.json({ stages: stagesWithProgress });
+    res.json({
+      stages: stagesWithProgress,
+      ...(preview ? { preview: { at: preview.at } } : {}),
+      ...(trackProgress ? {
+        track: {
+          id: trackProgress.trackId,
+          title: trackProgress.title,
+          isEnrolled: trackProgress.isEnrolled,
+          currentStageId: trackProgress.currentStageId,
+          completedStages: trackProgress.completedStages,
+          totalStages: trackProgress.totalStages,
+          progress: trackProgress.progress,
+          isCompleted: trackProgress.isCompleted
+        }
+      } : {})
+    });
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch stages' });
   }
@@ -136,21 +172,30 @@ router.get('/', authMiddleware, async (req: AuthRequest, res) => {
 // Get stage details
 router.get('/:id', authMiddleware, async (req: AuthRequest, res) => {
   try {
+    const { preview, now, error: previewError } = getStagePreview(req);
+    if (previewError) {
+      return res.status(previewError.status).json({ error: previewError.message });
+    }
+
     const stageId = parseInt(req.params.id);
     const stageRepository = AppDataSource.getRepository(Stage);
     const userStageRepository = AppDataSource.getRepository(UserStage);
 
     const stage = await stageRepository.findOne({
-      where: { id: stageId, isActive: true }
+      where: { id: stageId }
     });
 
-    if (!stage) {
+    // Unpublished stages do not exist for learners
+    if (!stage || !isStagePublished(stage, preview)) {
       return res.status(404).json({ error: 'Stage not found' });
     }
 
     const userStage = await userStageRepository.findOne({
       where: { userId: req.user!.id, stageId }
     });
+    const { isUnlocked } = await loadLearnerProgress(AppDataSource.manager, req.user!.id, preview);
+    const availability = getStageAvailability(stage, now);
+    const attemptPolicy = await getAttemptPolicyState(AppDataSource.manager, req.user!.id, stage, now);
 
     console.log('Stage data being sent:', {
       id: stage.id,
@@ -165,6 +210,12 @@ router.get('/:id', authMiddleware, async (req: AuthRequest, res) => {
       totalQuestions: stage.totalQuestions,
       openQuestions: stage.openQuestions,
       closedQuestions: stage.closedQuestions,
+      ...(preview ? { isActive: true } : {}),
+      availability,
+      isUnlocked: Boolean(isUnlocked.get(stage.id)) && availability === 'open',
+      attemptPolicy,
+      nextAttemptAvailableAt: attemptPolicy.nextAttemptAvailableAt,
+      canPractice: canPracticeStage(stage, Boolean(isUnlocked.get(stage.id)), now),
       isCompleted: userStage?.isCompleted || false,
       userScore: userStage?.score || null,
       completedAt: userStage?.completedAt || null
@@ -221,9 +272,36 @@ router.post('/', authMiddleware, adminMiddleware, async (req: AuthRequest, res)
       considerations = null,
       totalQuestions,
       openQuestions,
-      closedQuestions
+      closedQuestions,
+      timeLimitMinutes,
+      autoApproveQuestions,
+      scoringMode,
+      passingScore,
+      negativeMarking,
+      revealCorrectAnswers,
+      prerequisites,
+      maxAttempts,
+      retakeCooldownMinutes,
+      lockoutAfterFailures,
+      lockoutMinutes,
+      practiceAccess
     } = req.body;
 
+    const scoringErrors = validateScoringPolicyInput({ scoringMode, passingScore, negativeMarking });
+    const prerequisiteInput = prerequisites !== undefined ? parsePrerequisiteInput(prerequisites) : null;
+    const schedule = parseStageScheduleInput(req.body);
+    const attemptPolicyErrors = validateAttemptPolicyInput({ maxAttempts, retakeCooldownMinutes, lockoutAfterFailures, lockoutMinutes });
+    const validationErrors = [
+      ...scoringErrors,
+      ...attemptPolicyErrors,
+      ...validatePracticeAccessInput(practiceAccess),
+      ...(prerequisiteInput?.errors || []),
+      ...schedule.errors
+    ];
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation Error', details: validationErrors });
+    }
+
     // Validate required fields
     if (!title || !description || !difficulty || !icon || !color || !estimatedTime || displayOrder === undefined) {
       return res.status(400).json({ 
@@ -239,6 +317,16 @@ router.post('/', authMiddleware, adminMiddleware, async (req: AuthRequest, res)
       });
     }
 
+    // Closed question types for the initial questions, e.g. ["multiple-choice", "ordering"]
+    const closedTypes = parseClosedTypes(req.body.types);
+    if (!closedTypes) {
+      return res.status(400).json({ error: `types must be a list of: ${AUTO_GRADED_QUESTION_TYPES.join(', ')}` });
+    }
+
+    if (prerequisiteInput) {
+      await checkPrerequisites(AppDataSource.manager, null, prerequisiteInput.groups);
+    }
+
     // Generate stage details using AI
     const stageDetails = await openRouterService.getInstance().generateStageDetails(
       title,
@@ -256,7 +344,8 @@ router.post('/', authMiddleware, adminMiddleware, async (req: AuthRequest, res)
       color,
       estimatedTime,
       displayOrder: parseInt(displayOrder),
-      isActive: Boolean(isActive),
+      // Stages scheduled for publishing stay hidden until publishAt
+      isActive: schedule.input.publishAt ? false : Boolean(isActive),
       considerations,
       topicsCovered: stageDetails.topicsCovered,
       whatToExpect: stageDetails.whatToExpect,
@@ -264,14 +353,34 @@ router.post('/', authMiddleware, adminMiddleware, async (req: AuthRequest, res)
       evaluationDescription: stageDetails.evaluationDescription,
       totalQuestions: totalQuestions ? parseInt(totalQuestions) : 10,
       openQuestions: openQuestions ? parseInt(openQuestions) : 5,
-      closedQuestions: closedQuestions ? parseInt(closedQuestions) : 5
+      closedQuestions: closedQuestions ? parseInt(closedQuestions) : 5,
+      timeLimitMinutes: timeLimitMinutes ? parseInt(timeLimitMinutes) : null,
+      autoApproveQuestions: Boolean(autoApproveQuestions),
+      scoringMode,
+      passingScore: passingScore !== undefined ? parseInt(passingScore) : undefined,
+      negativeMarking: negativeMarking !== undefined ? Number(negativeMarking) : undefined,
+      revealCorrectAnswers: revealCorrectAnswers !== undefined ? Boolean(revealCorrectAnswers) : undefined,
+      availableFrom: schedule.input.availableFrom,
+      availableUntil: schedule.input.availableUntil,
+      publishAt: schedule.input.publishAt,
+      maxAttempts: maxAttempts !== undefined && maxAttempts !== null ? parseInt(maxAttempts) : null,
+      retakeCooldownMinutes: retakeCooldownMinutes !== undefined ? parseInt(retakeCooldownMinutes) : undefined,
+      lockoutAfterFailures: lockoutAfterFailures !== undefined && lockoutAfterFailures !== null ? parseInt(lockoutAfterFailures) : null,
+      lockoutMinutes: lockoutMinutes !== undefined ? parseInt(lockoutMinutes) : undefined,
+      practiceAccess
     };
 
     // Create the stage using the static method
     const newStage = await Stage.createStage(stageData);
 
+    // Without explicit prerequisites the stage requires the one before it in the roadmap
+    const prerequisiteGroups = prerequisiteInput
+      ? prerequisiteInput.groups
+      : await getDefaultPrerequisites(AppDataSource.manager, newStage.displayOrder);
+    await setStagePrerequisites(AppDataSource.manager, newStage.id, prerequisiteGroups);
+
     // Generate questions in background (non-blocking)
-    generateQuestionsInBackground(newStage).catch(error => {
+    generateQuestionsInBackground(newStage, closedTypes).catch(error => {
       console.error(`Error generating questions in background for stage ${newStage.id}:`, error);
     });
 
@@ -298,11 +407,29 @@ router.post('/', authMiddleware, adminMiddleware, async (req: AuthRequest, res)
         evaluationDescription: newStage.evaluationDescription,
         totalQuestions: newStage.totalQuestions,
         openQuestions: newStage.openQuestions,
-        closedQuestions: newStage.closedQuestions
+        closedQuestions: newStage.closedQuestions,
+        timeLimitMinutes: newStage.timeLimitMinutes,
+        autoApproveQuestions: newStage.autoApproveQuestions,
+        scoringMode: newStage.scoringMode,
+        passingScore: newStage.passingScore,
+        negativeMarking: newStage.negativeMarking,
+        revealCorrectAnswers: newStage.revealCorrectAnswers,
+        availableFrom: newStage.availableFrom,
+        availableUntil: newStage.availableUntil,
+        publishAt: newStage.publishAt,
+        maxAttempts: newStage.maxAttempts,
+        retakeCooldownMinutes: newStage.retakeCooldownMinutes,
+        lockoutAfterFailures: newStage.lockoutAfterFailures,
+        lockoutMinutes: newStage.lockoutMinutes,
+        practiceAccess: newStage.practiceAccess,
+        prerequisites: prerequisiteGroups
       }
     });
   } catch (error: unknown) {
     console.error('Error creating stage:', error);
+    if (error instanceof PrerequisiteError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
     if (error instanceof Error) {
       if (error.message.includes('already exists')) {
         return res.status(409).json({ error: error.message });
@@ -336,14 +463,44 @@ router.patch('/:id', authMiddleware, adminMiddleware, async (req: AuthRequest, r
       considerations,
       totalQuestions,
       openQuestions,
-      closedQuestions
+      closedQuestions,
+      timeLimitMinutes,
+      autoApproveQuestions,
+      scoringMode,
+      passingScore,
+      negativeMarking,
+      revealCorrectAnswers,
+      prerequisites,
+      maxAttempts,
+      retakeCooldownMinutes,
+      lockoutAfterFailures,
+      lockoutMinutes,
+      practiceAccess
     } = req.body;
 
+    const scoringErrors = validateScoringPolicyInput({ scoringMode, passingScore, negativeMarking });
+    const prerequisiteInput = prerequisites !== undefined ? parsePrerequisiteInput(prerequisites) : null;
+    const schedule = parseStageScheduleInput(req.body, stage);
+    const attemptPolicyErrors = validateAttemptPolicyInput({ maxAttempts, retakeCooldownMinutes, lockoutAfterFailures, lockoutMinutes });
+    const validationErrors = [
+      ...scoringErrors,
+      ...attemptPolicyErrors,
+      ...validatePracticeAccessInput(practiceAccess),
+      ...(prerequisiteInput?.errors || []),
+      ...schedule.errors
+    ];
+    if (schedule.input.publishAt && (isActive !== undefined ? Boolean(isActive) : stage.isActive)) {
+      validationErrors.push('publishAt can only be set on an inactive stage');
+    }
+    if (validationErrors.length > 0) {
+      return res.status(400).json({ error: 'Validation Error', details: validationErrors });
+    }
+
     // Si se va a cambiar el displayOrder, validar unicidad
     if (displayOrder !== undefined && displayOrder !== stage.displayOrder) {
       const existing = await stageRepository.findOne({ where: { displayOrder: parseInt(displayOrder) } });
       if (existing && existing.id !== stageId) {
-        return res.status(409).json({ error: 'Another stage with this displayOrder already exists' });
+        return res.status(409).json({ error: 'Another stage with this displayOrder already exists. Use POST /api/stages/reorder to move several stages at once' });
       }
       stage.displayOrder = parseInt(displayOrder);
     }
@@ -358,8 +515,31 @@ router.patch('/:id', authMiddleware, adminMiddleware, async (req: AuthRequest, r
     if (totalQuestions !== undefined) stage.totalQuestions = parseInt(totalQuestions);
     if (openQuestions !== undefined) stage.openQuestions = parseInt(openQuestions);
     if (closedQuestions !== undefined) stage.closedQuestions = parseInt(closedQuestions);
-
-    await stageRepository.save(stage);
+    if (timeLimitMinutes !== undefined) stage.timeLimitMinutes = timeLimitMinutes === null ? null : parseInt(timeLimitMinutes);
+    if (autoApproveQuestions !== undefined) stage.autoApproveQuestions = Boolean(autoApproveQuestions);
+    if (scoringMode !== undefined) stage.scoringMode = scoringMode;
+    if (passingScore !== undefined) stage.passingScore = parseInt(passingScore);
+    if (negativeMarking !== undefined) stage.negativeMarking = Number(negativeMarking);
+    if (revealCorrectAnswers !== undefined) stage.revealCorrectAnswers = Boolean(revealCorrectAnswers);
+    if (maxAttempts !== undefined) stage.maxAttempts = maxAttempts === null ? null : parseInt(maxAttempts);
+    if (retakeCooldownMinutes !== undefined) stage.retakeCooldownMinutes = parseInt(retakeCooldownMinutes);
+    if (lockoutAfterFailures !== undefined) stage.lockoutAfterFailures = lockoutAfterFailures === null ? null : parseInt(lockoutAfterFailures);
+    if (lockoutMinutes !== undefined) stage.lockoutMinutes = parseInt(lockoutMinutes);
+    if (practiceAccess !== undefined) stage.practiceAccess = practiceAccess;
+    if (schedule.input.availableFrom !== undefined) stage.availableFrom = schedule.input.availableFrom;
+    if (schedule.input.availableUntil !== undefined) stage.availableUntil = schedule.input.availableUntil;
+    if (schedule.input.publishAt !== undefined) stage.publishAt = schedule.input.publishAt;
+    // A stage published by hand no longer waits for its schedule
+    if (stage.isActive) stage.publishAt = null;
+
+    // Prerequisites are checked for cycles before anything is saved
+    await AppDataSource.transaction(async manager => {
+      if (prerequisiteInput) {
+        await setStagePrerequisites(manager, stageId, prerequisiteInput.groups);
+      }
+      await manager.getRepository(Stage).save(stage);
+    });
+    const prerequisiteRows = await AppDataSource.getRepository(StagePrerequisite).find({ where: { stageId } });
 
     res.json({
       message: 'Stage updated successfully',
@@ -376,33 +556,114 @@ router.patch('/:id', authMiddleware, adminMiddleware, async (req: AuthRequest, r
         considerations: stage.considerations,
         totalQuestions: stage.totalQuestions,
         openQuestions: stage.openQuestions,
-        closedQuestions: stage.closedQuestions
+        closedQuestions: stage.closedQuestions,
+        timeLimitMinutes: stage.timeLimitMinutes,
+        autoApproveQuestions: stage.autoApproveQuestions,
+        scoringMode: stage.scoringMode,
+        passingScore: stage.passingScore,
+        negativeMarking: stage.negativeMarking,
+        revealCorrectAnswers: stage.revealCorrectAnswers,
+        availableFrom: stage.availableFrom,
+        availableUntil: stage.availableUntil,
+        publishAt: stage.publishAt,
+        maxAttempts: stage.maxAttempts,
+        retakeCooldownMinutes: stage.retakeCooldownMinutes,
+        lockoutAfterFailures: stage.lockoutAfterFailures,
+        lockoutMinutes: stage.lockoutMinutes,
+        practiceAccess: stage.practiceAccess,
+        prerequisites: toPrerequisiteGroups(prerequisiteRows)
       }
     });
   } catch (error) {
     console.error('Error updating stage:', error);
+    if (error instanceof PrerequisiteError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
     res.status(500).json({ error: 'Failed to update stage', details: error instanceof Error ? error.message : error });
   }
 });
 
-// Debug endpoint to validate stage unlocking logic
-router.get('/debug/unlocking', authMiddleware, async (req: AuthRequest, res) => {
+// Rewrite the displayOrder of many stages in one transaction (Admin only)
+router.post('/reorder', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
   try {
-    const stageRepository = AppDataSource.getRepository(Stage);
-    const userStageRepository = AppDataSource.getRepository(UserStage);
+    const { items, errors } = parseStageOrderInput(req.body.stages);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Validation Error', details: errors });
+    }
+
+    const stages = await AppDataSource.transaction(manager => reorderStages(manager, items));
 
-    const stages = await stageRepository.find({
-      where: { isActive: true },
-      order: { displayOrder: 'ASC' }
+    res.json({
+      message: 'Stages reordered successfully',
+      stages: stages.map(stage => ({
+        id: stage.id,
+        title: stage.title,
+        displayOrder: stage.displayOrder,
+        isActive: stage.isActive
+      }))
     });
+  } catch (error) {
+    if (error instanceof StageError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    console.error('Error reordering stages:', error);
+    res.status(500).json({ error: 'Failed to reorder stages' });
+  }
+});
+
+// Duplicate a stage with its approved questions as a new inactive stage (Admin only)
+router.post('/:id/clone', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { title, displayOrder } = req.body;
+    const errors: string[] = [];
+    if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+      errors.push('title must be a non-empty string');
+    }
+    if (displayOrder !== undefined && (!Number.isInteger(Number(displayOrder)) || Number(displayOrder) < 1)) {
+      errors.push('displayOrder must be a positive integer');
+    }
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Validation Error', details: errors });
+    }
 
-    const userStages = await userStageRepository.find({
-      where: { userId: req.user!.id }
+    const { stage, clonedQuestions } = await AppDataSource.transaction(manager =>
+      cloneStage(manager, parseInt(req.params.id), {
+        title: title !== undefined ? title.trim() : undefined,
+        displayOrder: displayOrder !== undefined ? Number(displayOrder) : undefined
+      })
+    );
+
+    res.status(201).json({
+      message: 'Stage cloned successfully',
+      clonedQuestions,
+      stage: {
+        id: stage.id,
+        title: stage.title,
+        displayOrder: stage.displayOrder,
+        isActive: stage.isActive,
+        questionCount: stage.questionCount
+      }
     });
+  } catch (error) {
+    if (error instanceof StageError) {
+      return res.status(error.status).json({ error: error.message, code: error.code });
+    }
+    console.error('Error cloning stage:', error);
+    res.status(500).json({ error: 'Failed to clone stage' });
+  }
+});
+
+// Debug endpoint to validate stage unlocking logic
+router.get('/debug/unlocking', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { stages: allStages, userStages, prerequisites: graph, isUnlocked: unlocked, tracks } =
+      await loadLearnerProgress(AppDataSource.manager, req.user!.id);
+    const stages = allStages.filter(stage => stage.isActive);
 
     const debugInfo = stages.map(stage => {
       const userStage = userStages.find(us => us.stageId === stage.id);
-      const isUnlocked = isStageUnlocked(stage, stages, userStages);
+      const isUnlocked = unlocked.get(stage.id)!;
+      const { prerequisites } = graph.get(stage.id)!;
       
       return {
         id: stage.id,
@@ -410,6 +671,7 @@ router.get('/debug/unlocking', authMiddleware, async (req: AuthRequest, res) =>
         displayOrder: stage.displayOrder,
         isCompleted: userStage?.isCompleted || false,
         isUnlocked,
+        prerequisites,
         userScore: userStage?.score || null,
         completedAt: userStage?.completedAt || null,
         userStageData: userStage ? {
@@ -431,6 +693,7 @@ router.get('/debug/unlocking', authMiddleware, async (req: AuthRequest, res) =>
         score: us.score,
         completedAt: us.completedAt
       })),
+      tracks,
       stages: debugInfo
     });
   } catch (error) {
@@ -477,20 +740,25 @@ router.get('/:id/questions-status', authMiddleware, adminMiddleware, async (req:
       return res.status(404).json({ error: 'Stage not found' });
     }
 
-    // Count questions for this stage
-    const questionCount = await questionRepository.count({ where: { stageId } });
+    // Count questions evaluations can use, plus those still waiting for review
+    const questionCount = await questionRepository.count({ where: { stageId, isActive: true, status: 'approved' } });
+    const pendingReview = await questionRepository.count({ where: { stageId, isActive: true, status: 'in_review' } });
 
     // Get question types distribution - check multiple possible type values
     const openQuestions = await questionRepository.count({ 
       where: { 
         stageId, 
+        isActive: true,
+        status: 'approved',
         type: In(['open_text', 'open-text', 'text']) 
       } 
     });
     const closedQuestions = await questionRepository.count({ 
       where: { 
         stageId, 
-        type: In(['multiple_choice', 'multiple-choice', 'choice']) 
+        isActive: true,
+        status: 'approved',
+        type: In([...CLOSED_QUESTION_TYPES, 'choice']) 
       } 
     });
 
@@ -502,6 +770,8 @@ router.get('/:id/questions-status', authMiddleware, adminMiddleware, async (req:
       closedQuestions,
       expectedOpen: stage.openQuestions,
       expectedClosed: stage.closedQuestions,
+      pendingReview,
+      autoApproveQuestions: stage.autoApproveQuestions,
       hasQuestions: questionCount > 0,
       isComplete: questionCount >= (stage.openQuestions + stage.closedQuestions)
     });
@@ -0,0 +1,147 @@
+import { Response, Router } from 'express';
+import { AppDataSource } from '../config/database-minimal';
+import { Track } from '../entities/Track';
+import { TrackStage } from '../entities/TrackStage';
+import { authMiddleware, AuthRequest, adminMiddleware } from '../middleware/auth';
+import {
+  enrollInTrack,
+  leaveTrack,
+  loadLearnerProgress,
+  parseTrackInput,
+  saveTrack,
+  TrackError,
+  TrackProgress
+} from '../services/trackService';
+
+const router = Router();
+
+const toTrackItem = (track: Track, progress?: TrackProgress) => ({
+  id: track.id,
+  title: track.title,
+  description: track.description,
+  isActive: track.isActive,
+  displayOrder: track.displayOrder,
+  ...(progress ? {
+    isEnrolled: progress.isEnrolled,
+    currentStageId: progress.currentStageId,
+    completedStages: progress.completedStages,
+    totalStages: progress.totalStages,
+    progress: progress.progress,
+    isCompleted: progress.isCompleted,
+    stages: progress.stages
+  } : {})
+});
+
+// Stage IDs of a track in order, for admin responses
+const getTrackStageIds = async (trackId: number): Promise<number[]> => {
+  const trackStages = await AppDataSource.getRepository(TrackStage).find({
+    where: { trackId },
+    order: { position: 'ASC' }
+  });
+  return trackStages.map(ts => ts.stageId);
+};
+
+const handleTrackError = (error: unknown, res: Response, fallback: string) => {
+  if (error instanceof TrackError) {
+    return res.status(error.status).json({ error: error.message, code: error.code });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+};
+
+// List active tracks with the learner's progress in each
+router.get('/', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const tracks = await AppDataSource.getRepository(Track).find({
+      where: { isActive: true },
+      order: { displayOrder: 'ASC', id: 'ASC' }
+    });
+    const { tracks: progress } = await loadLearnerProgress(AppDataSource.manager, req.user!.id);
+
+    res.json({
+      tracks: tracks.map(track => toTrackItem(track, progress.find(p => p.trackId === track.id)))
+    });
+  } catch (error) {
+    handleTrackError(error, res, 'Failed to fetch tracks');
+  }
+});
+
+// Get one track with its ordered stages and the learner's progress
+router.get('/:id', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const track = await AppDataSource.getRepository(Track).findOne({
+      where: { id: parseInt(req.params.id), isActive: true }
+    });
+    if (!track) {
+      return res.status(404).json({ error: 'Track not found' });
+    }
+
+    const { tracks: progress } = await loadLearnerProgress(AppDataSource.manager, req.user!.id);
+    res.json({ track: toTrackItem(track, progress.find(p => p.trackId === track.id)) });
+  } catch (error) {
+    handleTrackError(error, res, 'Failed to fetch track');
+  }
+});
+
+// Create a track (Admin only)
+router.post('/', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const { input, errors } = parseTrackInput(req.body, false);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Validation Error', details: errors });
+    }
+
+    const track = await AppDataSource.transaction(manager => saveTrack(manager, null, input));
+    res.status(201).json({
+      message: 'Track created successfully',
+      track: { ...toTrackItem(track), stageIds: await getTrackStageIds(track.id) }
+    });
+  } catch (error) {
+    handleTrackError(error, res, 'Failed to create track');
+  }
+});
+
+// Edit a track; `stageIds` replaces its stages in order (Admin only)
+router.patch('/:id', authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const track = await AppDataSource.getRepository(Track).findOne({ where: { id: parseInt(req.params.id) } });
+    if (!track) {
+      return res.status(404).json({ error: 'Track not found' });
+    }
+
+    const { input, errors } = parseTrackInput(req.body, true);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Validation Error', details: errors });
+    }
+
+    const saved = await AppDataSource.transaction(manager => saveTrack(manager, track, input));
+    res.json({
+      message: 'Track updated successfully',
+      track: { ...toTrackItem(saved), stageIds: await getTrackStageIds(saved.id) }
+    });
+  } catch (error) {
+    handleTrackError(error, res, 'Failed to update track');
+  }
+});
+
+// Enroll the learner in a track
+router.post('/:id/enroll', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    const userTrack = await enrollInTrack(AppDataSource.manager, req.user!.id, parseInt(req.params.id));
+    res.status(201).json({ trackId: userTrack.trackId, enrolledAt: userTrack.enrolledAt });
+  } catch (error) {
+    handleTrackError(error, res, 'Failed to enroll in track');
+  }
+});
+
+// Leave a track; stage progress is kept
+router.delete('/:id/enroll', authMiddleware, async (req: AuthRequest, res) => {
+  try {
+    await leaveTrack(AppDataSource.manager, req.user!.id, parseInt(req.params.id));
+    res.status(204).send();
+  } catch (error) {
+    handleTrackError(error, res, 'Failed to leave track');
+  }
+});
+
+export default router;
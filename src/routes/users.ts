@@ -3,6 +3,7 @@ import { AppDataSource } from '../config/database-minimal';
 import { User } from '../entities/User';
 import { UserStage } from '../entities/UserStage';
 import { authMiddleware, AuthRequest } from '../middleware/auth';
+import { loadLearnerProgress } from '../services/trackService';
 
 const router = Router();
 
@@ -23,6 +24,9 @@ router.get('/me', authMiddleware, async (req: AuthRequest, res) => {
       .filter(us => us.isCompleted)
       .map(us => us.stageId);
 
+    // Progress and current stage in each track the learner is enrolled in
+    const { tracks } = await loadLearnerProgress(AppDataSource.manager, user.id);
+
     res.json({
       id: user.id,
       email: user.email,
@@ -32,6 +36,7 @@ router.get('/me', authMiddleware, async (req: AuthRequest, res) => {
       globalScore: user.globalScore,
       currentStageId: user.currentStageId,
       completedStages,
+      tracks: tracks.filter(t => t.isEnrolled).map(({ stages, isEnrolled, ...track }) => track),
       createdAt: user.createdAt,
       updatedAt: user.updatedAt
     });
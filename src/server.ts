@@ -13,6 +13,12 @@ import questionRoutes from './routes/questions';
 import evaluationRoutes from './routes/evaluations';
 import feedbackRoutes from './routes/feedback';
 import skillsRoutes from './routes/skills';
+import reviewRoutes from './routes/reviews';
+import trackRoutes from './routes/tracks';
+import practiceRoutes from './routes/practice';
+import { startGradingWorker } from './services/gradingJobRunner';
+import { startStagePublisher } from './services/stagePublisher';
+import { startQuestionGenerationWorker } from './services/questionGenerationJobRunner';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -43,6 +49,9 @@ app.use('/api/questions', questionRoutes);
 app.use('/api/evaluations', evaluationRoutes);
 app.use('/api/feedback', feedbackRoutes);
 app.use('/api/skills', skillsRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/tracks', trackRoutes);
+app.use('/api/practice', practiceRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -59,6 +68,15 @@ const startServer = async () => {
     if (process.env.DATABASE_URL) {
       const dataSource = await getDataSource();
       console.log('✅ Database connection ready');
+
+      // Grade submitted evaluations in the background
+      startGradingWorker();
+
+      // Publish stages scheduled with publishAt
+      startStagePublisher();
+
+      // Generate questions requested for thin weak-area pools, one job at a time
+      startQuestionGenerationWorker();
     } else {
       console.warn('⚠️ DATABASE_URL not set. Skipping database initialization.');
     }
@@ -0,0 +1,82 @@
+import { EntityManager } from 'typeorm';
+import { Appeal, AppealStatus } from '../entities/Appeal';
+import { EvaluationAttempt } from '../entities/EvaluationAttempt';
+import { QuestionAttachment } from '../entities/Question';
+import { RubricCriterionScore, UserResponse } from '../entities/UserResponse';
+import { getAttemptQuestions, toClientQuestion } from './attemptService';
+import { describeAnswer, describeCorrectAnswer, getShownAnswerKey } from './questionTypes';
+
+export interface AnswerReviewItem {
+  questionId: number;
+  responseId: number | null;
+  type: string;
+  questionText: string;
+  attachments?: QuestionAttachment[];
+  // Options (and matching targets) in the order the learner saw them
+  options: string[] | null;
+  matchTargets?: string[];
+  points: number;
+  response: string | null;
+  // Readable form of the response for auto-graded questions
+  answerText: string | null;
+  isCorrect: boolean | null;
+  pointsEarned: number;
+  rubricBreakdown: RubricCriterionScore[] | null;
+  explanation: string | null;
+  reviewerComment: string | null;
+  appealStatus: AppealStatus | null;
+  // Only present when the stage reveals correct answers
+  correctAnswer?: string | null;
+  // The correct answer in the same format as `response`
+  correctResponse?: string | null;
+}
+
+/**
+ * Lays out a submitted attempt question by question, in the order it was served, with
+ * the learner's answer and its grade. Correct answers are included only when the
+ * attempt's stage (which must be loaded) allows revealing them.
+ */
+export const buildAttemptReview = async (
+  manager: EntityManager,
+  attempt: EvaluationAttempt
+): Promise<AnswerReviewItem[]> => {
+  const questions = await getAttemptQuestions(manager, attempt);
+  const responses = await manager.getRepository(UserResponse).find({
+    where: { attempt: { id: attempt.id } },
+    relations: ['question']
+  });
+  const appeals = await manager.getRepository(Appeal).find({ where: { attemptId: attempt.id } });
+
+  const responseByQuestion = new Map(responses.map(r => [r.question.id, r]));
+  const reveal = attempt.stage.revealCorrectAnswers;
+
+  return questions.map(question => {
+    const client = toClientQuestion(question, attempt.samplingSeed);
+    const response = responseByQuestion.get(question.id);
+
+    return {
+      questionId: question.id,
+      responseId: response?.id ?? null,
+      type: question.type,
+      questionText: question.questionText,
+      ...(client.attachments ? { attachments: client.attachments } : {}),
+      options: client.options ?? null,
+      ...(client.matchTargets ? { matchTargets: client.matchTargets } : {}),
+      points: question.points,
+      response: response?.response ?? null,
+      answerText: response ? describeAnswer(question, response.response, attempt.samplingSeed) : null,
+      isCorrect: response?.isCorrect ?? null,
+      pointsEarned: response?.pointsEarned ?? 0,
+      rubricBreakdown: response?.rubricBreakdown ?? null,
+      explanation: response?.gradingExplanation ?? null,
+      reviewerComment: response?.overridden ? response.reviewerComment : null,
+      appealStatus: appeals.find(a => a.responseId === response?.id)?.status ?? null,
+      ...(reveal
+        ? {
+          correctAnswer: describeCorrectAnswer(question) ?? (question.correctAnswer || null),
+          correctResponse: getShownAnswerKey(question, attempt.samplingSeed)
+        }
+        : {})
+    };
+  });
+};
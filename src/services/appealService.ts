@@ -0,0 +1,168 @@
+import { EntityManager, IsNull, Not } from 'typeorm';
+import { AppDataSource } from '../config/database-minimal';
+import { Appeal, AppealStatus } from '../entities/Appeal';
+import { UserResponse } from '../entities/UserResponse';
+import { CLOSED_QUESTION_TYPES } from './attemptService';
+import { applyGradeOverride, ReviewOutcome } from './responseReviewService';
+
+export const MAX_JUSTIFICATION_LENGTH = 2000;
+
+export type AppealAction = 'uphold' | 'reject';
+
+export interface AppealFilters {
+  status?: AppealStatus;
+  userId?: number;
+  stageId?: number;
+  page: number;
+  limit: number;
+}
+
+export interface AppealDecision {
+  action: AppealAction;
+  comment: string;
+  // New grade for an upheld appeal; defaults to full credit
+  isCorrect?: boolean;
+  pointsEarned?: number;
+}
+
+export class AppealError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code: string) {
+    super(message);
+    this.name = 'AppealError';
+  }
+}
+
+/**
+ * Files a learner's appeal against the grade of one of their own open answers.
+ * Each answer can be appealed once, and only after its attempt is graded.
+ */
+export const createAppeal = async (userId: number, responseId: number, justification: string): Promise<Appeal> => {
+  return AppDataSource.transaction(async manager => {
+    const response = await manager.getRepository(UserResponse).findOne({
+      where: { id: responseId },
+      relations: ['question', 'attempt']
+    });
+    // Someone else's answer is reported as missing so IDs cannot be probed
+    if (!response || response.attempt.userId !== userId) {
+      throw new AppealError('Response not found', 404, 'RESPONSE_NOT_FOUND');
+    }
+    if (CLOSED_QUESTION_TYPES.includes(response.question.type)) {
+      throw new AppealError('Only answers to open questions can be appealed', 400, 'NOT_OPEN_QUESTION');
+    }
+    if (response.attempt.status !== 'graded') {
+      throw new AppealError('The attempt has not been graded yet', 409, 'ATTEMPT_NOT_GRADED');
+    }
+
+    const appealRepository = manager.getRepository(Appeal);
+    if (await appealRepository.exist({ where: { responseId } })) {
+      throw new AppealError('This answer has already been appealed', 409, 'APPEAL_EXISTS');
+    }
+
+    return appealRepository.save(appealRepository.create({
+      responseId,
+      attemptId: response.attempt.id,
+      userId,
+      justification,
+      status: 'open'
+    }));
+  });
+};
+
+/**
+ * Lists appeals with their answer and question, oldest first.
+ */
+export const findAppeals = async (
+  manager: EntityManager,
+  filters: AppealFilters
+): Promise<{ appeals: Appeal[]; total: number }> => {
+  const query = manager.getRepository(Appeal)
+    .createQueryBuilder('appeal')
+    .innerJoinAndSelect('appeal.response', 'response')
+    .innerJoinAndSelect('response.question', 'question');
+
+  if (filters.status) {
+    query.andWhere('appeal.status = :status', { status: filters.status });
+  }
+  if (filters.userId !== undefined) {
+    query.andWhere('appeal.user_id = :userId', { userId: filters.userId });
+  }
+  if (filters.stageId !== undefined) {
+    query.andWhere('question.stage_id = :stageId', { stageId: filters.stageId });
+  }
+
+  const [appeals, total] = await query
+    .orderBy('appeal.created_at', 'ASC')
+    .addOrderBy('appeal.id', 'ASC')
+    .skip((filters.page - 1) * filters.limit)
+    .take(filters.limit)
+    .getManyAndCount();
+
+  return { appeals, total };
+};
+
+/**
+ * Closes an open appeal. Upholding it overrides the answer's grade, which re-scores
+ * the attempt, its feedback and the learner's progress.
+ */
+export const resolveAppeal = async (
+  appealId: number,
+  reviewerId: number,
+  decision: AppealDecision
+): Promise<{ appeal: Appeal; outcome: ReviewOutcome | null }> => {
+  return AppDataSource.transaction(async manager => {
+    const appealRepository = manager.getRepository(Appeal);
+    // Locked so two reviewers resolving at once cannot both see it open
+    const appeal = await appealRepository.findOne({ where: { id: appealId }, lock: { mode: 'pessimistic_write' } });
+    if (!appeal) {
+      throw new AppealError('Appeal not found', 404, 'APPEAL_NOT_FOUND');
+    }
+    if (appeal.status !== 'open') {
+      throw new AppealError(`Appeal is already ${appeal.status}`, 409, 'APPEAL_CLOSED');
+    }
+
+    let outcome: ReviewOutcome | null = null;
+    if (decision.action === 'uphold') {
+      const response = await manager.getRepository(UserResponse).findOneOrFail({
+        where: { id: appeal.responseId },
+        relations: ['question', 'attempt']
+      });
+      outcome = await applyGradeOverride(manager, response, reviewerId, {
+        isCorrect: decision.isCorrect ?? true,
+        pointsEarned: decision.pointsEarned,
+        comment: decision.comment
+      });
+    }
+
+    await appealRepository.update(appeal.id, {
+      status: decision.action === 'uphold' ? 'upheld' : 'rejected',
+      resolutionComment: decision.comment,
+      resolvedBy: reviewerId,
+      resolvedAt: new Date()
+    });
+
+    return { appeal: await appealRepository.findOneOrFail({ where: { id: appeal.id } }), outcome };
+  });
+};
+
+/**
+ * Appeals of an attempt for the learner's feedback view. Resolutions the learner has
+ * not seen yet are flagged `isNew` and then marked as notified.
+ */
+export const getAttemptAppealsForLearner = async (
+  manager: EntityManager,
+  attemptId: number,
+  userId: number
+): Promise<(Appeal & { isNew: boolean })[]> => {
+  const appealRepository = manager.getRepository(Appeal);
+  const appeals = await appealRepository.find({ where: { attemptId, userId }, order: { id: 'ASC' } });
+
+  const unseen = appeals.filter(a => a.status !== 'open' && !a.learnerNotifiedAt).map(a => a.id);
+  if (unseen.length > 0) {
+    await appealRepository.update(
+      { attemptId, userId, status: Not('open'), learnerNotifiedAt: IsNull() },
+      { learnerNotifiedAt: new Date() }
+    );
+  }
+
+  return appeals.map(a => Object.assign(a, { isNew: unseen.includes(a.id) }));
+};
@@ -0,0 +1,162 @@
+import { EntityManager } from 'typeorm';
+import { EvaluationAttempt } from '../entities/EvaluationAttempt';
+import { Stage } from '../entities/Stage';
+import { getScoringPolicy, isPassingScore } from './scoringService';
+
+export type AttemptBlockReason = 'MAX_ATTEMPTS_REACHED' | 'RETAKE_COOLDOWN' | 'LOCKED_OUT';
+
+export type AttemptPolicy = Pick<
+  Stage,
+  'maxAttempts' | 'retakeCooldownMinutes' | 'lockoutAfterFailures' | 'lockoutMinutes'
+  | 'scoringMode' | 'passingScore' | 'negativeMarking'
+>;
+
+export interface AttemptPolicyState {
+  maxAttempts: number | null;
+  attemptsUsed: number;
+  // null when the stage has no attempt limit
+  attemptsRemaining: number | null;
+  retakeCooldownMinutes: number;
+  lockoutAfterFailures: number | null;
+  lockoutMinutes: number;
+  // Failed attempts since the last pass or lockout
+  consecutiveFailures: number;
+  lockedUntil: Date | null;
+  canStartAttempt: boolean;
+  blockedReason: AttemptBlockReason | null;
+  // When the learner may start again; null if they can start now or have no attempts left
+  nextAttemptAvailableAt: Date | null;
+}
+
+/**
+ * Validates the attempt policy fields of a stage request.
+ */
+export const validateAttemptPolicyInput = (input: {
+  maxAttempts?: unknown;
+  retakeCooldownMinutes?: unknown;
+  lockoutAfterFailures?: unknown;
+  lockoutMinutes?: unknown;
+}): string[] => {
+  const errors: string[] = [];
+  const isInteger = (value: unknown, min: number) =>
+    value !== null && value !== '' && Number.isInteger(Number(value)) && Number(value) >= min;
+
+  if (input.maxAttempts !== undefined && input.maxAttempts !== null && !isInteger(input.maxAttempts, 1)) {
+    errors.push('maxAttempts must be a positive integer or null');
+  }
+  if (input.retakeCooldownMinutes !== undefined && !isInteger(input.retakeCooldownMinutes, 0)) {
+    errors.push('retakeCooldownMinutes must be an integer of at least 0');
+  }
+  if (input.lockoutAfterFailures !== undefined && input.lockoutAfterFailures !== null
+    && !isInteger(input.lockoutAfterFailures, 1)) {
+    errors.push('lockoutAfterFailures must be a positive integer or null');
+  }
+  if (input.lockoutMinutes !== undefined && !isInteger(input.lockoutMinutes, 1)) {
+    errors.push('lockoutMinutes must be a positive integer');
+  }
+  return errors;
+};
+
+// When an attempt stopped counting down; attempts still running have no end yet
+const getAttemptEnd = (attempt: EvaluationAttempt): Date | null => {
+  if (attempt.status === 'in_progress') {
+    return null;
+  }
+  return new Date(attempt.endTime || attempt.deadline || attempt.startTime);
+};
+
+// Expired attempts count as failures so learners cannot look at the questions for free
+const isFailedAttempt = (attempt: EvaluationAttempt, stage: AttemptPolicy): boolean | null => {
+  if (attempt.status === 'expired') {
+    return true;
+  }
+  if (attempt.status === 'graded') {
+    return !isPassingScore(attempt.score, getScoringPolicy(stage));
+  }
+  // Attempts still being graded (or whose grading failed) do not count either way
+  return null;
+};
+
+/**
+ * Works out whether a learner may start another attempt under the stage's policy.
+ * Every failure streak that reaches `lockoutAfterFailures` locks the learner out for
+ * `lockoutMinutes` from the last failure, and the streak starts over afterwards.
+ */
+export const computeAttemptPolicyState = (
+  stage: AttemptPolicy,
+  attempts: EvaluationAttempt[],
+  now: Date = new Date()
+): AttemptPolicyState => {
+  const ordered = [...attempts].sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+
+  let consecutiveFailures = 0;
+  let lockedUntil: Date | null = null;
+  for (const attempt of ordered) {
+    const failed = isFailedAttempt(attempt, stage);
+    if (failed === null) {
+      continue;
+    }
+    if (!failed) {
+      consecutiveFailures = 0;
+      continue;
+    }
+    consecutiveFailures++;
+    if (stage.lockoutAfterFailures && consecutiveFailures >= stage.lockoutAfterFailures) {
+      lockedUntil = new Date(getAttemptEnd(attempt)!.getTime() + stage.lockoutMinutes * 60000);
+      consecutiveFailures = 0;
+    }
+  }
+  if (lockedUntil && lockedUntil.getTime() <= now.getTime()) {
+    lockedUntil = null;
+  }
+
+  const lastEnd = ordered.map(getAttemptEnd).filter((end): end is Date => end !== null).pop();
+  const cooldownUntil = lastEnd && stage.retakeCooldownMinutes > 0
+    ? new Date(lastEnd.getTime() + stage.retakeCooldownMinutes * 60000)
+    : null;
+  const activeCooldown = cooldownUntil && cooldownUntil.getTime() > now.getTime() ? cooldownUntil : null;
+
+  const attemptsUsed = attempts.length;
+  const attemptsRemaining = stage.maxAttempts === null ? null : Math.max(stage.maxAttempts - attemptsUsed, 0);
+
+  let blockedReason: AttemptBlockReason | null = null;
+  let nextAttemptAvailableAt: Date | null = null;
+  if (attemptsRemaining === 0) {
+    blockedReason = 'MAX_ATTEMPTS_REACHED';
+  } else if (lockedUntil) {
+    blockedReason = 'LOCKED_OUT';
+    nextAttemptAvailableAt = activeCooldown && activeCooldown > lockedUntil ? activeCooldown : lockedUntil;
+  } else if (activeCooldown) {
+    blockedReason = 'RETAKE_COOLDOWN';
+    nextAttemptAvailableAt = activeCooldown;
+  }
+
+  return {
+    maxAttempts: stage.maxAttempts,
+    attemptsUsed,
+    attemptsRemaining,
+    retakeCooldownMinutes: stage.retakeCooldownMinutes,
+    lockoutAfterFailures: stage.lockoutAfterFailures,
+    lockoutMinutes: stage.lockoutMinutes,
+    consecutiveFailures,
+    lockedUntil,
+    canStartAttempt: blockedReason === null,
+    blockedReason,
+    nextAttemptAvailableAt
+  };
+};
+
+/**
+ * Loads a learner's attempts on the stage and works out their attempt policy state.
+ */
+export const getAttemptPolicyState = async (
+  manager: EntityManager,
+  userId: number,
+  stage: Stage,
+  now: Date = new Date()
+): Promise<AttemptPolicyState> => {
+  const attempts = await manager.getRepository(EvaluationAttempt).find({
+    where: { userId, stageId: stage.id }
+  });
+  return computeAttemptPolicyState(stage, attempts, now);
+};
@@ -0,0 +1,384 @@
+import { EntityManager, In } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { AppDataSource } from '../config/database-minimal';
+import { EvaluationAttempt } from '../entities/EvaluationAttempt';
+import { Question } from '../entities/Question';
+import { Stage } from '../entities/Stage';
+import { User } from '../entities/User';
+import { UserResponse } from '../entities/UserResponse';
+import { AUTO_GRADED_QUESTION_TYPES, getShownOptionOrder, getShownTargetOrder } from './questionTypes';
+import { createSeededRandom, generateSeed, RandomSource, shuffle, stratifiedSample } from './samplingService';
+import { loadLearnerProgress } from './trackService';
+import { getStageAvailability } from './stageService';
+import { getAttemptPolicyState } from './attemptPolicyService';
+
+// Fallback when a stage has neither an explicit limit nor a parseable estimated time
+const DEFAULT_TIME_LIMIT_MINUTES = 60;
+
+// Tolerance for network latency between the client's last keystroke and our receipt
+export const SUBMISSION_GRACE_SECONDS = 30;
+
+// Longest Idempotency-Key accepted on submissions (the column is varchar(255))
+export const MAX_SUBMISSION_KEY_LENGTH = 255;
+
+export const OPEN_QUESTION_TYPES = ['open_text', 'open-text', 'artifact'];
+export const CLOSED_QUESTION_TYPES: string[] = ['multiple_choice', ...AUTO_GRADED_QUESTION_TYPES];
+
+/**
+ * Domain error raised by the attempt lifecycle. Carries the HTTP status and a
+ * machine-readable code so routes can map it without string matching.
+ */
+export class AttemptError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code: string) {
+    super(message);
+    this.name = 'AttemptError';
+  }
+}
+
+/**
+ * Resolves the time limit of a stage in seconds. Uses `timeLimitMinutes` when set,
+ * otherwise parses `estimatedTime` (e.g. "45 min", "1 h") and finally falls back
+ * to a default.
+ */
+export const getStageTimeLimitSeconds = (stage: Stage): number => {
+  if (stage.timeLimitMinutes && stage.timeLimitMinutes > 0) {
+    return stage.timeLimitMinutes * 60;
+  }
+
+  const match = stage.estimatedTime?.match(/(\d+(?:[.,]\d+)?)\s*(h|hr|hora|horas|hour|hours|m|min|mins|minutos|minutes)?/i);
+  if (match) {
+    const value = parseFloat(match[1].replace(',', '.'));
+    const unit = (match[2] || 'min').toLowerCase();
+    const minutes = unit.startsWith('h') ? value * 60 : value;
+    if (minutes > 0) {
+      return Math.round(minutes * 60);
+    }
+  }
+
+  return DEFAULT_TIME_LIMIT_MINUTES * 60;
+};
+
+/**
+ * Returns true when the attempt can no longer accept answers.
+ */
+export const isAttemptPastDeadline = (attempt: EvaluationAttempt, now: Date = new Date()): boolean => {
+  if (!attempt.deadline) {
+    return false;
+  }
+  return now.getTime() > new Date(attempt.deadline).getTime() + SUBMISSION_GRACE_SECONDS * 1000;
+};
+
+/**
+ * Seconds elapsed between the server-side start of the attempt and `endTime`,
+ * capped at the deadline.
+ */
+export const computeTimeSpentSeconds = (attempt: EvaluationAttempt, endTime: Date): number => {
+  const start = new Date(attempt.startTime).getTime();
+  const end = attempt.deadline
+    ? Math.min(endTime.getTime(), new Date(attempt.deadline).getTime())
+    : endTime.getTime();
+  return Math.max(0, Math.round((end - start) / 1000));
+};
+
+/**
+ * Closes an attempt that ran past its deadline without a valid submission.
+ */
+export const expireAttempt = async (manager: EntityManager, attempt: EvaluationAttempt): Promise<EvaluationAttempt> => {
+  const endTime = attempt.deadline ? new Date(attempt.deadline) : new Date();
+  attempt.status = 'expired';
+  attempt.isCompleted = false;
+  attempt.endTime = endTime;
+  attempt.timeSpentSeconds = computeTimeSpentSeconds(attempt, endTime);
+  return manager.getRepository(EvaluationAttempt).save(attempt);
+};
+
+// Questions are drawn evenly across these dimensions of the pool
+const questionStratum = (q: Question): string => `${q.category || ''}|${q.difficulty || ''}`;
+
+/**
+ * Draws the questions of an evaluation from the stage's approved pool, stratified by
+ * category and difficulty within each question type, in random order.
+ */
+export const selectQuestionsForStage = async (
+  manager: EntityManager,
+  stageId: number,
+  openQuestions: number,
+  closedQuestions: number,
+  random: RandomSource
+): Promise<Question[]> => {
+  const pool = await manager.getRepository(Question).find({
+    where: { stageId, isActive: true, status: 'approved' },
+    order: { id: 'ASC' }
+  });
+
+  const selectedOpenQuestions = stratifiedSample(
+    pool.filter(q => OPEN_QUESTION_TYPES.includes(q.type)),
+    openQuestions,
+    questionStratum,
+    random
+  );
+  const selectedClosedQuestions = stratifiedSample(
+    pool.filter(q => CLOSED_QUESTION_TYPES.includes(q.type)),
+    closedQuestions,
+    questionStratum,
+    random
+  );
+
+  return shuffle([...selectedOpenQuestions, ...selectedClosedQuestions], random);
+};
+
+/**
+ * Loads the frozen question set of an attempt (or practice session), preserving the
+ * order it was served in.
+ */
+export const getAttemptQuestions = async (
+  manager: EntityManager,
+  attempt: Pick<EvaluationAttempt, 'questionIds'>
+): Promise<Question[]> => {
+  const questionIds = attempt.questionIds || [];
+  if (questionIds.length === 0) {
+    return [];
+  }
+
+  const questions = await manager.getRepository(Question).find({ where: { id: In(questionIds) } });
+  const questionMap = new Map(questions.map(q => [q.id, q]));
+  return questionIds
+    .map(id => questionMap.get(id))
+    .filter((q): q is Question => Boolean(q));
+};
+
+/**
+ * Formats a question for the learner, without answers. Options (and matching targets)
+ * are shown in the order derived from the attempt's sampling seed.
+ */
+export const toClientQuestion = (q: Question, samplingSeed: string | null = null) => ({
+  id: q.id,
+  type: q.type,
+  questionText: q.questionText,
+  options: q.options ? getShownOptionOrder(q, samplingSeed).map(i => q.options![i]) : q.options,
+  ...(q.matchTargets ? { matchTargets: getShownTargetOrder(q, samplingSeed).map(i => q.matchTargets![i]) } : {}),
+  ...(q.attachments ? { attachments: q.attachments } : {}),
+  points: q.points,
+  category: q.category,
+  difficulty: q.difficulty
+});
+
+/**
+ * Starts an attempt for a stage, or returns the user's open attempt for it if one
+ * is still running. The question set and deadline are fixed server-side here.
+ */
+export const startAttempt = async (
+  userId: number,
+  stageId: number,
+  openQuestions?: number,
+  closedQuestions?: number
+): Promise<{ attempt: EvaluationAttempt; questions: Question[]; resumed: boolean }> => {
+  return AppDataSource.transaction(async manager => {
+    const stage = await manager.getRepository(Stage).findOne({ where: { id: stageId, isActive: true } });
+    if (!stage) {
+      throw new AttemptError('Stage not found', 404, 'STAGE_NOT_FOUND');
+    }
+
+    // Serializes a learner's attempt starts so two requests cannot both pass the attempt limits
+    await manager.getRepository(User).findOne({ where: { id: userId }, lock: { mode: 'pessimistic_write' } });
+
+    const attemptRepository = manager.getRepository(EvaluationAttempt);
+    const openAttempt = await attemptRepository.findOne({
+      where: { userId, stageId, status: 'in_progress' },
+      order: { startTime: 'DESC' }
+    });
+
+    if (openAttempt) {
+      if (!isAttemptPastDeadline(openAttempt)) {
+        return {
+          attempt: openAttempt,
+          questions: await getAttemptQuestions(manager, openAttempt),
+          resumed: true
+        };
+      }
+      await expireAttempt(manager, openAttempt);
+    }
+
+    // Attempts already under way can be finished even if the prerequisites changed since;
+    // their deadline already stops at the end of the availability window
+    const availability = getStageAvailability(stage);
+    if (availability !== 'open') {
+      throw new AttemptError(
+        availability === 'upcoming'
+          ? `This stage opens on ${new Date(stage.availableFrom!).toISOString()}`
+          : `This stage closed on ${new Date(stage.availableUntil!).toISOString()}`,
+        403,
+        'STAGE_NOT_AVAILABLE'
+      );
+    }
+    const { isUnlocked } = await loadLearnerProgress(manager, userId);
+    if (!isUnlocked.get(stageId)) {
+      throw new AttemptError('Complete the prerequisites of this stage first', 403, 'STAGE_LOCKED');
+    }
+
+    const policy = await getAttemptPolicyState(manager, userId, stage);
+    if (policy.blockedReason === 'MAX_ATTEMPTS_REACHED') {
+      throw new AttemptError(`You have used all ${policy.maxAttempts} attempts for this stage`, 403, policy.blockedReason);
+    }
+    if (policy.blockedReason) {
+      throw new AttemptError(
+        `Your next attempt is available at ${policy.nextAttemptAvailableAt!.toISOString()}`,
+        429,
+        policy.blockedReason
+      );
+    }
+
+    const samplingSeed = generateSeed();
+    const questions = await selectQuestionsForStage(
+      manager,
+      stageId,
+      openQuestions ?? stage.openQuestions,
+      closedQuestions ?? stage.closedQuestions,
+      createSeededRandom(samplingSeed)
+    );
+
+    if (questions.length === 0) {
+      throw new AttemptError(
+        `No questions available for stage ${stageId}. Please generate questions first.`,
+        400,
+        'NO_QUESTIONS'
+      );
+    }
+
+    // Attempts never run past the end of the stage's availability window
+    const startTime = new Date();
+    const deadline = new Date(Math.min(
+      startTime.getTime() + getStageTimeLimitSeconds(stage) * 1000,
+      stage.availableUntil ? new Date(stage.availableUntil).getTime() : Infinity
+    ));
+    const attempt = attemptRepository.create({
+      attemptId: uuidv4(),
+      userId,
+      stageId,
+      startTime,
+      deadline,
+      questionIds: questions.map(q => q.id),
+      samplingSeed,
+      status: 'in_progress',
+      isCompleted: false
+    });
+
+    return {
+      attempt: await attemptRepository.save(attempt),
+      questions,
+      resumed: false
+    };
+  });
+};
+
+/**
+ * Whether a submission for an attempt that is no longer open repeats the one that
+ * closed it. Without keys on both sides the attempt ID alone identifies the submission;
+ * a different Idempotency-Key means a new submission, which is too late.
+ */
+export const isRepeatedSubmission = (attempt: EvaluationAttempt, submissionKey: string | null): boolean => {
+  if (!['submitted', 'grading', 'graded', 'grading_failed'].includes(attempt.status)) {
+    return false;
+  }
+  return !submissionKey || !attempt.submissionKey || attempt.submissionKey === submissionKey;
+};
+
+/**
+ * Loads an attempt owned by the user that still accepts answers. Attempts found past
+ * their deadline are closed as expired before the error is raised.
+ */
+export const getOpenAttempt = async (userId: number, attemptId: string): Promise<EvaluationAttempt> => {
+  const attemptRepository = AppDataSource.getRepository(EvaluationAttempt);
+  const attempt = await attemptRepository.findOne({ where: { attemptId, userId } });
+
+  if (!attempt) {
+    throw new AttemptError('Attempt not found', 404, 'ATTEMPT_NOT_FOUND');
+  }
+  if (attempt.status !== 'in_progress') {
+    throw new AttemptError('Attempt is already closed', 409, 'ATTEMPT_CLOSED');
+  }
+  if (isAttemptPastDeadline(attempt)) {
+    await expireAttempt(AppDataSource.manager, attempt);
+    throw new AttemptError('The time limit for this attempt has passed', 410, 'ATTEMPT_EXPIRED');
+  }
+
+  return attempt;
+};
+
+/**
+ * Returns the responses saved so far for an attempt, drafts included.
+ */
+export const getAttemptResponses = async (manager: EntityManager, attempt: EvaluationAttempt): Promise<UserResponse[]> => {
+  return manager.getRepository(UserResponse).find({
+    where: { attempt: { id: attempt.id } },
+    relations: ['question']
+  });
+};
+
+/**
+ * Saves (or overwrites) the draft answer to one question of an open attempt.
+ * Drafts are ungraded: `isCorrect` stays null until the attempt is submitted.
+ */
+export const saveDraftResponse = async (
+  userId: number,
+  attemptId: string,
+  questionId: number,
+  answer: string
+): Promise<UserResponse> => {
+  const attempt = await getOpenAttempt(userId, attemptId);
+
+  if (!(attempt.questionIds || []).includes(questionId)) {
+    throw new AttemptError(`Question ${questionId} is not part of this attempt`, 400, 'INVALID_QUESTION');
+  }
+
+  const responseRepository = AppDataSource.getRepository(UserResponse);
+  const existing = await responseRepository.findOne({
+    where: { attempt: { id: attempt.id }, question: { id: questionId } }
+  });
+
+  if (existing) {
+    existing.response = answer;
+    return responseRepository.save(existing);
+  }
+
+  const draft = responseRepository.create({
+    attempt,
+    question: { id: questionId } as Question,
+    user: { id: userId } as User,
+    response: answer,
+    isCorrect: null,
+    pointsEarned: 0,
+    gradingStatus: 'pending'
+  });
+  return responseRepository.save(draft);
+};
+
+/**
+ * Finds the user's running attempt (optionally for one stage) so it can be resumed
+ * on any device, together with its frozen questions and saved answers.
+ */
+export const getResumableAttempt = async (
+  userId: number,
+  stageId?: number
+): Promise<{ attempt: EvaluationAttempt; questions: Question[]; responses: UserResponse[] } | null> => {
+  const attemptRepository = AppDataSource.getRepository(EvaluationAttempt);
+  const openAttempts = await attemptRepository.find({
+    where: stageId ? { userId, stageId, status: 'in_progress' } : { userId, status: 'in_progress' },
+    order: { startTime: 'DESC' }
+  });
+
+  for (const attempt of openAttempts) {
+    if (isAttemptPastDeadline(attempt)) {
+      await expireAttempt(AppDataSource.manager, attempt);
+      continue;
+    }
+
+    return {
+      attempt,
+      questions: await getAttemptQuestions(AppDataSource.manager, attempt),
+      responses: await getAttemptResponses(AppDataSource.manager, attempt)
+    };
+  }
+
+  return null;
+};
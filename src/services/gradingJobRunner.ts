@@ -0,0 +1,132 @@
+import { EntityManager } from 'typeorm';
+import { AppDataSource } from '../config/database-minimal';
+import { GradingJob } from '../entities/GradingJob';
+import { gradeAttempt, markGradingFailed } from './gradingService';
+
+const POLL_INTERVAL_MS = 5000;
+// A job whose lock has not been renewed for this long is assumed to belong to a crashed worker
+const STALE_LOCK_MS = 10 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 15000;
+
+let pollTimer: NodeJS.Timeout | null = null;
+let isProcessing = false;
+
+/**
+ * Queues the grading of a submitted attempt. Pass the transaction's manager so the
+ * job is only visible once the submission commits.
+ */
+export const enqueueGradingJob = async (manager: EntityManager, attemptId: number): Promise<GradingJob> => {
+  const jobRepository = manager.getRepository(GradingJob);
+  return jobRepository.save(jobRepository.create({
+    attemptId,
+    status: 'pending',
+    runAfter: new Date()
+  }));
+};
+
+// Atomically takes the next due job so several server instances never grade the same attempt
+const claimNextJob = async (): Promise<GradingJob | null> => {
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+  const [rows] = await AppDataSource.query(
+    `UPDATE grading_jobs
+        SET status = 'running', locked_at = NOW(), attempts = attempts + 1, updated_at = NOW()
+      WHERE id = (
+        SELECT id FROM grading_jobs
+         WHERE (status = 'pending' AND run_after <= NOW())
+            OR (status = 'running' AND locked_at < $1)
+         ORDER BY run_after ASC
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id`,
+    [staleBefore]
+  );
+
+  if (!rows || rows.length === 0) {
+    return null;
+  }
+  return AppDataSource.getRepository(GradingJob).findOne({ where: { id: rows[0].id } });
+};
+
+const runJob = async (job: GradingJob): Promise<void> => {
+  const jobRepository = AppDataSource.getRepository(GradingJob);
+
+  try {
+    // Each graded answer renews the lock, so a long attempt is never taken for a crashed worker
+    await gradeAttempt(job.attemptId, async () => {
+      await jobRepository.update(job.id, { lockedAt: new Date() });
+    });
+    job.status = 'completed';
+    job.lastError = null;
+    console.log(`✅ Attempt ${job.attemptId} graded (job ${job.id})`);
+  } catch (error) {
+    job.lastError = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts >= job.maxAttempts) {
+      job.status = 'failed';
+      await markGradingFailed(job.attemptId);
+      console.error(`❌ Grading job ${job.id} for attempt ${job.attemptId} failed permanently:`, job.lastError);
+    } else {
+      // Exponential backoff between retries
+      job.status = 'pending';
+      job.runAfter = new Date(Date.now() + BASE_RETRY_DELAY_MS * 2 ** (job.attempts - 1));
+      console.warn(`⚠️ Grading job ${job.id} will be retried (${job.attempts}/${job.maxAttempts}):`, job.lastError);
+    }
+  }
+
+  job.lockedAt = null;
+  await jobRepository.save(job);
+};
+
+/**
+ * Processes every due grading job. Concurrent calls in the same process are coalesced.
+ */
+export const processPendingGradingJobs = async (): Promise<void> => {
+  if (isProcessing || !AppDataSource.isInitialized) {
+    return;
+  }
+
+  isProcessing = true;
+  try {
+    let job = await claimNextJob();
+    while (job) {
+      await runJob(job);
+      job = await claimNextJob();
+    }
+  } catch (error) {
+    console.error('Error processing grading jobs:', error);
+  } finally {
+    isProcessing = false;
+  }
+};
+
+/**
+ * Wakes the worker right away instead of waiting for the next poll.
+ */
+export const triggerGradingWorker = (): void => {
+  setImmediate(() => {
+    processPendingGradingJobs().catch(error => console.error('Error running grading worker:', error));
+  });
+};
+
+/**
+ * Starts polling for grading jobs. Called once the database connection is ready.
+ */
+export const startGradingWorker = (): void => {
+  if (pollTimer) {
+    return;
+  }
+  pollTimer = setInterval(triggerGradingWorker, POLL_INTERVAL_MS);
+  triggerGradingWorker();
+  console.log('🧮 Grading worker started');
+};
+
+/**
+ * Stops polling for grading jobs.
+ */
+export const stopGradingWorker = (): void => {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+};
@@ -0,0 +1,417 @@
+import { EntityManager, In } from 'typeorm';
+import { AppDataSource } from '../config/database-minimal';
+import { EvaluationAttempt } from '../entities/EvaluationAttempt';
+import { Feedback } from '../entities/Feedback';
+import { Question } from '../entities/Question';
+import { Stage } from '../entities/Stage';
+import { User } from '../entities/User';
+import { RubricCriterionScore, UserResponse } from '../entities/UserResponse';
+import { UserStage } from '../entities/UserStage';
+import { openRouterService } from './openRouterService';
+import { describeAnswer, describeCorrectAnswer, gradeAutoAnswer } from './questionTypes';
+import { pointsForCredit } from './rubricService';
+import { getScoringPolicy, hasPassedStage, isPassingScore, scoreResponses } from './scoringService';
+import { loadLearnerProgress } from './trackService';
+
+/**
+ * Raised when some answers of an attempt could not be graded in this run.
+ * The job runner retries the attempt later; graded answers are kept.
+ */
+export class GradingIncompleteError extends Error {
+  constructor(public readonly attemptId: number, public readonly pendingCount: number) {
+    super(`${pendingCount} answer(s) of attempt ${attemptId} could not be graded`);
+    this.name = 'GradingIncompleteError';
+  }
+}
+
+// AI grades below this confidence are queued for human review
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/**
+ * Grades every pending answer of an attempt. Each result is persisted as soon as it
+ * is known, so a retry only re-grades the answers that failed. `onProgress` runs after
+ * each answer, e.g. to tell the job runner the worker is still alive.
+ */
+export const gradePendingResponses = async (
+  attemptId: number,
+  onProgress?: () => Promise<void>
+): Promise<void> => {
+  const attempt = await AppDataSource.getRepository(EvaluationAttempt).findOneOrFail({ where: { id: attemptId } });
+  const responseRepository = AppDataSource.getRepository(UserResponse);
+  const pendingResponses = await responseRepository.find({
+    where: { attempt: { id: attemptId }, gradingStatus: 'pending' },
+    relations: ['question']
+  });
+
+  let failedCount = 0;
+  for (const userResponse of pendingResponses) {
+    const question = userResponse.question;
+    const closedGrade = gradeAutoAnswer(question, userResponse.response, attempt.samplingSeed);
+    let isCorrect = closedGrade?.isCorrect ?? false;
+    let credit = closedGrade?.credit ?? 0;
+    let breakdown: RubricCriterionScore[] | null = null;
+    let confidence: number | null = null;
+    let explanation: string | null = null;
+
+    if (!closedGrade) {
+      try {
+        const aiEvaluation = await openRouterService.getInstance().evaluateOpenQuestion(
+          question.questionText,
+          userResponse.response,
+          question.category || 'General',
+          question.difficulty || 'intermediate',
+          question.rubric,
+          question.attachments
+        );
+        isCorrect = aiEvaluation.isCorrect;
+        credit = aiEvaluation.credit;
+        breakdown = aiEvaluation.breakdown;
+        confidence = aiEvaluation.confidence;
+        explanation = aiEvaluation.explanation || null;
+      } catch (error) {
+        console.error(`Error evaluating response ${userResponse.id} with AI:`, error);
+        failedCount++;
+        await onProgress?.();
+        continue;
+      }
+    }
+
+    userResponse.isCorrect = isCorrect;
+    userResponse.pointsEarned = pointsForCredit(question.points, credit);
+    userResponse.rubricBreakdown = breakdown;
+    userResponse.gradingConfidence = confidence;
+    userResponse.gradingExplanation = explanation;
+    userResponse.gradingStatus = 'graded';
+    // The grade still counts; a reviewer can confirm or override it later
+    if (confidence !== null && confidence < LOW_CONFIDENCE_THRESHOLD) {
+      userResponse.reviewStatus = 'pending';
+      userResponse.reviewReason = 'low_confidence';
+    }
+    await responseRepository.save(userResponse);
+    await onProgress?.();
+  }
+
+  if (failedCount > 0) {
+    throw new GradingIncompleteError(attemptId, failedCount);
+  }
+};
+
+// Questions of the attempt's frozen set the learner submitted no response for
+const findUnansweredQuestions = async (
+  manager: EntityManager,
+  attempt: EvaluationAttempt,
+  responses: UserResponse[]
+): Promise<Question[]> => {
+  const answered = new Set(responses.map(r => r.question.id));
+  const missing = (attempt.questionIds || []).filter(id => !answered.has(id));
+  return missing.length > 0 ? manager.getRepository(Question).find({ where: { id: In(missing) } }) : [];
+};
+
+// Sum of the best scores of every completed stage
+const computeGlobalScore = async (manager: EntityManager, userId: number): Promise<number> => {
+  const totalScore = await manager.getRepository(UserStage)
+    .createQueryBuilder('userStage')
+    .select('SUM(userStage.score)', 'total')
+    .where('userStage.userId = :userId', { userId })
+    .andWhere('userStage.isCompleted = :isCompleted', { isCompleted: true })
+    .getRawOne();
+  return Number(totalScore?.total) || 0;
+};
+
+/**
+ * The stage a learner should take next: the current stage of the first enrolled track
+ * where it is unlocked, otherwise the first unlocked stage they have not passed. Null
+ * when nothing is left to take.
+ */
+const findNextStageId = async (manager: EntityManager, userId: number): Promise<number | null> => {
+  const progress = await loadLearnerProgress(manager, userId);
+  const isAvailable = (stageId: number | null): stageId is number =>
+    stageId !== null && Boolean(progress.isUnlocked.get(stageId));
+
+  const trackStageId = progress.tracks.find(t => t.isEnrolled && isAvailable(t.currentStageId))?.currentStageId;
+  if (trackStageId) {
+    return trackStageId;
+  }
+
+  const userStageById = new Map(progress.userStages.map(us => [us.stageId, us]));
+  return progress.stages.find(s =>
+    s.isActive && isAvailable(s.id) && !hasPassedStage(userStageById.get(s.id), s)
+  )?.id ?? null;
+};
+
+/**
+ * Recomputes the user's progress on a stage and their global score after a graded attempt.
+ */
+export const updateUserProgress = async (
+  manager: EntityManager,
+  userId: number,
+  stage: Stage,
+  finalScore: number
+): Promise<UserStage> => {
+  const userStageRepository = manager.getRepository(UserStage);
+
+  // Check if user has already completed this stage
+  let userStage = await userStageRepository.findOne({
+    where: { userId, stageId: stage.id }
+  });
+
+  const passed = isPassingScore(finalScore, getScoringPolicy(stage));
+
+  if (!userStage) {
+    // Create new user stage record
+    userStage = userStageRepository.create({
+      userId,
+      stageId: stage.id,
+      isCompleted: passed,
+      score: finalScore,
+      completedAt: passed ? new Date() : null
+    });
+  } else {
+    // Update existing record if new score is better
+    if (passed && !userStage.isCompleted) {
+      userStage.isCompleted = true;
+      userStage.completedAt = new Date();
+    }
+    if (finalScore > (userStage.score || 0)) {
+      userStage.score = finalScore;
+    }
+  }
+
+  await userStageRepository.save(userStage);
+
+  // Update user's global score and current stage
+  const userRepository = manager.getRepository(User);
+  const currentUser = await userRepository.findOne({ where: { id: userId } });
+
+  if (currentUser) {
+    currentUser.globalScore = await computeGlobalScore(manager, userId);
+
+    // Move the learner on to a stage the pass has just made available
+    if (userStage.isCompleted) {
+      const nextStageId = await findNextStageId(manager, userId);
+      if (nextStageId !== null) {
+        currentUser.currentStageId = nextStageId;
+      }
+    }
+
+    await userRepository.save(currentUser);
+  }
+
+  return userStage;
+};
+
+// Lowest score of each badge, the same bands the AI is asked to use
+const BADGE_BANDS: [number, string][] = [
+  [96, 'QA Master'],
+  [81, 'QA Expert'],
+  [61, 'QA Practitioner'],
+  [41, 'QA Apprentice']
+];
+
+// Feedback used when the AI feedback cannot be generated
+const buildDefaultFeedback = (score: number) => ({
+  strengths: [],
+  improvements: [],
+  nextSteps: 'Revisa las respuestas de la evaluación y repasa los conceptos en los que fallaste.',
+  detailedFeedback: `Obtuviste ${score}% en esta evaluación. El análisis detallado no está disponible en este momento.`,
+  badge: BADGE_BANDS.find(([minScore]) => score >= minScore)?.[1] ?? 'QA Novice'
+});
+
+/**
+ * Scores a fully graded attempt, generates the AI feedback and updates the learner's
+ * progress. The AI call happens before the transaction so no connection is held open
+ * while waiting on it; if it fails, default feedback is saved instead. Safe to call
+ * again for an attempt that is already graded.
+ */
+export const finalizeAttempt = async (attemptId: number): Promise<Feedback> => {
+  const attempt = await AppDataSource.getRepository(EvaluationAttempt).findOne({
+    where: { id: attemptId },
+    relations: ['stage', 'user']
+  });
+  if (!attempt) {
+    throw new Error(`Attempt ${attemptId} not found`);
+  }
+
+  const existingFeedback = await AppDataSource.getRepository(Feedback).findOne({ where: { attemptId } });
+  if (attempt.status === 'graded' && existingFeedback) {
+    return existingFeedback;
+  }
+
+  const responses = await AppDataSource.getRepository(UserResponse).find({
+    where: { attempt: { id: attemptId } },
+    relations: ['question']
+  });
+
+  const pending = responses.filter(r => r.gradingStatus !== 'graded');
+  if (pending.length > 0) {
+    throw new GradingIncompleteError(attemptId, pending.length);
+  }
+
+  // Keep the order the questions were served in
+  const order = new Map((attempt.questionIds || []).map((id, index) => [id, index]));
+  responses.sort((a, b) => (order.get(a.question.id) ?? 0) - (order.get(b.question.id) ?? 0));
+
+  const unanswered = await findUnansweredQuestions(AppDataSource.manager, attempt, responses);
+  const { score: finalScore, correctCount, totalQuestions } = scoreResponses(
+    responses,
+    getScoringPolicy(attempt.stage),
+    unanswered
+  );
+
+  const userResponsesWithDetails = responses.map(r => ({
+    ...r,
+    question: r.question.questionText,
+    correctAnswer: describeCorrectAnswer(r.question) ?? r.question.correctAnswer,
+    userSelectedOption: describeAnswer(r.question, r.response, attempt.samplingSeed),
+    type: r.question.type,
+    options: r.question.options
+  }));
+
+  // Generate AI feedback; the grades are final either way, so an AI failure must not fail the attempt
+  let aiFeedback: any;
+  try {
+    aiFeedback = await openRouterService.getInstance().generateFeedback(
+      userResponsesWithDetails,
+      responses.map(r => r.question),
+      finalScore,
+      totalQuestions,
+      correctCount,
+      attempt.stage.title
+    );
+  } catch (error) {
+    console.error(`Error generating AI feedback for attempt ${attemptId}, using default feedback:`, error);
+    aiFeedback = buildDefaultFeedback(finalScore);
+  }
+
+  return AppDataSource.transaction(async manager => {
+    // Locked so a job reclaimed from a slow worker cannot finalize the attempt a second time
+    const locked = await manager.getRepository(EvaluationAttempt).findOneOrFail({
+      where: { id: attemptId },
+      lock: { mode: 'pessimistic_write' }
+    });
+    const feedbackRepository = manager.getRepository(Feedback);
+    const currentFeedback = await feedbackRepository.findOne({ where: { attemptId } });
+    if (locked.status === 'graded' && currentFeedback) {
+      return currentFeedback;
+    }
+
+    const feedbackData = {
+      score: finalScore,
+      totalQuestions,
+      correctAnswers: correctCount,
+      strengths: aiFeedback.strengths || [],
+      improvements: aiFeedback.improvements || [],
+      nextSteps: aiFeedback.nextSteps || '',
+      detailedFeedback: aiFeedback.detailedFeedback || '',
+      badge: aiFeedback.badge || 'QA Novice'
+    };
+
+    const feedback = currentFeedback
+      ? Object.assign(currentFeedback, feedbackData)
+      : feedbackRepository.create({
+          attempt,
+          user: attempt.user,
+          stage: attempt.stage,
+          ...feedbackData
+        });
+    const savedFeedback = await feedbackRepository.save(feedback);
+
+    // Update attempt with final score
+    await manager.getRepository(EvaluationAttempt).update(attempt.id, {
+      score: finalScore,
+      status: 'graded'
+    });
+
+    await updateUserProgress(manager, attempt.userId, attempt.stage, finalScore);
+
+    return savedFeedback;
+  });
+};
+
+/**
+ * Rebuilds a learner's progress on a stage from all their scored attempts. Unlike
+ * `updateUserProgress`, scores can go down, e.g. after a reviewer lowers a grade.
+ */
+export const recomputeUserProgress = async (manager: EntityManager, userId: number, stage: Stage): Promise<UserStage | null> => {
+  const userStageRepository = manager.getRepository(UserStage);
+
+  const best = await manager.getRepository(EvaluationAttempt)
+    .createQueryBuilder('attempt')
+    .select('MAX(attempt.score)', 'best')
+    .where('attempt.userId = :userId', { userId })
+    .andWhere('attempt.stageId = :stageId', { stageId: stage.id })
+    .andWhere('attempt.score IS NOT NULL')
+    .getRawOne();
+  const bestScore = best?.best === null || best?.best === undefined ? null : Number(best.best);
+
+  let userStage = await userStageRepository.findOne({ where: { userId, stageId: stage.id } });
+  if (!userStage && bestScore === null) {
+    return null;
+  }
+  if (!userStage) {
+    userStage = userStageRepository.create({ userId, stageId: stage.id });
+  }
+
+  const passed = isPassingScore(bestScore, getScoringPolicy(stage));
+  userStage.score = bestScore;
+  userStage.completedAt = passed ? userStage.completedAt || new Date() : null;
+  userStage.isCompleted = passed;
+  await userStageRepository.save(userStage);
+
+  await manager.getRepository(User).update(userId, { globalScore: await computeGlobalScore(manager, userId) });
+  return userStage;
+};
+
+/**
+ * Re-scores a graded attempt after one of its answers changed, keeping the attempt,
+ * its feedback and the learner's progress in line. The AI-written feedback text is kept.
+ */
+export const rescoreAttempt = async (manager: EntityManager, attemptId: number): Promise<EvaluationAttempt> => {
+  const attemptRepository = manager.getRepository(EvaluationAttempt);
+  const attempt = await attemptRepository.findOneOrFail({ where: { id: attemptId }, relations: ['stage'] });
+
+  const responses = await manager.getRepository(UserResponse).find({
+    where: { attempt: { id: attemptId } },
+    relations: ['question']
+  });
+  const { score, correctCount, totalQuestions } = scoreResponses(
+    responses,
+    getScoringPolicy(attempt.stage),
+    await findUnansweredQuestions(manager, attempt, responses)
+  );
+
+  await attemptRepository.update(attempt.id, { score });
+  await manager.getRepository(Feedback).update(
+    { attemptId: attempt.id },
+    { score, correctAnswers: correctCount, totalQuestions }
+  );
+  await recomputeUserProgress(manager, attempt.userId, attempt.stage);
+
+  attempt.score = score;
+  return attempt;
+};
+
+/**
+ * Full grading pipeline for a submitted attempt: grade pending answers, then finalize.
+ */
+export const gradeAttempt = async (attemptId: number, onProgress?: () => Promise<void>): Promise<Feedback> => {
+  await gradePendingResponses(attemptId, onProgress);
+  return finalizeAttempt(attemptId);
+};
+
+/**
+ * Marks an attempt whose grading exhausted its retries. Ungraded answers are flagged
+ * as failed and queued for human review instead of being counted as incorrect.
+ */
+export const markGradingFailed = async (attemptId: number): Promise<void> => {
+  await AppDataSource.transaction(async manager => {
+    await manager.getRepository(UserResponse)
+      .createQueryBuilder()
+      .update()
+      .set({ gradingStatus: 'failed', reviewStatus: 'pending', reviewReason: 'grading_failed' })
+      .where('attempt_id = :attemptId', { attemptId })
+      .andWhere('grading_status = :status', { status: 'pending' })
+      .execute();
+    await manager.getRepository(EvaluationAttempt).update(attemptId, { status: 'grading_failed' });
+  });
+};
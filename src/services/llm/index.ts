@@ -0,0 +1,95 @@
+import { MockProvider } from './mockProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { OpenRouterProvider } from './openRouterProvider';
+import { CompletionOptions, LLMProvider, LLMTask } from './types';
+
+export * from './types';
+
+export type ProviderName = 'openrouter' | 'openai-compatible' | 'mock';
+
+const PROVIDER_NAMES: ProviderName[] = ['openrouter', 'openai-compatible', 'mock'];
+
+const DEFAULT_OPTIONS: CompletionOptions = {
+  model: 'anthropic/claude-3.5-sonnet',
+  maxTokens: 4000,
+  temperature: 0.7,
+  timeoutMs: 90000, // 90 seconds timeout
+};
+
+// Environment variable prefix for each task, e.g. LLM_GRADING_MODEL
+const TASK_ENV_PREFIX: Record<LLMTask, string> = {
+  questionGeneration: 'LLM_QUESTION_GENERATION',
+  grading: 'LLM_GRADING',
+  feedback: 'LLM_FEEDBACK',
+  analytics: 'LLM_ANALYTICS',
+  general: 'LLM',
+};
+
+const providers = new Map<ProviderName, LLMProvider>();
+
+const readNumber = (value: string | undefined): number | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const parseProviderName = (value: string | undefined): ProviderName | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const name = value.toLowerCase() as ProviderName;
+  if (!PROVIDER_NAMES.includes(name)) {
+    throw new Error(`Unknown LLM provider "${value}". Expected one of: ${PROVIDER_NAMES.join(', ')}`);
+  }
+  return name;
+};
+
+const createProvider = (name: ProviderName): LLMProvider => {
+  switch (name) {
+    case 'openrouter':
+      return new OpenRouterProvider();
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider({
+        name: 'OpenAI-compatible',
+        baseUrl: process.env.LLM_OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.LLM_OPENAI_API_KEY,
+      });
+    case 'mock':
+      return new MockProvider();
+  }
+};
+
+/**
+ * Returns the (cached) provider instance for a name.
+ */
+export const getProvider = (name: ProviderName): LLMProvider => {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+};
+
+/**
+ * Resolves which provider and completion options a task uses. Task-specific variables
+ * (`LLM_<TASK>_PROVIDER`, `_MODEL`, `_MAX_TOKENS`, `_TEMPERATURE`, `_TIMEOUT_MS`) override
+ * the global `LLM_*` ones. Test runs default to the mock provider.
+ */
+export const resolveTaskConfig = (task: LLMTask): { providerName: ProviderName; options: CompletionOptions } => {
+  const env = process.env;
+  const prefix = TASK_ENV_PREFIX[task];
+  const fallbackProvider: ProviderName = env.NODE_ENV === 'test' ? 'mock' : 'openrouter';
+
+  return {
+    providerName: parseProviderName(env[`${prefix}_PROVIDER`]) || parseProviderName(env.LLM_PROVIDER) || fallbackProvider,
+    options: {
+      model: env[`${prefix}_MODEL`] || env.LLM_MODEL || DEFAULT_OPTIONS.model,
+      maxTokens: readNumber(env[`${prefix}_MAX_TOKENS`]) ?? readNumber(env.LLM_MAX_TOKENS) ?? DEFAULT_OPTIONS.maxTokens,
+      temperature: readNumber(env[`${prefix}_TEMPERATURE`]) ?? readNumber(env.LLM_TEMPERATURE) ?? DEFAULT_OPTIONS.temperature,
+      timeoutMs: readNumber(env[`${prefix}_TIMEOUT_MS`]) ?? readNumber(env.LLM_TIMEOUT_MS) ?? DEFAULT_OPTIONS.timeoutMs,
+    },
+  };
+};
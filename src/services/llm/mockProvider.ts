@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CompletionRequest, LLMMessage, LLMProvider, LLMTask } from './types';
+
+type Fixture = string | ((messages: LLMMessage[]) => string);
+
+const lastUserMessage = (messages: LLMMessage[]): string =>
+  [...messages].reverse().find(m => m.role === 'user')?.content || '';
+
+const extract = (text: string, pattern: RegExp, fallback: string): string =>
+  text.match(pattern)?.[1]?.trim() || fallback;
+
+// Builds exactly the number of questions the prompt asks for
+const questionGenerationFixture = (messages: LLMMessage[]): string => {
+  const prompt = lastUserMessage(messages);
+  if (prompt.startsWith('Redacta una rúbrica')) {
+    return rubricDraftFixture();
+  }
+  const topic = extract(prompt, /evaluar:\s*(.+)/, 'QA');
+  const difficulty = extract(prompt, /Dificultad:\s*(.+)/, 'intermediate');
+  const openCount = parseInt(extract(prompt, /Preguntas abiertas:\s*(\d+)/, '0'));
+  const closedCount = parseInt(extract(prompt, /Preguntas cerradas:\s*(\d+)/, '0'));
+  const closedTypes = extract(prompt, /Tipos de preguntas cerradas:\s*(.+)/, 'multiple-choice').split(',').map(t => t.trim());
+
+  const questions = [];
+  for (let i = 1; i <= openCount; i++) {
+    questions.push({
+      type: 'open-text',
+      questionText: `[mock] Explica el concepto ${i} de ${topic}.`,
+      category: `Concepto ${i}`,
+      points: 2,
+      difficulty
+    });
+  }
+  // Closed questions cycle through the requested types
+  for (let i = 1; i <= closedCount; i++) {
+    const type = closedTypes[(i - 1) % closedTypes.length];
+    const options = ['Opción A', 'Opción B', 'Opción C', 'Opción D'].map(o => `${o} (${i})`);
+    const base = { type, category: `Concepto ${i}`, difficulty };
+    if (type === 'multi-select') {
+      questions.push({ ...base, questionText: `[mock] ¿Qué afirmaciones ${i} sobre ${topic} son correctas?`, options, correctAnswers: [options[0], options[2]], points: 2 });
+    } else if (type === 'true-false') {
+      questions.push({ ...base, questionText: `[mock] La afirmación ${i} sobre ${topic} es verdadera.`, correctAnswer: i % 2 === 1 ? 'true' : 'false', points: 1 });
+    } else if (type === 'ordering') {
+      questions.push({ ...base, questionText: `[mock] Ordena los pasos ${i} de ${topic}.`, options: ['Paso 1', 'Paso 2', 'Paso 3', 'Paso 4'].map(o => `${o} (${i})`), points: 2 });
+    } else if (type === 'matching') {
+      questions.push({
+        ...base,
+        questionText: `[mock] Relaciona los términos ${i} de ${topic}.`,
+        options: ['Término 1', 'Término 2', 'Término 3'].map(o => `${o} (${i})`),
+        matchTargets: ['Definición 1', 'Definición 2', 'Definición 3'].map(o => `${o} (${i})`),
+        points: 2
+      });
+    } else {
+      questions.push({
+        ...base,
+        type: 'multiple-choice',
+        questionText: `[mock] ¿Cuál es la afirmación correcta ${i} sobre ${topic}?`,
+        options,
+        correctAnswer: options[(i - 1) % options.length],
+        points: 1
+      });
+    }
+  }
+
+  return JSON.stringify({ questions });
+};
+
+// Drafts a fixed two-criterion rubric when asked for one instead of questions
+const rubricDraftFixture = (): string =>
+  JSON.stringify({
+    rubric: [
+      { criterion: '[mock] Define el concepto correctamente', weight: 2 },
+      { criterion: '[mock] Incluye un ejemplo práctico', weight: 1 }
+    ]
+  });
+
+// Rubric criteria are met in order, one for every 40 characters of answer
+const rubricGradingFixture = (prompt: string, answer: string): string => {
+  const criteria = [...prompt.matchAll(/^\d+\. (.+) \(peso: [^)]+\)$/gm)].map(m => m[1]);
+  return JSON.stringify({
+    criteria: criteria.map((criterion, i) => ({
+      criterion,
+      score: answer.length >= 40 * (i + 1) ? 1 : 0,
+      justification: `[mock] ${answer.length >= 40 * (i + 1) ? 'Cumple' : 'No cumple'} el criterio.`
+    })),
+    explanation: '[mock] Evaluación con rúbrica.',
+    confidence: 0.9
+  });
+};
+
+// Answers with at least a sentence of content are accepted; borderline lengths get low confidence
+const gradingFixture = (messages: LLMMessage[]): string => {
+  const prompt = lastUserMessage(messages);
+  const answer = extract(prompt, /RESPUESTA DEL USUARIO:\s*([\s\S]*?)\n\n/, '');
+  if (prompt.includes('CRITERIOS DE LA RÚBRICA:')) {
+    return rubricGradingFixture(prompt, answer);
+  }
+  const isCorrect = answer.length >= 20;
+  return JSON.stringify({
+    isCorrect,
+    explanation: isCorrect
+      ? '[mock] La respuesta aborda la pregunta.'
+      : '[mock] La respuesta es demasiado breve para demostrar comprensión.',
+    confidence: answer.length >= 15 && answer.length < 30 ? 0.4 : 0.9
+  });
+};
+
+const DEFAULT_FIXTURES: Record<LLMTask, Fixture> = {
+  questionGeneration: questionGenerationFixture,
+  grading: gradingFixture,
+  feedback: JSON.stringify({
+    strengths: ['[mock] Buena comprensión de los conceptos básicos'],
+    improvements: ['[mock] Profundizar en casos prácticos'],
+    nextSteps: '[mock] Repasa el material de la etapa y vuelve a intentarlo.',
+    detailedFeedback: '[mock] Feedback generado por el proveedor simulado.',
+    badge: 'QA Practitioner'
+  }),
+  analytics: '## Análisis General del Progreso\n\n[mock] Feedback generado por el proveedor simulado.\n\n## Recomendaciones Específicas para Mejorar\n\n1. [mock] Practica regularmente.\n',
+  general: JSON.stringify({
+    topicsCovered: ['[mock] Fundamentos', '[mock] Buenas prácticas', '[mock] Herramientas'],
+    whatToExpect: '[mock] Preguntas abiertas y de opción múltiple.',
+    tipsForSuccess: ['[mock] Lee cada pregunta con atención', '[mock] Administra tu tiempo'],
+    evaluationDescription: '[mock] Evaluación generada por el proveedor simulado.'
+  })
+};
+
+/**
+ * Deterministic offline provider for tests and local development. Responses come
+ * from built-in fixtures, or from `<task>.json|.md|.txt` files in
+ * `LLM_MOCK_FIXTURES_DIR` when present.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'Mock';
+  private readonly fixturesDir: string | null;
+
+  constructor(fixturesDir: string | null = process.env.LLM_MOCK_FIXTURES_DIR || null) {
+    this.fixturesDir = fixturesDir ? path.resolve(fixturesDir) : null;
+  }
+
+  async generateCompletion(request: CompletionRequest): Promise<string> {
+    const fileFixture = this.readFixtureFile(request.task);
+    if (fileFixture !== null) {
+      return fileFixture;
+    }
+
+    const fixture = DEFAULT_FIXTURES[request.task] ?? DEFAULT_FIXTURES.general;
+    return typeof fixture === 'function' ? fixture(request.messages) : fixture;
+  }
+
+  private readFixtureFile(task: LLMTask): string | null {
+    if (!this.fixturesDir) {
+      return null;
+    }
+
+    for (const extension of ['json', 'md', 'txt']) {
+      const filePath = path.join(this.fixturesDir, `${task}.${extension}`);
+      if (fs.existsSync(filePath)) {
+        return fs.readFileSync(filePath, 'utf8');
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,70 @@
+import axios from 'axios';
+import { CompletionRequest, LLMProvider } from './types';
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  extraHeaders?: Record<string, string>;
+}
+
+/**
+ * Provider for any endpoint implementing the OpenAI `/chat/completions` API
+ * (OpenRouter, vLLM, Ollama, LM Studio, llama.cpp server...).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private readonly baseUrl: string;
+  private readonly apiKey: string;
+  private readonly extraHeaders: Record<string, string>;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name;
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey || '';
+    this.extraHeaders = config.extraHeaders || {};
+  }
+
+  async generateCompletion(request: CompletionRequest): Promise<string> {
+    try {
+      const response = await axios.post(
+        `${this.baseUrl}/chat/completions`,
+        {
+          model: request.model,
+          messages: request.messages,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+        },
+        {
+          headers: {
+            ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+            'Content-Type': 'application/json',
+            ...this.extraHeaders,
+          },
+          timeout: request.timeoutMs,
+        }
+      );
+
+      return response.data.choices[0].message.content;
+    } catch (error) {
+      console.error(`${this.name} API Error:`, error);
+
+      if (axios.isAxiosError(error)) {
+        if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
+          throw new Error('Request timeout: The AI service is taking too long to respond');
+        }
+        if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
+          throw new Error('Network error: Unable to connect to AI service');
+        }
+        if (error.response?.status === 401) {
+          throw new Error('Authentication error: Invalid API key');
+        }
+        if (error.response?.status === 429) {
+          throw new Error('Rate limit exceeded: Too many requests to AI service');
+        }
+      }
+
+      throw new Error('Failed to generate AI response');
+    }
+  }
+}
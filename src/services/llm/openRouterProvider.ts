@@ -0,0 +1,21 @@
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+/**
+ * Hosted models through OpenRouter. Requires `OPENROUTER_API_KEY`.
+ */
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  constructor() {
+    const apiKey = process.env.OPENROUTER_API_KEY;
+    if (!apiKey) {
+      console.warn('OPENROUTER_API_KEY is not defined. AI features will be disabled.');
+    }
+
+    super({
+      name: 'OpenRouter',
+      baseUrl: process.env.OPENROUTER_BASE_URL || OPENROUTER_BASE_URL,
+      apiKey: apiKey || '',
+    });
+  }
+}
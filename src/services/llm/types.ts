@@ -0,0 +1,30 @@
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * What the completion is used for. Each task can be routed to its own provider and model.
+ */
+export type LLMTask = 'questionGeneration' | 'grading' | 'feedback' | 'analytics' | 'general';
+
+export interface CompletionOptions {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  timeoutMs: number;
+}
+
+export interface CompletionRequest extends CompletionOptions {
+  task: LLMTask;
+  messages: LLMMessage[];
+}
+
+/**
+ * A backend able to produce chat completions. Implementations must throw an `Error`
+ * with a user-presentable message on failure.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  generateCompletion(request: CompletionRequest): Promise<string>;
+}
@@ -1,6 +1,26 @@
-import axios from 'axios';
 import * as dotenv from 'dotenv';
 import * as path from 'path';
+import { CompletionOptions, getProvider, LLMMessage, LLMTask, resolveTaskConfig } from './llm';
+import {
+  GeneratedQuestion,
+  GeneratedQuestionType,
+  GenerationRound,
+  parseModelJson,
+  QuestionGenerationError,
+  QuestionGenerationReport,
+  QuestionSetValidation,
+  validateGeneratedQuestionSet,
+  validateRubric
+} from './questionSchema';
+import { QuestionAttachment, RubricCriterion } from '../entities/Question';
+import {
+  OpenAnswerEvaluation,
+  parseConfidence,
+  parseRubricScores,
+  RUBRIC_CORRECT_THRESHOLD,
+  rubricCredit
+} from './rubricService';
+import { isAutoGradedType, normalizeQuestionType, QUESTION_TYPE_LABELS } from './questionTypes';
 
 // Load environment variables from .env file in development
 if (process.env.NODE_ENV !== 'production') {
@@ -8,26 +28,81 @@ if (process.env.NODE_ENV !== 'production') {
   dotenv.config({ path: envPath });
 }
 
-const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
-
-interface OpenRouterMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
+type OpenRouterMessage = LLMMessage;
+
+// Attachments go to the model as JSON so code indentation and HTTP headers arrive intact
+const attachmentsSection = (attachments: QuestionAttachment[] | null): string =>
+  attachments && attachments.length > 0
+    ? `ARTEFACTOS DE LA PREGUNTA (JSON):
+${JSON.stringify(attachments.map(({ kind, title, language, content }) => ({ kind, title, language, content })), null, 2)}
+`
+    : '';
+
+// Rule and JSON example the generation prompt gives for each closed question type
+const CLOSED_TYPE_FORMATS: Record<Exclude<GeneratedQuestionType, 'open-text' | 'artifact'>, { rule: string; example: string }> = {
+  'multiple-choice': {
+    rule: 'Opción múltiple ("multiple-choice"): exactamente 4 opciones y "correctAnswer" idéntico a una de ellas',
+    example: `{
+      "type": "multiple-choice",
+      "questionText": "Pregunta de opción múltiple aquí...",
+      "options": ["Opción A", "Opción B", "Opción C", "Opción D"],
+      "correctAnswer": "Opción A",
+      "category": "Categoría específica",
+      "points": 1
+    }`
+  },
+  'multi-select': {
+    rule: 'Selección múltiple ("multi-select"): de 3 a 8 opciones y "correctAnswers" con todas las opciones correctas, idénticas a las de "options"',
+    example: `{
+      "type": "multi-select",
+      "questionText": "¿Cuáles de las siguientes... ? (selecciona todas las correctas)",
+      "options": ["Opción A", "Opción B", "Opción C", "Opción D"],
+      "correctAnswers": ["Opción A", "Opción C"],
+      "category": "Categoría específica",
+      "points": 2
+    }`
+  },
+  'true-false': {
+    rule: 'Verdadero o falso ("true-false"): una afirmación y "correctAnswer" igual a "true" o "false"',
+    example: `{
+      "type": "true-false",
+      "questionText": "Afirmación a evaluar...",
+      "correctAnswer": "true",
+      "category": "Categoría específica",
+      "points": 1
+    }`
+  },
+  'ordering': {
+    rule: 'Ordenamiento ("ordering"): de 3 a 8 pasos en "options", escritos en el orden correcto',
+    example: `{
+      "type": "ordering",
+      "questionText": "Ordena las fases de...",
+      "options": ["Primer paso", "Segundo paso", "Tercer paso", "Cuarto paso"],
+      "category": "Categoría específica",
+      "points": 2
+    }`
+  },
+  'matching': {
+    rule: 'Emparejamiento ("matching"): de 3 a 8 elementos en "options" y la misma cantidad en "matchTargets", donde options[i] corresponde a matchTargets[i]',
+    example: `{
+      "type": "matching",
+      "questionText": "Relaciona cada tipo de prueba con su definición",
+      "options": ["Término 1", "Término 2", "Término 3"],
+      "matchTargets": ["Definición 1", "Definición 2", "Definición 3"],
+      "category": "Categoría específica",
+      "points": 2
+    }`
+  }
+};
 
+/**
+ * Prompt layer for every AI feature. Completions are delegated to the LLM provider
+ * configured for each task (see `services/llm`).
+ */
 class OpenRouterService {
   private static instance: OpenRouterService | null = null;
-  private readonly apiKey: string;
-
-  private constructor() {
-    const apiKey = process.env.OPENROUTER_API_KEY;
-    if (!apiKey) {
-      console.warn('OPENROUTER_API_KEY is not defined. AI features will be disabled.');
-      this.apiKey = '';
-    } else {
-      this.apiKey = apiKey;
-    }
-  }
+
+  private constructor() {}
 
   public static getInstance(): OpenRouterService {
     if (!OpenRouterService.instance) {
@@ -42,46 +117,18 @@ class OpenRouterService {
     return OpenRouterService.instance;
   }
 
-  async generateCompletion(messages: OpenRouterMessage[], model: string = 'anthropic/claude-3.5-sonnet'): Promise<string> {
-    try {
-      const response = await axios.post(
-        `${OPENROUTER_BASE_URL}/chat/completions`,
-        {
-          model,
-          messages,
-          max_tokens: 4000,
-          temperature: 0.7,
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-          timeout: 90000, // 90 seconds timeout
-        }
-      );
-
-      return response.data.choices[0].message.content;
-    } catch (error) {
-      console.error('OpenRouter API Error:', error);
-      
-      if (axios.isAxiosError(error)) {
-        if (error.code === 'ECONNABORTED' || error.message.includes('timeout')) {
-          throw new Error('Request timeout: The AI service is taking too long to respond');
-        }
-        if (error.code === 'ENOTFOUND' || error.code === 'ECONNREFUSED') {
-          throw new Error('Network error: Unable to connect to AI service');
-        }
-        if (error.response?.status === 401) {
-          throw new Error('Authentication error: Invalid API key');
-        }
-        if (error.response?.status === 429) {
-          throw new Error('Rate limit exceeded: Too many requests to AI service');
-        }
-      }
-      
-      throw new Error('Failed to generate AI response');
-    }
+  async generateCompletion(
+    messages: OpenRouterMessage[],
+    task: LLMTask = 'general',
+    overrides: Partial<CompletionOptions> = {}
+  ): Promise<string> {
+    const { providerName, options } = resolveTaskConfig(task);
+    return getProvider(providerName).generateCompletion({
+      ...options,
+      ...overrides,
+      task,
+      messages
+    });
   }
 
   async generateQuestions(
@@ -89,17 +136,24 @@ class OpenRouterService {
     difficulty: string, 
     openQuestions: number, 
     closedQuestions: number,
-    considerations?: string
-  ): Promise<any> {
+    considerations?: string,
+    closedTypes: GeneratedQuestionType[] = ['multiple-choice']
+  ): Promise<{ questions: GeneratedQuestion[]; report: QuestionGenerationReport }> {
+    const closedFormats = closedTypes
+      .filter((type): type is keyof typeof CLOSED_TYPE_FORMATS => type in CLOSED_TYPE_FORMATS)
+      .map(type => CLOSED_TYPE_FORMATS[type]);
+
     const systemPrompt = `Eres un experto en Quality Assurance (QA) y testing de software. Debes generar preguntas para evaluar conocimientos específicos en QA.
 
 INSTRUCCIONES IMPORTANTES:
-- Genera exactamente ${openQuestions} preguntas abiertas y ${closedQuestions} preguntas de opción múltiple
+- Genera exactamente ${openQuestions} preguntas abiertas y ${closedQuestions} preguntas cerradas
 - Las preguntas deben ser relevantes para el tema: "${stageTitle}"
 - Nivel de dificultad: ${difficulty}
 ${considerations ? `- Consideraciones específicas: ${considerations}` : ''}
-- Para preguntas de opción múltiple, incluye exactamente 4 opciones
+- Las preguntas cerradas pueden ser de estos tipos (repártelas entre ellos):
+${closedFormats.map(format => `  - ${format.rule}`).join('\n')}
 - Las preguntas abiertas deben permitir respuestas de 2-3 párrafos
+- Incluye "difficulty": "${difficulty}" en cada pregunta
 - Responde ÚNICAMENTE con un JSON válido, sin texto adicional
 
 FORMATO DE RESPUESTA (JSON):
@@ -112,22 +166,15 @@ FORMATO DE RESPUESTA (JSON):
       "points": 2,
       "difficulty": "${difficulty}"
     },
-    {
-      "type": "multiple-choice",
-      "questionText": "Pregunta de opción múltiple aquí...",
-      "options": ["Opción A", "Opción B", "Opción C", "Opción D"],
-      "correctAnswer": "Opción A",
-      "category": "Categoría específica",
-      "points": 1,
-      "difficulty": "${difficulty}"
-    }
+    ${closedFormats.map(format => format.example).join(',\n    ')}
   ]
 }`;
 
     const userPrompt = `Genera preguntas para evaluar: ${stageTitle}
 Dificultad: ${difficulty}
 Preguntas abiertas: ${openQuestions}
-Preguntas de opción múltiple: ${closedQuestions}
+Preguntas cerradas: ${closedQuestions}
+Tipos de preguntas cerradas: ${closedTypes.join(', ')}
 
 Las preguntas deben cubrir conceptos fundamentales, mejores prácticas, herramientas y metodologías de QA relevantes para este tema.`;
 
@@ -136,27 +183,97 @@ Las preguntas deben cubrir conceptos fundamentales, mejores prácticas, herramie
       { role: 'user', content: userPrompt }
     ];
 
-    const response = await this.generateCompletion(messages);
-    
+    const firstResponse = await this.generateCompletion(messages, 'questionGeneration');
+    const rounds: GenerationRound[] = [];
+    let result = this.checkGeneratedQuestions(firstResponse, openQuestions, closedQuestions, closedTypes, 1, rounds);
+
+    // One corrective re-prompt listing every violation
+    if (rounds[0].parseError || rounds[0].issues.length > 0 || rounds[0].countErrors.length > 0) {
+      const problems = [
+        ...(rounds[0].parseError ? [`- ${rounds[0].parseError}`] : []),
+        ...rounds[0].countErrors.map(error => `- ${error}`),
+        ...rounds[0].issues.map(issue => `- Pregunta ${issue.index + 1}: ${issue.errors.join('; ')}`)
+      ].join('\n');
+
+      const correctionPrompt = `Tu respuesta anterior no cumple las reglas:
+${problems}
+
+Corrige TODOS los problemas y responde de nuevo ÚNICAMENTE con el JSON completo: ${openQuestions} preguntas abiertas y ${closedQuestions} preguntas cerradas que cumplan estas reglas:
+${closedFormats.map(format => `- ${format.rule}`).join('\n')}`;
+
+      try {
+        const secondResponse = await this.generateCompletion([
+          ...messages,
+          { role: 'assistant', content: firstResponse },
+          { role: 'user', content: correctionPrompt }
+        ], 'questionGeneration');
+        const retry = this.checkGeneratedQuestions(secondResponse, openQuestions, closedQuestions, closedTypes, 2, rounds);
+        if (retry.valid.length >= result.valid.length) {
+          result = retry;
+        }
+      } catch (error) {
+        console.error('Corrective question generation prompt failed:', error);
+      }
+    }
+
+    const report: QuestionGenerationReport = {
+      requested: { open: openQuestions, closed: closedQuestions },
+      accepted: {
+        open: result.valid.filter(q => q.type === 'open-text').length,
+        closed: result.valid.filter(q => q.type !== 'open-text').length
+      },
+      repromptUsed: rounds.length > 1,
+      droppedCount: result.issues.length,
+      rounds
+    };
+
+    if (result.valid.length === 0) {
+      throw new QuestionGenerationError('Invalid AI response format', report);
+    }
+
+    return { questions: result.valid, report };
+  }
+
+  private checkGeneratedQuestions(
+    response: string,
+    openQuestions: number,
+    closedQuestions: number,
+    closedTypes: GeneratedQuestionType[],
+    round: number,
+    rounds: GenerationRound[]
+  ): QuestionSetValidation {
+    let parsed: any;
     try {
-      return JSON.parse(response);
+      parsed = parseModelJson(response);
     } catch (error) {
       console.error('Failed to parse AI response as JSON:', response);
-      throw new Error('Invalid AI response format');
+      rounds.push({ round, parseError: 'La respuesta no es un JSON válido', issues: [], countErrors: [] });
+      return { valid: [], issues: [], countErrors: [] };
     }
+
+    const validation = validateGeneratedQuestionSet(parsed, openQuestions, closedQuestions, closedTypes);
+    rounds.push({ round, parseError: null, issues: validation.issues, countErrors: validation.countErrors });
+    return validation;
   }
 
   async evaluateOpenQuestion(
     questionText: string,
     userAnswer: string,
     category: string,
-    difficulty: string
-  ): Promise<{ isCorrect: boolean; explanation: string }> {
+    difficulty: string,
+    rubric: RubricCriterion[] | null = null,
+    attachments: QuestionAttachment[] | null = null
+  ): Promise<OpenAnswerEvaluation> {
+    if (rubric && rubric.length > 0) {
+      return this.evaluateWithRubric(questionText, userAnswer, category, difficulty, rubric, attachments);
+    }
+
     const systemPrompt = `Eres un experto evaluador de Quality Assurance (QA) que evalúa respuestas a preguntas abiertas.
 
 INSTRUCCIONES:
 - Evalúa si la respuesta del usuario es correcta para la pregunta dada
 - Considera el contexto de QA y testing
+- Si la pregunta incluye artefactos (código, peticiones/respuestas HTTP o reportes de bug), evalúa la respuesta contra ese material concreto: casos de prueba aplicables, defectos realmente presentes o críticas fundamentadas
 - Una respuesta es correcta si demuestra comprensión del concepto
 - Sé más flexible con respuestas cortas pero coherentes
 - Responde ÚNICAMENTE con un JSON válido
@@ -168,11 +285,13 @@ CRITERIOS DE EVALUACIÓN:
 - Respuestas con ejemplos relevantes: CORRECTA
 - Respuestas cortas pero coherentes y que responden la pregunta: CORRECTA
 - Solo marcar como incorrecta si la respuesta es completamente irrelevante o sin sentido
+- Indica en "confidence" (0 a 1) qué tan seguro estás del veredicto; usa valores bajos si la respuesta es ambigua
 
 RESPONDE ÚNICAMENTE con un JSON válido:
 {
   "isCorrect": true/false,
-  "explanation": "Breve explicación de por qué es correcta o incorrecta"
+  "explanation": "Breve explicación de por qué es correcta o incorrecta",
+  "confidence": 0.9
 }`;
 
     const userPrompt = `Evalúa esta respuesta a una pregunta de QA:
@@ -180,7 +299,7 @@ RESPONDE ÚNICAMENTE con un JSON válido:
 PREGUNTA: ${questionText}
 CATEGORÍA: ${category}
 DIFICULTAD: ${difficulty}
-RESPUESTA DEL USUARIO: ${userAnswer}
+${attachmentsSection(attachments)}RESPUESTA DEL USUARIO: ${userAnswer}
 
 Determina si la respuesta es correcta basándote en los criterios establecidos.`;
 
@@ -189,15 +308,147 @@ Determina si la respuesta es correcta basándote en los criterios establecidos.`
       { role: 'user', content: userPrompt }
     ];
 
-    const response = await this.generateCompletion(messages);
+    const response = await this.generateCompletion(messages, 'grading');
     
     try {
-      return JSON.parse(response);
+      const parsedResponse = parseModelJson(response);
+
+      if (typeof parsedResponse.isCorrect !== 'boolean') {
+        throw new Error('Missing isCorrect in evaluation response');
+      }
+
+      return {
+        isCorrect: parsedResponse.isCorrect,
+        explanation: parsedResponse.explanation || '',
+        credit: parsedResponse.isCorrect ? 1 : 0,
+        breakdown: null,
+        confidence: parseConfidence(parsedResponse.confidence)
+      };
     } catch (error) {
       console.error('Failed to parse AI evaluation response as JSON:', response);
-      // Fallback: mark as incorrect if parsing fails
-      return { isCorrect: false, explanation: "Error evaluating response" };
+      // Let the caller retry instead of marking the answer as incorrect
+      throw new Error('Invalid AI evaluation response format');
+    }
+  }
+
+  // Scores each rubric criterion separately so the answer can earn partial credit
+  private async evaluateWithRubric(
+    questionText: string,
+    userAnswer: string,
+    category: string,
+    difficulty: string,
+    rubric: RubricCriterion[],
+    attachments: QuestionAttachment[] | null
+  ): Promise<OpenAnswerEvaluation> {
+    const systemPrompt = `Eres un experto evaluador de Quality Assurance (QA) que califica respuestas a preguntas abiertas usando una rúbrica.
+
+INSTRUCCIONES:
+- Evalúa la respuesta del usuario contra CADA criterio de la rúbrica, por separado
+- Asigna a cada criterio un puntaje entre 0 y 1 (0 = no lo cumple, 0.5 = lo cumple parcialmente, 1 = lo cumple por completo)
+- Justifica cada puntaje en una o dos frases, indicando qué falta cuando el puntaje es menor a 1
+- Si la pregunta incluye artefactos (código, peticiones/respuestas HTTP o reportes de bug), califica contra ese material concreto
+- No penalices la redacción si el concepto es correcto
+- Indica en "confidence" (0 a 1) qué tan seguro estás de la evaluación; usa valores bajos si la respuesta es ambigua
+- Responde ÚNICAMENTE con un JSON válido
+
+RESPONDE ÚNICAMENTE con un JSON válido:
+{
+  "criteria": [
+    { "criterion": "Texto exacto del criterio", "score": 0.5, "justification": "Por qué obtuvo este puntaje" }
+  ],
+  "explanation": "Resumen breve de la evaluación",
+  "confidence": 0.9
+}`;
+
+    const userPrompt = `Evalúa esta respuesta a una pregunta de QA:
+
+PREGUNTA: ${questionText}
+CATEGORÍA: ${category}
+DIFICULTAD: ${difficulty}
+${attachmentsSection(attachments)}RESPUESTA DEL USUARIO: ${userAnswer}
+
+CRITERIOS DE LA RÚBRICA:
+${rubric.map((c, idx) => `${idx + 1}. ${c.criterion} (peso: ${c.weight})`).join('\n')}
+
+Califica cada criterio en el mismo orden en que aparece.`;
+
+    const messages: OpenRouterMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ];
+
+    const response = await this.generateCompletion(messages, 'grading');
+
+    try {
+      const parsedResponse = parseModelJson(response);
+      const breakdown = parseRubricScores(parsedResponse.criteria, rubric);
+      const credit = rubricCredit(breakdown);
+
+      return {
+        isCorrect: credit >= RUBRIC_CORRECT_THRESHOLD,
+        explanation: parsedResponse.explanation || '',
+        credit,
+        breakdown,
+        confidence: parseConfidence(parsedResponse.confidence)
+      };
+    } catch (error) {
+      console.error('Failed to parse AI rubric evaluation response:', response);
+      // Let the caller retry instead of marking the answer as incorrect
+      throw new Error('Invalid AI evaluation response format');
+    }
+  }
+
+  /**
+   * Drafts a grading rubric for an open question. Admins review it before saving.
+   */
+  async generateRubric(
+    questionText: string,
+    category: string,
+    difficulty: string,
+    attachments: QuestionAttachment[] | null = null
+  ): Promise<RubricCriterion[]> {
+    const systemPrompt = `Eres un experto en Quality Assurance (QA) que diseña rúbricas para calificar respuestas abiertas.
+
+INSTRUCCIONES:
+- Redacta entre 2 y 5 criterios observables e independientes entre sí
+- Cada criterio describe un elemento que una respuesta completa debe incluir
+- Asigna a cada criterio un peso numérico positivo según su importancia
+- Responde ÚNICAMENTE con un JSON válido
+
+RESPONDE ÚNICAMENTE con un JSON válido:
+{
+  "rubric": [
+    { "criterion": "Descripción del criterio", "weight": 2 }
+  ]
+}`;
+
+    const userPrompt = `Redacta una rúbrica para esta pregunta de QA:
+
+PREGUNTA: ${questionText}
+CATEGORÍA: ${category}
+DIFICULTAD: ${difficulty}
+${attachmentsSection(attachments)}`;
+
+    const messages: OpenRouterMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt }
+    ];
+
+    const response = await this.generateCompletion(messages, 'questionGeneration');
+
+    let parsedResponse: any;
+    try {
+      parsedResponse = parseModelJson(response);
+    } catch (error) {
+      console.error('Failed to parse AI rubric response as JSON:', response);
+      throw new Error('Invalid AI rubric response format');
+    }
+
+    const { rubric, errors } = validateRubric(parsedResponse?.rubric);
+    if (!rubric) {
+      throw new Error(`Invalid AI rubric: ${errors.join('; ') || 'empty rubric'}`);
     }
+    return rubric;
   }
 
   async generateFeedback(
@@ -242,20 +493,24 @@ RESULTADOS:
 RESPUESTAS DEL USUARIO:
 ${userResponses.map((resp, idx) => {
   const question = questions[idx];
-  if (question?.type === 'multiple-choice') {
+  if (question && isAutoGradedType(question.type)) {
     return `
 Pregunta ${idx + 1}: ${question.questionText}
-Tipo: Opción múltiple
-Opciones disponibles: ${question.options?.join(' | ') || 'No disponibles'}
+Tipo: ${QUESTION_TYPE_LABELS[normalizeQuestionType(question.type)!]}
+Opciones disponibles: ${question.options?.join(' | ') || 'No disponibles'}${question.matchTargets ? `
+Elementos a emparejar: ${question.matchTargets.join(' | ')}` : ''}
 Respuesta seleccionada: ${resp.userSelectedOption || 'No seleccionada'}
-Respuesta correcta: ${question.correctAnswer}
-Correcta: ${resp.isCorrect ? 'Sí' : 'No'}`;
+Respuesta correcta: ${resp.correctAnswer}
+Correcta: ${resp.isCorrect ? 'Sí' : resp.pointsEarned > 0 ? `Parcialmente (${resp.pointsEarned}/${question.points} puntos)` : 'No'}`;
   } else {
     return `
 Pregunta ${idx + 1}: ${question?.questionText}
-Tipo: Pregunta abierta
+Tipo: ${question?.type === 'artifact' ? QUESTION_TYPE_LABELS.artifact : 'Pregunta abierta'}
 Respuesta del usuario: ${resp.response}
-Correcta: ${resp.isCorrect ? 'Sí' : 'No'}`;
+Correcta: ${resp.isCorrect ? 'Sí' : 'No'}${resp.rubricBreakdown ? `
+Puntos obtenidos: ${resp.pointsEarned}/${question?.points}
+Rúbrica:
+${resp.rubricBreakdown.map((c: any) => `- ${c.criterion}: ${c.score} (${c.justification})`).join('\n')}` : ''}`;
   }
 }).join('\n')}
 
@@ -266,7 +521,7 @@ Genera feedback constructivo y personalizado basado en el análisis detallado de
       { role: 'user', content: userPrompt }
     ];
 
-    const response = await this.generateCompletion(messages);
+    const response = await this.generateCompletion(messages, 'feedback');
     
     try {
       // Clean the response to remove any potential formatting issues
@@ -355,7 +610,7 @@ Genera la siguiente información en formato JSON:
 Responde SOLO con el JSON válido, sin texto adicional.`;
 
     try {
-      const response = await this.generateCompletion([{ role: 'user', content: prompt }]);
+      const response = await this.generateCompletion([{ role: 'user', content: prompt }], 'general');
       const parsedResponse = JSON.parse(response);
       
       return {
@@ -0,0 +1,401 @@
+import { EntityManager, In, MoreThanOrEqual } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { AppDataSource } from '../config/database-minimal';
+import { PracticeResponse } from '../entities/PracticeResponse';
+import { PracticeSession, PracticeSessionKind } from '../entities/PracticeSession';
+import { Question } from '../entities/Question';
+import { PracticeAccess, Stage } from '../entities/Stage';
+import { RubricCriterionScore } from '../entities/UserResponse';
+import { UserStage } from '../entities/UserStage';
+import { CLOSED_QUESTION_TYPES, getAttemptQuestions, selectQuestionsForStage } from './attemptService';
+import { openRouterService } from './openRouterService';
+import { describeAnswer, describeCorrectAnswer, explainAutoAnswer, getShownAnswerKey, gradeAutoAnswer } from './questionTypes';
+import { pointsForCredit } from './rubricService';
+import { createSeededRandom, generateSeed } from './samplingService';
+import { DEFAULT_PASSING_SCORE, getScoringPolicy, hasPassedStage, scoreResponses } from './scoringService';
+import { getStageAvailability } from './stageService';
+import { loadLearnerProgress } from './trackService';
+
+export const PRACTICE_ACCESS_MODES: PracticeAccess[] = ['disabled', 'unlocked', 'always'];
+
+// Optional per-learner practice limits count over a rolling day
+const PRACTICE_QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// A limit is off unless its variable is a positive number
+const readDailyLimit = (value: string | undefined): number | null => {
+  const limit = parseInt(value || '');
+  return limit > 0 ? limit : null;
+};
+
+export interface PracticeAnswerResult {
+  questionId: number;
+  response: string;
+  // Readable form of the response for auto-graded questions
+  answerText: string | null;
+  isCorrect: boolean;
+  points: number;
+  pointsEarned: number;
+  rubricBreakdown: RubricCriterionScore[] | null;
+  explanation: string | null;
+  // Only present when the stage reveals correct answers and the learner has passed it
+  correctAnswer?: string | null;
+  correctResponse?: string | null;
+}
+
+export interface PracticeSessionSummary {
+  sessionId: string;
+  kind: PracticeSessionKind;
+  // Null for weak-area quizzes
+  stageId: number | null;
+  stageTitle: string | null;
+  totalQuestions: number;
+  answeredQuestions: number;
+  correctAnswers: number;
+  // 0-100 under the stage's scoring policy, once every question is answered
+  score: number | null;
+  isCompleted: boolean;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export class PracticeError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code: string) {
+    super(message);
+    this.name = 'PracticeError';
+  }
+}
+
+/**
+ * Validates the `practiceAccess` field of a stage request.
+ */
+export const validatePracticeAccessInput = (practiceAccess: unknown): string[] =>
+  practiceAccess !== undefined && !PRACTICE_ACCESS_MODES.includes(practiceAccess as PracticeAccess)
+    ? [`practiceAccess must be one of: ${PRACTICE_ACCESS_MODES.join(', ')}`]
+    : [];
+
+/**
+ * Whether a learner may start a practice session on a published stage.
+ */
+export const canPracticeStage = (
+  stage: Pick<Stage, 'practiceAccess' | 'availableFrom' | 'availableUntil'>,
+  isUnlocked: boolean,
+  now: Date = new Date()
+): boolean =>
+  stage.practiceAccess !== 'disabled'
+  && getStageAvailability(stage, now) !== 'upcoming'
+  && (stage.practiceAccess === 'always' || isUnlocked);
+
+/**
+ * Rejects a new practice session once the learner has started `PRACTICE_SESSIONS_PER_DAY`
+ * of them within a day.
+ */
+export const assertPracticeSessionQuota = async (manager: EntityManager, userId: number): Promise<void> => {
+  const limit = readDailyLimit(process.env.PRACTICE_SESSIONS_PER_DAY);
+  if (limit === null) {
+    return;
+  }
+  const since = new Date(Date.now() - PRACTICE_QUOTA_WINDOW_MS);
+  const started = await manager.getRepository(PracticeSession).count({
+    where: { userId, createdAt: MoreThanOrEqual(since) }
+  });
+  if (started >= limit) {
+    throw new PracticeError(`You can start up to ${limit} practice sessions a day`, 429, 'PRACTICE_SESSION_LIMIT');
+  }
+};
+
+// Rejects an open answer once the learner has had `PRACTICE_AI_GRADINGS_PER_DAY` graded by the AI within a day
+const assertAiGradingQuota = async (manager: EntityManager, userId: number): Promise<void> => {
+  const limit = readDailyLimit(process.env.PRACTICE_AI_GRADINGS_PER_DAY);
+  if (limit === null) {
+    return;
+  }
+  const since = new Date(Date.now() - PRACTICE_QUOTA_WINDOW_MS);
+  const graded = await manager.getRepository(PracticeResponse)
+    .createQueryBuilder('response')
+    .innerJoin('response.session', 'session')
+    .innerJoin('response.question', 'question')
+    .where('session.user_id = :userId', { userId })
+    .andWhere('response.answered_at >= :since', { since })
+    .andWhere('question.type NOT IN (:...closedTypes)', { closedTypes: CLOSED_QUESTION_TYPES })
+    .getCount();
+  if (graded >= limit) {
+    throw new PracticeError(`You can have up to ${limit} open practice answers graded a day`, 429, 'AI_GRADING_LIMIT');
+  }
+};
+
+/**
+ * Starts a practice session on a published stage. Stages set to `always` can be
+ * practiced before they are unlocked. Nothing about the session counts towards
+ * progress, attempt limits or scores.
+ */
+export const startPracticeSession = async (
+  userId: number,
+  stageId: number,
+  openQuestions?: number,
+  closedQuestions?: number
+): Promise<{ session: PracticeSession; questions: Question[] }> => {
+  const manager = AppDataSource.manager;
+  const stage = await manager.getRepository(Stage).findOne({ where: { id: stageId, isActive: true } });
+  if (!stage) {
+    throw new PracticeError('Stage not found', 404, 'STAGE_NOT_FOUND');
+  }
+  if (stage.practiceAccess === 'disabled') {
+    throw new PracticeError('Practice is not available for this stage', 403, 'PRACTICE_DISABLED');
+  }
+  // The questions of a stage that has not opened yet stay hidden, even for practice
+  if (getStageAvailability(stage) === 'upcoming') {
+    throw new PracticeError(
+      `This stage opens on ${new Date(stage.availableFrom!).toISOString()}`,
+      403,
+      'STAGE_NOT_AVAILABLE'
+    );
+  }
+  if (stage.practiceAccess === 'unlocked') {
+    const { isUnlocked } = await loadLearnerProgress(manager, userId);
+    if (!isUnlocked.get(stageId)) {
+      throw new PracticeError('Complete the prerequisites of this stage first', 403, 'STAGE_LOCKED');
+    }
+  }
+
+  await assertPracticeSessionQuota(manager, userId);
+
+  const samplingSeed = generateSeed();
+  const questions = await selectQuestionsForStage(
+    manager,
+    stageId,
+    openQuestions ?? stage.openQuestions,
+    closedQuestions ?? stage.closedQuestions,
+    createSeededRandom(samplingSeed)
+  );
+  if (questions.length === 0) {
+    throw new PracticeError(`No questions available for stage ${stageId}`, 400, 'NO_QUESTIONS');
+  }
+
+  const sessionRepository = manager.getRepository(PracticeSession);
+  const session = await sessionRepository.save(sessionRepository.create({
+    sessionId: uuidv4(),
+    userId,
+    stageId,
+    questionIds: questions.map(q => q.id),
+    samplingSeed
+  }));
+  return { session, questions };
+};
+
+/**
+ * Loads a practice session owned by the user, with its stage. `revealedStageIds` lists
+ * the stages of its questions that reveal correct answers and that the learner has
+ * passed; until then practice would hand out the key to the graded evaluation.
+ */
+export const getPracticeSession = async (
+  manager: EntityManager,
+  userId: number,
+  sessionId: string
+): Promise<{
+  session: PracticeSession;
+  questions: Question[];
+  responses: PracticeResponse[];
+  revealedStageIds: Set<number>;
+}> => {
+  const session = await manager.getRepository(PracticeSession).findOne({
+    where: { sessionId, userId },
+    relations: ['stage']
+  });
+  if (!session) {
+    throw new PracticeError('Practice session not found', 404, 'PRACTICE_SESSION_NOT_FOUND');
+  }
+
+  const questions = await getAttemptQuestions(manager, session);
+  const stageIds = [...new Set(questions.map(q => q.stageId))];
+  const revealing = stageIds.length > 0
+    ? await manager.getRepository(Stage).find({ where: { id: In(stageIds), revealCorrectAnswers: true } })
+    : [];
+  const userStages = revealing.length > 0
+    ? await manager.getRepository(UserStage).find({ where: { userId, stageId: In(revealing.map(s => s.id)) } })
+    : [];
+
+  return {
+    session,
+    questions,
+    responses: await manager.getRepository(PracticeResponse).find({ where: { sessionId: session.id } }),
+    revealedStageIds: new Set(revealing
+      .filter(stage => hasPassedStage(userStages.find(us => us.stageId === stage.id), stage))
+      .map(stage => stage.id))
+  };
+};
+
+/**
+ * Shows a graded practice answer. Correct answers are included only when `reveal`
+ * is set, see `getPracticeSession`.
+ */
+export const toPracticeAnswerResult = (
+  question: Question,
+  response: PracticeResponse,
+  samplingSeed: string,
+  reveal: boolean
+): PracticeAnswerResult => ({
+  questionId: question.id,
+  response: response.response,
+  answerText: describeAnswer(question, response.response, samplingSeed),
+  isCorrect: response.isCorrect,
+  points: question.points,
+  pointsEarned: response.pointsEarned,
+  rubricBreakdown: response.rubricBreakdown,
+  explanation: response.explanation,
+  ...(reveal
+    ? {
+      correctAnswer: describeCorrectAnswer(question) ?? (question.correctAnswer || null),
+      correctResponse: getShownAnswerKey(question, samplingSeed)
+    }
+    : {})
+});
+
+export const summarizePracticeSession = (
+  session: PracticeSession,
+  responses: PracticeResponse[]
+): PracticeSessionSummary => ({
+  sessionId: session.sessionId,
+  kind: session.kind,
+  stageId: session.stageId,
+  stageTitle: session.stage?.title ?? null,
+  totalQuestions: session.questionIds.length,
+  answeredQuestions: responses.length,
+  correctAnswers: responses.filter(r => r.isCorrect).length,
+  score: session.score,
+  isCompleted: session.completedAt !== null,
+  createdAt: session.createdAt,
+  completedAt: session.completedAt
+});
+
+/**
+ * Grades one practice answer straight away: closed questions by key, open ones by the
+ * AI grader (outside any transaction, as in the grading worker) within the learner's
+ * daily quota. Each question can be answered once, so a session cannot be used to try
+ * every option; the check, the save and the completion run with the session row
+ * locked. Answering the last question completes the session and scores it under the
+ * stage's policy.
+ */
+export const answerPracticeQuestion = async (
+  userId: number,
+  sessionId: string,
+  questionId: number,
+  answer: string
+): Promise<{ result: PracticeAnswerResult; summary: PracticeSessionSummary }> => {
+  const manager = AppDataSource.manager;
+  const { session, questions, responses, revealedStageIds } = await getPracticeSession(manager, userId, sessionId);
+  if (session.completedAt) {
+    throw new PracticeError('This practice session is already completed', 409, 'PRACTICE_SESSION_COMPLETED');
+  }
+  const question = questions.find(q => q.id === questionId);
+  if (!question) {
+    throw new PracticeError(`Question ${questionId} is not part of this practice session`, 400, 'INVALID_QUESTION');
+  }
+  if (responses.some(r => r.questionId === questionId)) {
+    throw new PracticeError(`Question ${questionId} has already been answered`, 409, 'QUESTION_ALREADY_ANSWERED');
+  }
+
+  const closedGrade = gradeAutoAnswer(question, answer, session.samplingSeed);
+  let graded: Pick<PracticeResponse, 'isCorrect' | 'pointsEarned' | 'rubricBreakdown' | 'explanation'>;
+  if (closedGrade) {
+    graded = {
+      isCorrect: closedGrade.isCorrect,
+      pointsEarned: pointsForCredit(question.points, closedGrade.credit),
+      rubricBreakdown: null,
+      explanation: explainAutoAnswer(question, answer, session.samplingSeed)
+    };
+  } else {
+    await assertAiGradingQuota(manager, userId);
+    try {
+      const aiEvaluation = await openRouterService.getInstance().evaluateOpenQuestion(
+        question.questionText,
+        answer,
+        question.category || 'General',
+        question.difficulty || 'intermediate',
+        question.rubric,
+        question.attachments
+      );
+      graded = {
+        isCorrect: aiEvaluation.isCorrect,
+        pointsEarned: pointsForCredit(question.points, aiEvaluation.credit),
+        rubricBreakdown: aiEvaluation.breakdown,
+        explanation: aiEvaluation.explanation || null
+      };
+    } catch (error) {
+      console.error(`Error grading practice answer to question ${questionId}:`, error);
+      throw new PracticeError('The answer could not be graded right now, please try again', 503, 'GRADING_UNAVAILABLE');
+    }
+  }
+
+  // The session row is locked so two answers sent at once cannot both pass the checks
+  const { saved, allResponses } = await AppDataSource.transaction(async transactionManager => {
+    const locked = await transactionManager.getRepository(PracticeSession).findOneOrFail({
+      where: { id: session.id },
+      lock: { mode: 'pessimistic_write' }
+    });
+    if (locked.completedAt) {
+      throw new PracticeError('This practice session is already completed', 409, 'PRACTICE_SESSION_COMPLETED');
+    }
+    const responseRepository = transactionManager.getRepository(PracticeResponse);
+    const currentResponses = await responseRepository.find({ where: { sessionId: session.id } });
+    if (currentResponses.some(r => r.questionId === questionId)) {
+      throw new PracticeError(`Question ${questionId} has already been answered`, 409, 'QUESTION_ALREADY_ANSWERED');
+    }
+
+    const savedResponse = await responseRepository.save(responseRepository.create({
+      sessionId: session.id,
+      questionId,
+      response: answer,
+      ...graded
+    }));
+    const sessionResponses = [...currentResponses, savedResponse];
+
+    if (session.questionIds.every(id => sessionResponses.some(r => r.questionId === id))) {
+      const questionMap = new Map(questions.map(q => [q.id, q]));
+      // Weak-area quizzes span several stages, so they are scored under the default policy
+      const { score } = scoreResponses(
+        sessionResponses.map(r => ({ ...r, question: questionMap.get(r.questionId)! })),
+        getScoringPolicy(session.stage ?? { scoringMode: 'points', passingScore: DEFAULT_PASSING_SCORE, negativeMarking: 0 })
+      );
+      session.score = score;
+      session.completedAt = new Date();
+      await transactionManager.getRepository(PracticeSession).update(session.id, {
+        score: session.score,
+        completedAt: session.completedAt
+      });
+    }
+
+    return { saved: savedResponse, allResponses: sessionResponses };
+  });
+
+  return {
+    result: toPracticeAnswerResult(question, saved, session.samplingSeed, revealedStageIds.has(question.stageId)),
+    summary: summarizePracticeSession(session, allResponses)
+  };
+};
+
+/**
+ * Lists a learner's practice sessions, newest first.
+ */
+export const findPracticeSessions = async (
+  manager: EntityManager,
+  options: { userId: number; stageId?: number; page: number; limit: number }
+): Promise<{ sessions: PracticeSessionSummary[]; total: number }> => {
+  const [sessions, total] = await manager.getRepository(PracticeSession).findAndCount({
+    where: { userId: options.userId, ...(options.stageId ? { stageId: options.stageId } : {}) },
+    relations: ['stage'],
+    order: { createdAt: 'DESC', id: 'DESC' },
+    skip: (options.page - 1) * options.limit,
+    take: options.limit
+  });
+
+  const responses = sessions.length > 0
+    ? await manager.getRepository(PracticeResponse).find({ where: { sessionId: In(sessions.map(s => s.id)) } })
+    : [];
+
+  return {
+    sessions: sessions.map(session =>
+      summarizePracticeSession(session, responses.filter(r => r.sessionId === session.id))
+    ),
+    total
+  };
+};
@@ -0,0 +1,264 @@
+import { EntityManager, In, LessThan } from 'typeorm';
+import { Stage } from '../entities/Stage';
+import { StagePrerequisite } from '../entities/StagePrerequisite';
+import { UserStage } from '../entities/UserStage';
+import { hasPassedStage } from './scoringService';
+
+export interface PrerequisiteRequirement {
+  stageId: number;
+  // Best score (0-100) needed; null means passing the stage under its own policy
+  minScore: number | null;
+}
+
+// Met when any of its requirements is met; a stage unlocks when all its groups are met
+export interface PrerequisiteGroup {
+  anyOf: PrerequisiteRequirement[];
+}
+
+export interface RequirementState extends PrerequisiteRequirement {
+  stageTitle: string;
+  isMet: boolean;
+}
+
+export interface StageUnlockState {
+  isUnlocked: boolean;
+  prerequisites: { anyOf: RequirementState[]; isMet: boolean }[];
+}
+
+export class PrerequisiteError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code: string) {
+    super(message);
+    this.name = 'PrerequisiteError';
+  }
+}
+
+/**
+ * Validates the `prerequisites` field of a stage request: a list of groups, each
+ * `{ anyOf: [{ stageId, minScore? }] }`. `null` or `[]` means no prerequisites.
+ */
+export const parsePrerequisiteInput = (raw: unknown): { groups: PrerequisiteGroup[]; errors: string[] } => {
+  if (raw === null) {
+    return { groups: [], errors: [] };
+  }
+  if (!Array.isArray(raw)) {
+    return { groups: [], errors: ['prerequisites must be an array of groups'] };
+  }
+
+  const errors: string[] = [];
+  const groups: PrerequisiteGroup[] = [];
+  raw.forEach((group, g) => {
+    if (!group || !Array.isArray(group.anyOf) || group.anyOf.length === 0) {
+      errors.push(`prerequisites[${g}].anyOf must be a non-empty array`);
+      return;
+    }
+    const anyOf: PrerequisiteRequirement[] = [];
+    group.anyOf.forEach((item: any, i: number) => {
+      const stageId = Number(item?.stageId);
+      if (!Number.isInteger(stageId) || stageId <= 0) {
+        errors.push(`prerequisites[${g}].anyOf[${i}].stageId must be a stage ID`);
+        return;
+      }
+      let minScore: number | null = null;
+      if (item.minScore !== undefined && item.minScore !== null) {
+        minScore = Number(item.minScore);
+        if (!Number.isInteger(minScore) || minScore < 0 || minScore > 100) {
+          errors.push(`prerequisites[${g}].anyOf[${i}].minScore must be an integer between 0 and 100`);
+          return;
+        }
+      }
+      if (anyOf.some(r => r.stageId === stageId)) {
+        errors.push(`prerequisites[${g}].anyOf lists stage ${stageId} more than once`);
+        return;
+      }
+      anyOf.push({ stageId, minScore });
+    });
+    groups.push({ anyOf });
+  });
+
+  return { groups, errors };
+};
+
+/**
+ * Looks for a path that would lead back to `stageId` once it requires `prerequisiteIds`.
+ * `edges` maps each stage to the stages it requires.
+ * @returns the stages along the cycle, starting and ending with `stageId`, or null
+ */
+export const findPrerequisiteCycle = (
+  edges: Map<number, number[]>,
+  stageId: number,
+  prerequisiteIds: number[]
+): number[] | null => {
+  const visited = new Set<number>();
+
+  const visit = (current: number, path: number[]): number[] | null => {
+    if (current === stageId) {
+      return [...path, current];
+    }
+    if (visited.has(current)) {
+      return null;
+    }
+    visited.add(current);
+    for (const next of edges.get(current) || []) {
+      const cycle = visit(next, [...path, current]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    return null;
+  };
+
+  for (const prerequisiteId of prerequisiteIds) {
+    const cycle = visit(prerequisiteId, [stageId]);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+};
+
+/**
+ * Checks that every prerequisite exists and that the graph stays acyclic once `stageId`
+ * requires them. Pass a null `stageId` for a stage that is not saved yet.
+ */
+export const checkPrerequisites = async (
+  manager: EntityManager,
+  stageId: number | null,
+  groups: PrerequisiteGroup[]
+): Promise<void> => {
+  const prerequisiteIds = [...new Set(groups.flatMap(g => g.anyOf.map(r => r.stageId)))];
+  if (prerequisiteIds.length === 0) {
+    return;
+  }
+
+  if (stageId !== null && prerequisiteIds.includes(stageId)) {
+    throw new PrerequisiteError('A stage cannot be its own prerequisite', 400, 'PREREQUISITE_SELF');
+  }
+
+  const stages = await manager.getRepository(Stage).find({ where: { id: In(prerequisiteIds) } });
+  const missing = prerequisiteIds.filter(id => !stages.some(s => s.id === id));
+  if (missing.length > 0) {
+    throw new PrerequisiteError(`Prerequisite stages not found: ${missing.join(', ')}`, 400, 'PREREQUISITE_NOT_FOUND');
+  }
+
+  // Nothing can require a stage that does not exist yet, so a new stage cannot close a cycle
+  if (stageId === null) {
+    return;
+  }
+
+  const edges = new Map<number, number[]>();
+  for (const row of await manager.getRepository(StagePrerequisite).find()) {
+    if (row.stageId !== stageId) {
+      edges.set(row.stageId, [...(edges.get(row.stageId) || []), row.prerequisiteStageId]);
+    }
+  }
+  const cycle = findPrerequisiteCycle(edges, stageId, prerequisiteIds);
+  if (cycle) {
+    throw new PrerequisiteError(
+      `Prerequisites would create a cycle: ${cycle.join(' → ')}`,
+      400,
+      'PREREQUISITE_CYCLE'
+    );
+  }
+};
+
+/**
+ * Replaces the prerequisites of a stage after checking them.
+ */
+export const setStagePrerequisites = async (
+  manager: EntityManager,
+  stageId: number,
+  groups: PrerequisiteGroup[]
+): Promise<void> => {
+  await checkPrerequisites(manager, stageId, groups);
+
+  const repository = manager.getRepository(StagePrerequisite);
+  await repository.delete({ stageId });
+  const rows = groups.flatMap((group, groupIndex) =>
+    group.anyOf.map(r => repository.create({
+      stageId,
+      prerequisiteStageId: r.stageId,
+      groupIndex,
+      minScore: r.minScore
+    }))
+  );
+  if (rows.length > 0) {
+    await repository.save(rows);
+  }
+};
+
+/**
+ * Prerequisites a new stage gets when none are given: the stage right before it by
+ * displayOrder, as the roadmap worked before explicit prerequisites.
+ */
+export const getDefaultPrerequisites = async (
+  manager: EntityManager,
+  displayOrder: number
+): Promise<PrerequisiteGroup[]> => {
+  const previous = await manager.getRepository(Stage).findOne({
+    where: { displayOrder: LessThan(displayOrder) },
+    order: { displayOrder: 'DESC' }
+  });
+  return previous ? [{ anyOf: [{ stageId: previous.id, minScore: null }] }] : [];
+};
+
+/**
+ * Groups the stored rows of one stage back into the request format.
+ */
+export const toPrerequisiteGroups = (rows: StagePrerequisite[]): PrerequisiteGroup[] => {
+  const byGroup = new Map<number, PrerequisiteRequirement[]>();
+  for (const row of [...rows].sort((a, b) => a.groupIndex - b.groupIndex || a.id - b.id)) {
+    byGroup.set(row.groupIndex, [
+      ...(byGroup.get(row.groupIndex) || []),
+      { stageId: row.prerequisiteStageId, minScore: row.minScore }
+    ]);
+  }
+  return [...byGroup.values()].map(anyOf => ({ anyOf }));
+};
+
+const isRequirementMet = (
+  requirement: PrerequisiteRequirement,
+  stage: Stage,
+  userStage: UserStage | undefined
+): boolean => {
+  // Deactivated stages cannot be taken, so they never hold anyone back
+  if (!stage.isActive) {
+    return true;
+  }
+  if (requirement.minScore === null) {
+    return hasPassedStage(userStage, stage);
+  }
+  return userStage?.score !== null && userStage?.score !== undefined && userStage.score >= requirement.minScore;
+};
+
+/**
+ * Works out which stages a learner has unlocked. `stages` must include every stage
+ * referenced as a prerequisite, active or not. Stages without prerequisites are unlocked.
+ */
+export const computeStageUnlocks = (
+  stages: Stage[],
+  rows: StagePrerequisite[],
+  userStages: UserStage[]
+): Map<number, StageUnlockState> => {
+  const stageById = new Map(stages.map(s => [s.id, s]));
+  const userStageById = new Map(userStages.map(us => [us.stageId, us]));
+  const unlocks = new Map<number, StageUnlockState>();
+
+  for (const stage of stages) {
+    const prerequisites = toPrerequisiteGroups(rows.filter(r => r.stageId === stage.id)).map(group => {
+      const anyOf = group.anyOf
+        .filter(r => stageById.has(r.stageId))
+        .map(r => {
+          const prerequisite = stageById.get(r.stageId)!;
+          return {
+            ...r,
+            stageTitle: prerequisite.title,
+            isMet: isRequirementMet(r, prerequisite, userStageById.get(r.stageId))
+          };
+        });
+      return { anyOf, isMet: anyOf.length === 0 || anyOf.some(r => r.isMet) };
+    });
+    unlocks.set(stage.id, { isUnlocked: prerequisites.every(g => g.isMet), prerequisites });
+  }
+
+  return unlocks;
+};
@@ -0,0 +1,517 @@
+import { Question } from '../entities/Question';
+import { normalizeQuestionType, parseTrueFalse } from './questionTypes';
+
+export type QuestionBankFormat = 'json' | 'csv' | 'qti';
+
+export const QUESTION_BANK_FORMATS: QuestionBankFormat[] = ['json', 'csv', 'qti'];
+
+export const QUESTION_BANK_CONTENT_TYPES: Record<QuestionBankFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  qti: 'application/xml'
+};
+
+// Identifies files written by our own JSON exporter
+const NATIVE_FORMAT_NAME = 'qa-roadmap-question-bank';
+const NATIVE_FORMAT_VERSION = 1;
+
+const CSV_COLUMNS = [
+  'type', 'questionText', 'options', 'correctAnswer', 'points', 'category', 'difficulty', 'correctAnswers', 'matchTargets',
+  'attachments'
+];
+// Lists (options, correctAnswers, matchTargets) share one CSV cell; a literal "|" inside an item is written as "\|".
+// Attachments are written as a JSON array in their own cell.
+const CSV_OPTION_SEPARATOR = '|';
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+
+/**
+ * A question as it travels in and out of the app. Values are untrusted until validated.
+ */
+export interface QuestionBankItem {
+  type?: unknown;
+  questionText?: unknown;
+  options?: unknown;
+  correctAnswer?: unknown;
+  correctAnswers?: unknown;
+  matchTargets?: unknown;
+  points?: unknown;
+  category?: unknown;
+  difficulty?: unknown;
+  rubric?: unknown;
+  attachments?: unknown;
+}
+
+export class QuestionBankParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuestionBankParseError';
+  }
+}
+
+const toItem = (q: Question): QuestionBankItem => ({
+  type: q.type,
+  questionText: q.questionText,
+  options: q.options,
+  correctAnswer: q.correctAnswer,
+  correctAnswers: q.correctAnswers,
+  matchTargets: q.matchTargets,
+  points: q.points,
+  category: q.category,
+  difficulty: q.difficulty,
+  rubric: q.rubric,
+  attachments: q.attachments
+});
+
+// ---------------------------------------------------------------------------
+// JSON
+// ---------------------------------------------------------------------------
+
+const exportJson = (questions: Question[], stage: { id: number; title: string }): string =>
+  JSON.stringify({
+    format: NATIVE_FORMAT_NAME,
+    version: NATIVE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    stage: { id: stage.id, title: stage.title },
+    questions: questions.map(toItem)
+  }, null, 2);
+
+// Accepts our export envelope or a bare array of questions
+const parseJson = (input: unknown): QuestionBankItem[] => {
+  let data = input;
+  if (typeof data === 'string') {
+    try {
+      data = JSON.parse(data);
+    } catch (error) {
+      throw new QuestionBankParseError('The file is not valid JSON');
+    }
+  }
+
+  const items = Array.isArray(data) ? data : (data as any)?.questions;
+  if (!Array.isArray(items)) {
+    throw new QuestionBankParseError('Expected an array of questions or an object with a "questions" array');
+  }
+  return items;
+};
+
+// ---------------------------------------------------------------------------
+// CSV (RFC 4180)
+// ---------------------------------------------------------------------------
+
+const csvField = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const joinList = (items: string[] | null): string =>
+  (items || []).map(o => o.split(CSV_OPTION_SEPARATOR).join(`\\${CSV_OPTION_SEPARATOR}`)).join(CSV_OPTION_SEPARATOR);
+
+const exportCsv = (questions: Question[]): string => {
+  const rows = questions.map(q => [
+    q.type,
+    q.questionText,
+    joinList(q.options),
+    q.correctAnswer,
+    q.points,
+    q.category,
+    q.difficulty,
+    joinList(q.correctAnswers),
+    joinList(q.matchTargets),
+    q.attachments ? JSON.stringify(q.attachments) : ''
+  ].map(csvField).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new QuestionBankParseError('Unterminated quoted field in CSV');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const splitOptions = (cell: string): string[] | null => {
+  if (!cell.trim()) {
+    return null;
+  }
+  const options: string[] = [];
+  let current = '';
+  for (let i = 0; i < cell.length; i++) {
+    if (cell[i] === '\\' && cell[i + 1] === CSV_OPTION_SEPARATOR) {
+      current += CSV_OPTION_SEPARATOR;
+      i++;
+    } else if (cell[i] === CSV_OPTION_SEPARATOR) {
+      options.push(current.trim());
+      current = '';
+    } else {
+      current += cell[i];
+    }
+  }
+  options.push(current.trim());
+  return options;
+};
+
+// Invalid JSON is passed through as text so validation reports it against the row
+const parseAttachmentsCell = (cell: string): unknown => {
+  if (!cell.trim()) {
+    return null;
+  }
+  try {
+    return JSON.parse(cell);
+  } catch (error) {
+    return cell;
+  }
+};
+
+const parseCsv = (input: unknown): QuestionBankItem[] => {
+  if (typeof input !== 'string') {
+    throw new QuestionBankParseError('CSV imports must be sent as text/csv');
+  }
+
+  const [header, ...rows] = parseCsvRows(input.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new QuestionBankParseError('The CSV file is empty');
+  }
+
+  const columns = header.map(h => h.trim());
+  const missing = ['type', 'questionText'].filter(c => !columns.includes(c));
+  if (missing.length > 0) {
+    throw new QuestionBankParseError(`Missing CSV columns: ${missing.join(', ')}`);
+  }
+
+  return rows.map(cells => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      record[column] = cells[i] ?? '';
+    });
+
+    return {
+      type: record.type,
+      questionText: record.questionText,
+      options: splitOptions(record.options || ''),
+      correctAnswer: record.correctAnswer || null,
+      correctAnswers: splitOptions(record.correctAnswers || ''),
+      matchTargets: splitOptions(record.matchTargets || ''),
+      attachments: parseAttachmentsCell(record.attachments || ''),
+      points: record.points ? record.points : undefined,
+      category: record.category || null,
+      difficulty: record.difficulty || null
+    };
+  });
+};
+
+// ---------------------------------------------------------------------------
+// IMS QTI 2.1
+// ---------------------------------------------------------------------------
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const unescapeXml = (text: string): string =>
+  text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+
+const simpleChoices = (items: string[], prefix: string, element = 'simpleChoice', indent = '        ', attributes = ''): string =>
+  items.map((item, i) => `${indent}<${element} identifier="${prefix}-${i}"${attributes}>${escapeXml(item)}</${element}>`).join('\n');
+
+const qtiItem = (q: Question, index: number): string => {
+  const identifier = `question-${q.id || index + 1}`;
+  const attributes = [
+    `identifier="${identifier}"`,
+    `title="${escapeXml(q.questionText.slice(0, 80))}"`,
+    ...(q.category ? [`label="${escapeXml(q.category)}"`] : []),
+    'adaptive="false"',
+    'timeDependent="false"'
+  ].join(' ');
+
+  const maxScore = `    <outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float">
+      <defaultValue><value>${q.points}</value></defaultValue>
+    </outcomeDeclaration>
+    <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+      <defaultValue><value>0</value></defaultValue>
+    </outcomeDeclaration>`;
+
+  const item = (declaration: string, interaction: string, template: string | null = 'match_correct') =>
+    `  <assessmentItem xmlns="${QTI_NAMESPACE}" ${attributes}>
+${declaration}
+${maxScore}
+    <itemBody>
+${interaction}
+    </itemBody>${template ? `
+    <responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/${template}"/>` : ''}
+  </assessmentItem>`;
+
+  const prompt = `        <prompt>${escapeXml(q.questionText)}</prompt>`;
+  const options = q.options || [];
+  const values = (items: string[]) => items.map(v => `<value>${v}</value>`).join('');
+
+  switch (normalizeQuestionType(q.type)) {
+    case 'multiple-choice':
+      return item(
+        `    <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+      <correctResponse><value>choice-${options.findIndex(o => o === q.correctAnswer)}</value></correctResponse>
+    </responseDeclaration>`,
+        `      <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">
+${prompt}
+${simpleChoices(options, 'choice')}
+      </choiceInteraction>`
+      );
+
+    // Identifiers "true" and "false" mark the item as true/false on import
+    case 'true-false':
+      return item(
+        `    <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+      <correctResponse><value>${parseTrueFalse(q.correctAnswer)}</value></correctResponse>
+    </responseDeclaration>`,
+        `      <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">
+${prompt}
+        <simpleChoice identifier="true">Verdadero</simpleChoice>
+        <simpleChoice identifier="false">Falso</simpleChoice>
+      </choiceInteraction>`
+      );
+
+    case 'multi-select': {
+      const correct = options.map((o, i) => ((q.correctAnswers || []).includes(o) ? `choice-${i}` : null)).filter((v): v is string => v !== null);
+      return item(
+        `    <responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="identifier">
+      <correctResponse>${values(correct)}</correctResponse>
+    </responseDeclaration>`,
+        `      <choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="0">
+${prompt}
+${simpleChoices(options, 'choice')}
+      </choiceInteraction>`
+      );
+    }
+
+    case 'ordering':
+      return item(
+        `    <responseDeclaration identifier="RESPONSE" cardinality="ordered" baseType="identifier">
+      <correctResponse>${values(options.map((_, i) => `choice-${i}`))}</correctResponse>
+    </responseDeclaration>`,
+        `      <orderInteraction responseIdentifier="RESPONSE" shuffle="true">
+${prompt}
+${simpleChoices(options, 'choice')}
+      </orderInteraction>`
+      );
+
+    case 'matching': {
+      const targets = q.matchTargets || [];
+      return item(
+        `    <responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair">
+      <correctResponse>${values(options.map((_, i) => `choice-${i} target-${i}`))}</correctResponse>
+    </responseDeclaration>`,
+        `      <matchInteraction responseIdentifier="RESPONSE" shuffle="true" maxAssociations="${options.length}">
+${prompt}
+        <simpleMatchSet>
+${simpleChoices(options, 'choice', 'simpleAssociableChoice', '          ', ' matchMax="1"')}
+        </simpleMatchSet>
+        <simpleMatchSet>
+${simpleChoices(targets, 'target', 'simpleAssociableChoice', '          ', ' matchMax="1"')}
+        </simpleMatchSet>
+      </matchInteraction>`
+      );
+    }
+
+    default:
+      return item(
+        `    <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>`,
+        `      <extendedTextInteraction responseIdentifier="RESPONSE">
+${prompt}
+      </extendedTextInteraction>`,
+        null
+      );
+  }
+};
+
+// QTI 2.1 has no multi-item document, so items are wrapped in a plain container element
+const exportQti = (questions: Question[], stage: { id: number; title: string }): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItems stage="${escapeXml(stage.title)}" count="${questions.length}">
+${questions.map(qtiItem).join('\n')}
+</assessmentItems>
+`;
+
+const readAttribute = (tag: string, name: string): string | null => {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? unescapeXml(match[1]) : null;
+};
+
+const innerText = (xml: string, element: string): string | null => {
+  const match = xml.match(new RegExp(`<${element}\\b[^>]*>([\\s\\S]*?)</${element}>`));
+  return match ? unescapeXml(match[1].replace(/<(?!!\[CDATA\[)[^>]+>/g, '')).trim() : null;
+};
+
+const parseQtiItem = (xml: string): QuestionBankItem => {
+  const openingTag = xml.match(/<assessmentItem\b[^>]*>/)?.[0] || '';
+  const prompt = innerText(xml, 'prompt');
+  const maxScore = xml.match(/<outcomeDeclaration\b[^>]*identifier="MAXSCORE"[^>]*>[\s\S]*?<value>([^<]*)<\/value>/)?.[1];
+  const base = {
+    questionText: prompt,
+    points: maxScore !== undefined ? Number(maxScore) : undefined,
+    category: readAttribute(openingTag, 'label'),
+    difficulty: null
+  };
+
+  const correctValues = [...(xml.match(/<correctResponse>([\s\S]*?)<\/correctResponse>/)?.[1] || '')
+    .matchAll(/<value>([^<]*)<\/value>/g)].map(m => m[1].trim());
+  const readChoices = (container: string, element: string) =>
+    [...container.matchAll(new RegExp(`<${element}\\b([^>]*)>([\\s\\S]*?)</${element}>`, 'g'))].map(m => ({
+      identifier: readAttribute(m[1], 'identifier'),
+      text: unescapeXml(m[2].replace(/<(?!!\[CDATA\[)[^>]+>/g, '')).trim()
+    }));
+  const textOf = (choices: { identifier: string | null; text: string }[], identifier: string) =>
+    choices.find(c => c.identifier === identifier)?.text ?? null;
+
+  const choiceInteraction = xml.match(/<choiceInteraction\b[\s\S]*?<\/choiceInteraction>/)?.[0];
+  if (choiceInteraction) {
+    const choices = readChoices(choiceInteraction, 'simpleChoice');
+    const cardinality = readAttribute(xml.match(/<responseDeclaration\b[^>]*>/)?.[0] || '', 'cardinality');
+
+    if (cardinality === 'multiple') {
+      return {
+        ...base,
+        type: 'multi-select',
+        options: choices.map(c => c.text),
+        correctAnswers: correctValues.map(v => textOf(choices, v)).filter(Boolean)
+      };
+    }
+    if (choices.length === 2 && choices.every(c => c.identifier === 'true' || c.identifier === 'false')) {
+      return { ...base, type: 'true-false', options: null, correctAnswer: correctValues[0] ?? null };
+    }
+    return {
+      ...base,
+      type: 'multiple-choice',
+      options: choices.map(c => c.text),
+      correctAnswer: correctValues.length > 0 ? textOf(choices, correctValues[0]) : null
+    };
+  }
+
+  // The correct response lists the steps in order
+  const orderInteraction = xml.match(/<orderInteraction\b[\s\S]*?<\/orderInteraction>/)?.[0];
+  if (orderInteraction) {
+    const choices = readChoices(orderInteraction, 'simpleChoice');
+    return { ...base, type: 'ordering', options: correctValues.map(v => textOf(choices, v)) };
+  }
+
+  // Each correct pair is "source target"; pairs are stored index-aligned
+  const matchInteraction = xml.match(/<matchInteraction\b[\s\S]*?<\/matchInteraction>/)?.[0];
+  if (matchInteraction) {
+    const choices = readChoices(matchInteraction, 'simpleAssociableChoice');
+    const pairs = correctValues.map(v => v.split(/\s+/));
+    return {
+      ...base,
+      type: 'matching',
+      options: pairs.map(([source]) => textOf(choices, source)),
+      matchTargets: pairs.map(([, target]) => textOf(choices, target))
+    };
+  }
+
+  if (/<extendedTextInteraction\b/.test(xml) || /<textEntryInteraction\b/.test(xml)) {
+    return { ...base, type: 'open-text', options: null, correctAnswer: null };
+  }
+
+  const interaction = xml.match(/<(\w+Interaction)\b/)?.[1] || 'none';
+  return { ...base, type: `unsupported QTI interaction: ${interaction}` };
+};
+
+const parseQti = (input: unknown): QuestionBankItem[] => {
+  if (typeof input !== 'string') {
+    throw new QuestionBankParseError('QTI imports must be sent as application/xml');
+  }
+
+  const items = input.match(/<assessmentItem\b[\s\S]*?<\/assessmentItem>/g);
+  if (!items) {
+    throw new QuestionBankParseError('No QTI 2.1 assessmentItem elements found');
+  }
+  return items.map(parseQtiItem);
+};
+
+// ---------------------------------------------------------------------------
+
+/**
+ * Serializes questions in one of the supported bank formats.
+ */
+export const serializeQuestionBank = (
+  format: QuestionBankFormat,
+  questions: Question[],
+  stage: { id: number; title: string }
+): string => {
+  switch (format) {
+    case 'json':
+      return exportJson(questions, stage);
+    case 'csv':
+      return exportCsv(questions);
+    case 'qti':
+      return exportQti(questions, stage);
+  }
+};
+
+/**
+ * Reads raw questions out of an uploaded file. Content is not validated here.
+ */
+export const parseQuestionBank = (format: QuestionBankFormat, input: unknown): QuestionBankItem[] => {
+  switch (format) {
+    case 'json':
+      return parseJson(input);
+    case 'csv':
+      return parseCsv(input);
+    case 'qti':
+      return parseQti(input);
+  }
+};
@@ -0,0 +1,125 @@
+import { EntityManager } from 'typeorm';
+import { Question } from '../entities/Question';
+import { Stage } from '../entities/Stage';
+import { parseQuestionBank, QuestionBankFormat, serializeQuestionBank } from './questionBankFormats';
+import {
+  buildQuestionContent,
+  initialQuestionStatus,
+  QuestionContent,
+  QuestionValidationError,
+  refreshStageQuestionCount
+} from './questionService';
+
+export type ImportItemStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface ImportItemReport {
+  index: number;
+  questionText: string | null;
+  status: ImportItemStatus;
+  errors: string[];
+  duplicateOf?: number | 'file';
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  format: QuestionBankFormat;
+  stageId: number;
+  total: number;
+  valid: number;
+  invalid: number;
+  duplicates: number;
+  created: number;
+  items: ImportItemReport[];
+}
+
+// Case and whitespace differences do not make a question new
+const normalizeText = (text: string): string => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Serializes the questions of a stage for download.
+ */
+export const exportStageQuestions = async (
+  manager: EntityManager,
+  stage: Stage,
+  format: QuestionBankFormat,
+  includeRetired = false
+): Promise<string> => {
+  const questions = await manager.getRepository(Question).find({
+    where: includeRetired ? { stageId: stage.id } : { stageId: stage.id, isActive: true },
+    order: { id: 'ASC' }
+  });
+  return serializeQuestionBank(format, questions, stage);
+};
+
+/**
+ * Validates an uploaded question bank against the question rules and the stage's
+ * active questions, and stores it unless `dryRun` is set. Duplicates are skipped;
+ * any invalid item blocks the whole import.
+ * @throws QuestionBankParseError when the file cannot be read at all
+ */
+export const importStageQuestions = async (
+  manager: EntityManager,
+  stage: Stage,
+  format: QuestionBankFormat,
+  input: unknown,
+  dryRun: boolean
+): Promise<ImportReport> => {
+  const items = parseQuestionBank(format, input);
+
+  const existing = await manager.getRepository(Question).find({
+    select: { id: true, questionText: true },
+    where: { stageId: stage.id, isActive: true }
+  });
+  const existingByText = new Map(existing.map(q => [normalizeText(q.questionText), q.id]));
+  const seenInFile = new Set<string>();
+
+  const toCreate: QuestionContent[] = [];
+  const reports: ImportItemReport[] = items.map((item, index) => {
+    const questionText = typeof item?.questionText === 'string' ? item.questionText.trim() || null : null;
+
+    let content: QuestionContent;
+    try {
+      content = buildQuestionContent({ ...item, difficulty: item?.difficulty ?? stage.difficulty }, index);
+    } catch (error) {
+      if (!(error instanceof QuestionValidationError)) {
+        throw error;
+      }
+      return { index, questionText, status: 'invalid', errors: error.details[0].errors };
+    }
+
+    const key = normalizeText(content.questionText);
+    const existingId = existingByText.get(key);
+    if (existingId !== undefined) {
+      return { index, questionText, status: 'duplicate', errors: [], duplicateOf: existingId };
+    }
+    if (seenInFile.has(key)) {
+      return { index, questionText, status: 'duplicate', errors: [], duplicateOf: 'file' };
+    }
+
+    seenInFile.add(key);
+    toCreate.push(content);
+    return { index, questionText, status: 'valid', errors: [] };
+  });
+
+  const report: ImportReport = {
+    dryRun,
+    format,
+    stageId: stage.id,
+    total: reports.length,
+    valid: reports.filter(r => r.status === 'valid').length,
+    invalid: reports.filter(r => r.status === 'invalid').length,
+    duplicates: reports.filter(r => r.status === 'duplicate').length,
+    created: 0,
+    items: reports
+  };
+
+  if (dryRun || report.invalid > 0 || toCreate.length === 0) {
+    return report;
+  }
+
+  const status = initialQuestionStatus(stage);
+  await manager.getRepository(Question).save(toCreate.map(content => ({ ...content, stageId: stage.id, status })));
+  await refreshStageQuestionCount(manager, stage.id);
+  report.created = toCreate.length;
+  return report;
+};
@@ -0,0 +1,152 @@
+import { EntityManager } from 'typeorm';
+import { AppDataSource } from '../config/database-minimal';
+import { QuestionGenerationJob } from '../entities/QuestionGenerationJob';
+import { Stage } from '../entities/Stage';
+import { generateQuestionsForStage } from './questionGenerationService';
+
+// One generation per poll keeps AI usage bounded however many learners ask for quizzes
+const POLL_INTERVAL_MS = 60000;
+// A job locked for longer than this is assumed to belong to a crashed worker
+const STALE_LOCK_MS = 10 * 60 * 1000;
+// A stage, category and difficulty is not generated for again within this window
+export const GENERATION_COOLDOWN_MS = 6 * 60 * 60 * 1000;
+
+let pollTimer: NodeJS.Timeout | null = null;
+let isProcessing = false;
+
+/**
+ * Queues the generation of closed questions of a category for a stage. Returns the
+ * existing job instead when the same stage, category and difficulty is already queued
+ * or was handled within the cooldown.
+ */
+export const enqueueQuestionGenerationJob = async (
+  manager: EntityManager,
+  request: { stageId: number; category: string; difficulty: string | null; requested: number }
+): Promise<{ job: QuestionGenerationJob; queued: boolean }> => {
+  const jobRepository = manager.getRepository(QuestionGenerationJob);
+
+  const existing = await jobRepository
+    .createQueryBuilder('job')
+    .where('job.stage_id = :stageId', { stageId: request.stageId })
+    .andWhere('LOWER(TRIM(job.category)) = :category', { category: request.category.trim().toLowerCase() })
+    .andWhere('job.difficulty IS NOT DISTINCT FROM :difficulty', { difficulty: request.difficulty })
+    .andWhere(
+      '(job.status IN (:...openStatuses) OR job.finished_at >= :cooldownStart)',
+      { openStatuses: ['pending', 'running'], cooldownStart: new Date(Date.now() - GENERATION_COOLDOWN_MS) }
+    )
+    .orderBy('job.created_at', 'DESC')
+    .getOne();
+  if (existing) {
+    return { job: existing, queued: false };
+  }
+
+  const job = await jobRepository.save(jobRepository.create({
+    stageId: request.stageId,
+    category: request.category.trim(),
+    difficulty: request.difficulty,
+    requested: request.requested,
+    status: 'pending'
+  }));
+  return { job, queued: true };
+};
+
+// Atomically takes the oldest due job so several server instances never run the same one
+const claimNextJob = async (): Promise<QuestionGenerationJob | null> => {
+  const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+  const [rows] = await AppDataSource.query(
+    `UPDATE question_generation_jobs
+        SET status = 'running', locked_at = NOW(), updated_at = NOW()
+      WHERE id = (
+        SELECT id FROM question_generation_jobs
+         WHERE status = 'pending'
+            OR (status = 'running' AND locked_at < $1)
+         ORDER BY created_at ASC
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id`,
+    [staleBefore]
+  );
+
+  if (!rows || rows.length === 0) {
+    return null;
+  }
+  return AppDataSource.getRepository(QuestionGenerationJob).findOne({ where: { id: rows[0].id } });
+};
+
+// Generated questions are kept as drafts: they only reach learners once an admin approves them
+const runJob = async (job: QuestionGenerationJob): Promise<void> => {
+  const jobRepository = AppDataSource.getRepository(QuestionGenerationJob);
+
+  try {
+    const stage = await AppDataSource.getRepository(Stage).findOne({ where: { id: job.stageId } });
+    if (!stage) {
+      throw new Error(`Stage ${job.stageId} not found`);
+    }
+    const { savedQuestions } = await generateQuestionsForStage(stage, 0, job.requested, {
+      category: job.category,
+      difficulty: job.difficulty ?? undefined,
+      status: 'draft'
+    });
+    job.status = 'completed';
+    job.generatedCount = savedQuestions.length;
+    job.lastError = null;
+    console.log(`✅ ${savedQuestions.length} draft question(s) generated for "${job.category}" in stage ${job.stageId} (job ${job.id})`);
+  } catch (error) {
+    job.status = 'failed';
+    job.lastError = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Question generation job ${job.id} failed:`, job.lastError);
+  }
+
+  job.lockedAt = null;
+  job.finishedAt = new Date();
+  await jobRepository.save(job);
+};
+
+/**
+ * Runs the oldest due generation job, if any. Concurrent calls in the same process
+ * are coalesced.
+ */
+export const processNextQuestionGenerationJob = async (): Promise<void> => {
+  if (isProcessing || !AppDataSource.isInitialized) {
+    return;
+  }
+
+  isProcessing = true;
+  try {
+    const job = await claimNextJob();
+    if (job) {
+      await runJob(job);
+    }
+  } catch (error) {
+    console.error('Error processing question generation jobs:', error);
+  } finally {
+    isProcessing = false;
+  }
+};
+
+/**
+ * Starts polling for question generation jobs. Called once the database connection
+ * is ready.
+ */
+export const startQuestionGenerationWorker = (): void => {
+  if (pollTimer) {
+    return;
+  }
+  const tick = () => {
+    processNextQuestionGenerationJob().catch(error => console.error('Error running question generation worker:', error));
+  };
+  pollTimer = setInterval(tick, POLL_INTERVAL_MS);
+  tick();
+  console.log('✍️ Question generation worker started');
+};
+
+/**
+ * Stops polling for question generation jobs.
+ */
+export const stopQuestionGenerationWorker = (): void => {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+};
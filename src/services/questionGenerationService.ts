@@ -0,0 +1,125 @@
+import { AppDataSource } from '../config/database-minimal';
+import { Question, QuestionStatus } from '../entities/Question';
+import { Stage } from '../entities/Stage';
+import { openRouterService } from './openRouterService';
+import { initialQuestionStatus, refreshStageQuestionCount, retireStageQuestions } from './questionService';
+import { GeneratedQuestionType, QuestionGenerationReport } from './questionSchema';
+import { AUTO_GRADED_QUESTION_TYPES, normalizeQuestionType } from './questionTypes';
+
+export interface StageQuestionGenerationResult {
+  savedQuestions: Question[];
+  retiredCount: number;
+  report: QuestionGenerationReport;
+}
+
+/**
+ * Valida los parámetros de una generación de preguntas.
+ * @returns mensaje de error, o null si son válidos
+ */
+export const validateGenerationParams = (stageId: number, openQuestions: number, closedQuestions: number): string | null => {
+  if (!stageId || stageId <= 0) {
+    return 'ID de etapa inválido';
+  }
+  if (isNaN(openQuestions) || isNaN(closedQuestions)) {
+    return 'El número de preguntas debe ser un número';
+  }
+  if (openQuestions < 0 || closedQuestions < 0) {
+    return 'El número de preguntas no puede ser negativo';
+  }
+  if (openQuestions + closedQuestions === 0) {
+    return 'Debe especificar al menos una pregunta';
+  }
+  if (openQuestions + closedQuestions > 20) {
+    return 'No puede generar más de 20 preguntas a la vez';
+  }
+  return null;
+};
+
+/**
+ * Reads the closed question types to generate from a `types` parameter, either a
+ * comma-separated list (e.g. `multiple-choice,ordering`) or an array. Defaults to
+ * multiple choice.
+ * @returns the types, or null when one of them is not auto-graded
+ */
+export const parseClosedTypes = (types: unknown): GeneratedQuestionType[] | null => {
+  if (types === undefined || types === null) {
+    return ['multiple-choice'];
+  }
+  const closedTypes = (Array.isArray(types) ? types : String(types).split(',')).map(t => normalizeQuestionType(t));
+  return closedTypes.length > 0 && closedTypes.every(t => t !== null && AUTO_GRADED_QUESTION_TYPES.includes(t))
+    ? closedTypes as GeneratedQuestionType[]
+    : null;
+};
+
+/**
+ * Generates validated questions for a stage with AI and stores them.
+ * Only questions that pass the schema are saved; the report lists what was dropped.
+ * With `category`, the questions are asked for and filed under that category; with
+ * `difficulty`, they are asked for at that level instead of the stage's. `status`
+ * overrides the stage's review flow, e.g. to keep them as drafts.
+ */
+export const generateQuestionsForStage = async (
+  stage: Stage,
+  openQuestions: number,
+  closedQuestions: number,
+  {
+    replaceExisting = false,
+    closedTypes = ['multiple-choice'],
+    category,
+    difficulty,
+    status
+  }: {
+    replaceExisting?: boolean;
+    closedTypes?: GeneratedQuestionType[];
+    category?: string;
+    difficulty?: string;
+    status?: QuestionStatus;
+  } = {}
+): Promise<StageQuestionGenerationResult> => {
+  const { questions, report } = await openRouterService.getInstance().generateQuestions(
+    stage.title,
+    difficulty ?? stage.difficulty,
+    openQuestions,
+    closedQuestions,
+    [
+      stage.considerations,
+      category ? `Todas las preguntas deben tratar la categoría "${category}"` : null
+    ].filter(Boolean).join('. ') || undefined,
+    closedTypes
+  );
+
+  let retiredCount = 0;
+  const savedQuestions = await AppDataSource.transaction(async manager => {
+    const questionRepository = manager.getRepository(Question);
+
+    if (replaceExisting) {
+      retiredCount = await retireStageQuestions(manager, stage.id);
+    }
+
+    const saved = await questionRepository.save(
+      questions.map(q => ({
+        stageId: stage.id,
+        type: q.type,
+        questionText: q.questionText,
+        options: q.options,
+        correctAnswer: q.correctAnswer,
+        correctAnswers: q.correctAnswers,
+        matchTargets: q.matchTargets,
+        points: q.points,
+        category: category ?? q.category,
+        difficulty: difficulty ?? q.difficulty,
+        status: status ?? initialQuestionStatus(stage)
+      }))
+    );
+
+    await refreshStageQuestionCount(manager, stage.id);
+
+    return saved;
+  });
+
+  if (report.droppedCount > 0 || report.repromptUsed) {
+    console.warn(`⚠️ Generación de preguntas para stage ${stage.id}:`, JSON.stringify(report));
+  }
+
+  return { savedQuestions, retiredCount, report };
+};
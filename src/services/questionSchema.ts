@@ -0,0 +1,371 @@
+import { QuestionAttachment, RubricCriterion } from '../entities/Question';
+import {
+  normalizeQuestionType,
+  parseTrueFalse,
+  QUESTION_ATTACHMENT_KINDS,
+  QUESTION_TYPES,
+  QuestionType
+} from './questionTypes';
+
+export type GeneratedQuestionType = QuestionType;
+
+export interface GeneratedQuestion {
+  type: GeneratedQuestionType;
+  questionText: string;
+  options: string[] | null;
+  correctAnswer: string | null;
+  correctAnswers: string[] | null;
+  matchTargets: string[] | null;
+  points: number;
+  category: string | null;
+  difficulty: string | null;
+  rubric: RubricCriterion[] | null;
+  attachments: QuestionAttachment[] | null;
+}
+
+export interface QuestionIssue {
+  index: number;
+  questionText: string | null;
+  errors: string[];
+}
+
+export interface QuestionSetValidation {
+  valid: GeneratedQuestion[];
+  issues: QuestionIssue[];
+  countErrors: string[];
+}
+
+export const MULTIPLE_CHOICE_OPTION_COUNT = 4;
+
+// Item count of multi-select options, ordering steps and matching pairs
+export const MIN_LIST_ITEMS = 3;
+export const MAX_LIST_ITEMS = 8;
+
+export const MAX_RUBRIC_CRITERIA = 10;
+
+export const MAX_ATTACHMENTS = 3;
+export const MAX_ATTACHMENT_LENGTH = 20000;
+
+const DEFAULT_POINTS: Record<GeneratedQuestionType, number> = {
+  'open-text': 2,
+  'artifact': 3,
+  'multiple-choice': 1,
+  'multi-select': 2,
+  'true-false': 1,
+  'ordering': 2,
+  'matching': 2
+};
+
+const optionalString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+// Validates a list of distinct, non-empty items such as options or matching targets
+const validateItemList = (raw: unknown, field: string, errors: string[]): string[] | null => {
+  if (!Array.isArray(raw)) {
+    errors.push(`${field} debe ser un arreglo de ${MIN_LIST_ITEMS} a ${MAX_LIST_ITEMS} elementos`);
+    return null;
+  }
+  const items = raw.map((o: unknown) => (typeof o === 'string' ? o.trim() : ''));
+  if (items.length < MIN_LIST_ITEMS || items.length > MAX_LIST_ITEMS) {
+    errors.push(`${field} debe tener entre ${MIN_LIST_ITEMS} y ${MAX_LIST_ITEMS} elementos (tiene ${items.length})`);
+  }
+  if (items.some(o => !o)) {
+    errors.push(`Los elementos de ${field} no pueden estar vacíos`);
+  }
+  if (new Set(items).size !== items.length) {
+    errors.push(`Los elementos de ${field} no pueden repetirse`);
+  }
+  return items;
+};
+
+/**
+ * Validates a rubric for an open question: a list of criteria with positive weights.
+ * Weights are relative, so they do not need to add up to any particular total.
+ */
+export const validateRubric = (raw: unknown): { rubric: RubricCriterion[] | null; errors: string[] } => {
+  if (raw === undefined || raw === null) {
+    return { rubric: null, errors: [] };
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { rubric: null, errors: ['rubric debe ser un arreglo de criterios no vacío'] };
+  }
+
+  const errors: string[] = [];
+  if (raw.length > MAX_RUBRIC_CRITERIA) {
+    errors.push(`rubric admite como máximo ${MAX_RUBRIC_CRITERIA} criterios`);
+  }
+
+  const rubric = raw.map((item: any, index: number) => {
+    const criterion = optionalString(item?.criterion);
+    if (!criterion) {
+      errors.push(`rubric[${index}].criterion es obligatorio`);
+    }
+    const weight = item?.weight === undefined || item?.weight === null ? 1 : Number(item.weight);
+    if (!Number.isFinite(weight) || weight <= 0) {
+      errors.push(`rubric[${index}].weight debe ser un número positivo`);
+    }
+    return { criterion: criterion || '', weight };
+  });
+
+  if (new Set(rubric.map(c => c.criterion.toLowerCase())).size !== rubric.length) {
+    errors.push('Los criterios de la rúbrica no pueden repetirse');
+  }
+
+  return errors.length > 0 ? { rubric: null, errors } : { rubric, errors };
+};
+
+/**
+ * Validates the material attached to a question. Content is kept verbatim (only
+ * surrounding blank lines are dropped) so code indentation survives.
+ */
+export const validateAttachments = (raw: unknown): { attachments: QuestionAttachment[] | null; errors: string[] } => {
+  if (raw === undefined || raw === null) {
+    return { attachments: null, errors: [] };
+  }
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { attachments: null, errors: ['attachments debe ser un arreglo de adjuntos no vacío'] };
+  }
+
+  const errors: string[] = [];
+  if (raw.length > MAX_ATTACHMENTS) {
+    errors.push(`attachments admite como máximo ${MAX_ATTACHMENTS} adjuntos`);
+  }
+
+  const attachments = raw.map((item: any, index: number) => {
+    const kind = typeof item?.kind === 'string' ? item.kind.trim().toLowerCase() : '';
+    if (!QUESTION_ATTACHMENT_KINDS.includes(kind)) {
+      errors.push(`attachments[${index}].kind debe ser uno de: ${QUESTION_ATTACHMENT_KINDS.join(', ')}`);
+    }
+    const content = typeof item?.content === 'string' ? item.content.replace(/^\s*\n|\s+$/g, '') : '';
+    if (!content.trim()) {
+      errors.push(`attachments[${index}].content es obligatorio`);
+    } else if (content.length > MAX_ATTACHMENT_LENGTH) {
+      errors.push(`attachments[${index}].content admite como máximo ${MAX_ATTACHMENT_LENGTH} caracteres`);
+    }
+    const language = optionalString(item?.language);
+    if (language && kind !== 'code') {
+      errors.push(`attachments[${index}].language solo aplica a adjuntos de código`);
+    }
+    return { kind, title: optionalString(item?.title), language, content } as QuestionAttachment;
+  });
+
+  return errors.length > 0 ? { attachments: null, errors } : { attachments, errors };
+};
+
+/**
+ * Validates one question as produced by the AI and converts it to its typed form.
+ * @returns the question when it satisfies every rule, plus the list of violations
+ */
+export const validateGeneratedQuestion = (raw: any): { question: GeneratedQuestion | null; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object') {
+    return { question: null, errors: ['La pregunta no es un objeto JSON'] };
+  }
+
+  const type = normalizeQuestionType(raw.type);
+  if (!type) {
+    errors.push(`Tipo inválido "${raw.type}". Debe ser uno de: ${QUESTION_TYPES.join(', ')}`);
+  }
+
+  const questionText = optionalString(raw.questionText);
+  if (!questionText) {
+    errors.push('questionText es obligatorio');
+  }
+
+  let points = DEFAULT_POINTS[type || 'multiple-choice'];
+  if (raw.points !== undefined && raw.points !== null) {
+    points = Number(raw.points);
+    if (!Number.isInteger(points) || points <= 0) {
+      errors.push('points debe ser un entero positivo');
+    }
+  }
+
+  let options: string[] | null = null;
+  let correctAnswer: string | null = null;
+  let correctAnswers: string[] | null = null;
+  let matchTargets: string[] | null = null;
+
+  if (type === 'multiple-choice') {
+    if (!Array.isArray(raw.options)) {
+      errors.push(`options debe ser un arreglo de ${MULTIPLE_CHOICE_OPTION_COUNT} opciones`);
+    } else {
+      options = raw.options.map((o: unknown) => (typeof o === 'string' ? o.trim() : ''));
+      if (options!.length !== MULTIPLE_CHOICE_OPTION_COUNT) {
+        errors.push(`Debe tener exactamente ${MULTIPLE_CHOICE_OPTION_COUNT} opciones (tiene ${options!.length})`);
+      }
+      if (options!.some(o => !o)) {
+        errors.push('Las opciones no pueden estar vacías');
+      }
+      if (new Set(options).size !== options!.length) {
+        errors.push('Las opciones no pueden repetirse');
+      }
+    }
+
+    correctAnswer = optionalString(raw.correctAnswer);
+    if (!correctAnswer) {
+      errors.push('correctAnswer es obligatorio en preguntas de opción múltiple');
+    } else if (options && !options.includes(correctAnswer)) {
+      errors.push('correctAnswer debe coincidir exactamente con una de las opciones');
+    }
+  }
+
+  if (type === 'multi-select') {
+    options = validateItemList(raw.options, 'options', errors);
+    if (!Array.isArray(raw.correctAnswers) || raw.correctAnswers.length === 0) {
+      errors.push('correctAnswers debe listar al menos una opción correcta');
+    } else {
+      correctAnswers = raw.correctAnswers.map((o: unknown) => (typeof o === 'string' ? o.trim() : ''));
+      if (options && correctAnswers!.some(o => !options!.includes(o))) {
+        errors.push('Cada elemento de correctAnswers debe coincidir exactamente con una de las opciones');
+      }
+      if (new Set(correctAnswers).size !== correctAnswers!.length) {
+        errors.push('correctAnswers no puede repetir opciones');
+      }
+    }
+  }
+
+  if (type === 'true-false') {
+    const value = parseTrueFalse(raw.correctAnswer);
+    if (value === null) {
+      errors.push('correctAnswer debe ser "true" o "false" en preguntas de verdadero o falso');
+    } else {
+      correctAnswer = String(value);
+    }
+  }
+
+  // Ordering steps are stored in the correct order; learners see them shuffled
+  if (type === 'ordering') {
+    options = validateItemList(raw.options, 'options', errors);
+  }
+
+  if (type === 'matching') {
+    options = validateItemList(raw.options, 'options', errors);
+    matchTargets = validateItemList(raw.matchTargets, 'matchTargets', errors);
+    if (options && matchTargets && options.length !== matchTargets.length) {
+      errors.push('options y matchTargets deben tener la misma cantidad de elementos');
+    }
+  }
+
+  const { rubric, errors: rubricErrors } = validateRubric(raw.rubric);
+  errors.push(...rubricErrors);
+  if (rubric && type && type !== 'open-text' && type !== 'artifact') {
+    errors.push('rubric solo aplica a preguntas abiertas');
+  }
+
+  // Any question may show attachments; artifact questions are built around them
+  const { attachments, errors: attachmentErrors } = validateAttachments(raw.attachments);
+  errors.push(...attachmentErrors);
+  if (type === 'artifact' && !attachments && attachmentErrors.length === 0) {
+    errors.push('Las preguntas de tipo artifact necesitan al menos un adjunto en attachments');
+  }
+
+  if (errors.length > 0) {
+    return { question: null, errors };
+  }
+
+  return {
+    question: {
+      type: type!,
+      questionText: questionText!,
+      options,
+      correctAnswer,
+      correctAnswers,
+      matchTargets,
+      points,
+      category: optionalString(raw.category),
+      difficulty: optionalString(raw.difficulty),
+      rubric,
+      attachments
+    },
+    errors
+  };
+};
+
+/**
+ * Validates a full AI response (`{ questions: [...] }`) against the requested number of
+ * open and closed questions. Closed questions must use one of `closedTypes`; surplus
+ * valid questions are discarded.
+ */
+export const validateGeneratedQuestionSet = (
+  raw: any,
+  expectedOpen: number,
+  expectedClosed: number,
+  closedTypes: GeneratedQuestionType[] = ['multiple-choice']
+): QuestionSetValidation => {
+  const items: any[] = Array.isArray(raw?.questions) ? raw.questions : [];
+  const valid: GeneratedQuestion[] = [];
+  const issues: QuestionIssue[] = [];
+  const countErrors: string[] = [];
+
+  if (!Array.isArray(raw?.questions)) {
+    countErrors.push('La respuesta debe tener la forma { "questions": [...] }');
+  }
+
+  items.forEach((item, index) => {
+    const { question, errors } = validateGeneratedQuestion(item);
+    if (question && question.type !== 'open-text' && !closedTypes.includes(question.type)) {
+      issues.push({
+        index,
+        questionText: question.questionText,
+        errors: [`Tipo "${question.type}" no solicitado. Usa: ${closedTypes.join(', ')}`]
+      });
+    } else if (question) {
+      valid.push(question);
+    } else {
+      issues.push({ index, questionText: optionalString(item?.questionText), errors });
+    }
+  });
+
+  const open = valid.filter(q => q.type === 'open-text');
+  const closed = valid.filter(q => q.type !== 'open-text');
+
+  if (open.length < expectedOpen) {
+    countErrors.push(`Se esperaban ${expectedOpen} preguntas abiertas válidas y hay ${open.length}`);
+  }
+  if (closed.length < expectedClosed) {
+    countErrors.push(`Se esperaban ${expectedClosed} preguntas cerradas válidas y hay ${closed.length}`);
+  }
+
+  return {
+    valid: [...open.slice(0, expectedOpen), ...closed.slice(0, expectedClosed)],
+    issues,
+    countErrors
+  };
+};
+
+/**
+ * Parses a model response that should contain JSON, tolerating markdown code fences.
+ */
+export const parseModelJson = (response: string): any => {
+  const cleanedResponse = response.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+  return JSON.parse(cleanedResponse);
+};
+
+export interface GenerationRound {
+  round: number;
+  parseError: string | null;
+  issues: QuestionIssue[];
+  countErrors: string[];
+}
+
+/**
+ * Outcome of an AI generation run, returned to admins so they can see what was dropped.
+ */
+export interface QuestionGenerationReport {
+  requested: { open: number; closed: number };
+  accepted: { open: number; closed: number };
+  repromptUsed: boolean;
+  droppedCount: number;
+  rounds: GenerationRound[];
+}
+
+/**
+ * Raised when not a single generated question survives validation.
+ */
+export class QuestionGenerationError extends Error {
+  constructor(message: string, public readonly report: QuestionGenerationReport) {
+    super(message);
+    this.name = 'QuestionGenerationError';
+  }
+}
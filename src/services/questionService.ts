@@ -0,0 +1,369 @@
+import { EntityManager, In } from 'typeorm';
+import { PracticeResponse } from '../entities/PracticeResponse';
+import { Question, QuestionStatus } from '../entities/Question';
+import { Stage } from '../entities/Stage';
+import { UserResponse } from '../entities/UserResponse';
+import { validateGeneratedQuestion } from './questionSchema';
+
+export type QuestionContent = Pick<
+  Question,
+  | 'type' | 'questionText' | 'options' | 'correctAnswer' | 'correctAnswers' | 'matchTargets'
+  | 'points' | 'category' | 'difficulty' | 'rubric' | 'attachments'
+>;
+
+export const QUESTION_CONTENT_FIELDS: (keyof QuestionContent)[] = [
+  'type', 'questionText', 'options', 'correctAnswer', 'correctAnswers', 'matchTargets',
+  'points', 'category', 'difficulty', 'rubric', 'attachments'
+];
+
+// Fields that can be changed on many questions at once
+export const BULK_EDITABLE_FIELDS: (keyof QuestionContent)[] = ['points', 'category', 'difficulty'];
+
+export type ReviewAction = 'submit' | 'approve' | 'reject';
+
+// Status each review action leads to, and the statuses it can start from
+const REVIEW_TRANSITIONS: Record<ReviewAction, { to: QuestionStatus; from: QuestionStatus[] }> = {
+  submit: { to: 'in_review', from: ['draft', 'rejected'] },
+  approve: { to: 'approved', from: ['draft', 'in_review', 'rejected'] },
+  reject: { to: 'rejected', from: ['draft', 'in_review', 'approved'] }
+};
+
+export interface QuestionFilters {
+  stageId?: number;
+  status?: QuestionStatus;
+  type?: string;
+  category?: string;
+  difficulty?: string;
+  search?: string;
+  state?: 'active' | 'retired' | 'all';
+  page: number;
+  limit: number;
+}
+
+/**
+ * Raised when question input breaks the question rules. `details` holds one entry per
+ * invalid question so bulk requests can report every problem at once.
+ */
+export class QuestionValidationError extends Error {
+  constructor(public readonly details: { index: number; errors: string[] }[]) {
+    super('Invalid question data');
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * Raised when a review action does not apply to the current status of some questions.
+ */
+export class QuestionReviewError extends Error {
+  constructor(message: string, public readonly questionIds: number[]) {
+    super(message);
+    this.name = 'QuestionReviewError';
+  }
+}
+
+/**
+ * Status given to new questions of a stage: they wait for review unless the stage auto-approves.
+ */
+export const initialQuestionStatus = (stage: { autoApproveQuestions: boolean }): QuestionStatus =>
+  stage.autoApproveQuestions ? 'approved' : 'in_review';
+
+/**
+ * Validates admin input with the same rules applied to AI-generated questions.
+ * For edits, pass the current question so omitted fields keep their value.
+ */
+export const buildQuestionContent = (raw: any, index = 0, current?: Question): QuestionContent => {
+  const merged: any = {};
+  for (const field of QUESTION_CONTENT_FIELDS) {
+    const value = raw?.[field] !== undefined ? raw[field] : current?.[field];
+    if (value !== undefined) {
+      merged[field] = value;
+    }
+  }
+
+  const { question, errors } = validateGeneratedQuestion(merged);
+  if (!question) {
+    throw new QuestionValidationError([{ index, errors }]);
+  }
+  return question;
+};
+
+/**
+ * Pulls only the known content fields out of a request body.
+ */
+export const pickQuestionChanges = (
+  raw: any,
+  fields: (keyof QuestionContent)[] = QUESTION_CONTENT_FIELDS
+): Partial<QuestionContent> => {
+  const changes: Partial<QuestionContent> = {};
+  for (const field of fields) {
+    if (raw?.[field] !== undefined) {
+      (changes as any)[field] = raw[field];
+    }
+  }
+  return changes;
+};
+
+/**
+ * Lists questions with filters and pagination, newest first.
+ */
+export const findQuestions = async (
+  manager: EntityManager,
+  filters: QuestionFilters
+): Promise<{ questions: Question[]; total: number }> => {
+  const query = manager.getRepository(Question).createQueryBuilder('question');
+
+  if (filters.stageId !== undefined) {
+    query.andWhere('question.stage_id = :stageId', { stageId: filters.stageId });
+  }
+  if (filters.status) {
+    query.andWhere('question.status = :status', { status: filters.status });
+  }
+  if (filters.type) {
+    // Older rows use underscores, e.g. multiple_choice
+    query.andWhere('question.type IN (:...types)', {
+      types: [filters.type.replace(/_/g, '-'), filters.type.replace(/-/g, '_')]
+    });
+  }
+  if (filters.category) {
+    query.andWhere('question.category ILIKE :category', { category: filters.category });
+  }
+  if (filters.difficulty) {
+    query.andWhere('question.difficulty = :difficulty', { difficulty: filters.difficulty });
+  }
+  if (filters.search) {
+    query.andWhere('question.question_text ILIKE :search', { search: `%${filters.search}%` });
+  }
+  if (filters.state !== 'all') {
+    query.andWhere('question.is_active = :isActive', { isActive: filters.state !== 'retired' });
+  }
+
+  const [questions, total] = await query
+    .orderBy('question.created_at', 'DESC')
+    .addOrderBy('question.id', 'DESC')
+    .skip((filters.page - 1) * filters.limit)
+    .take(filters.limit)
+    .getManyAndCount();
+
+  return { questions, total };
+};
+
+/**
+ * Keeps `stages.question_count` in line with the questions evaluations can use.
+ */
+export const refreshStageQuestionCount = async (manager: EntityManager, stageId: number): Promise<number> => {
+  const questionCount = await countSelectableQuestions(manager, stageId);
+  await manager.getRepository(Stage).update(stageId, { questionCount });
+  return questionCount;
+};
+
+/**
+ * Validates and stores new questions for a stage. Nothing is saved if any item is invalid.
+ */
+export const createQuestions = async (
+  manager: EntityManager,
+  stageId: number,
+  raws: any[],
+  status: QuestionStatus
+): Promise<Question[]> => {
+  const details: { index: number; errors: string[] }[] = [];
+  const contents: QuestionContent[] = [];
+
+  raws.forEach((raw, index) => {
+    try {
+      contents.push(buildQuestionContent(raw, index));
+    } catch (error) {
+      if (!(error instanceof QuestionValidationError)) {
+        throw error;
+      }
+      details.push(...error.details);
+    }
+  });
+
+  if (details.length > 0) {
+    throw new QuestionValidationError(details);
+  }
+
+  const saved = await manager.getRepository(Question).save(contents.map(content => ({ ...content, stageId, status })));
+  await refreshStageQuestionCount(manager, stageId);
+  return saved;
+};
+
+/**
+ * Whether a learner has already seen the question, either through a saved
+ * response or because it was served in an attempt or a practice session.
+ */
+export const isQuestionInUse = async (manager: EntityManager, questionId: number): Promise<boolean> => {
+  const responseCount = await manager.getRepository(UserResponse).count({
+    where: { question: { id: questionId } }
+  });
+  const practiceResponseCount = await manager.getRepository(PracticeResponse).count({
+    where: { questionId }
+  });
+  if (responseCount > 0 || practiceResponseCount > 0) {
+    return true;
+  }
+
+  const servedIn = await manager.query(
+    `SELECT 1 FROM evaluation_attempts WHERE question_ids @> $1::jsonb
+     UNION ALL
+     SELECT 1 FROM practice_sessions WHERE question_ids @> $1::jsonb
+     LIMIT 1`,
+    [JSON.stringify([questionId])]
+  );
+  return servedIn.length > 0;
+};
+
+/**
+ * Takes questions out of circulation. Rows are kept so past responses and
+ * feedback still point at the exact text and options the learner saw.
+ * @returns number of questions retired
+ */
+export const retireQuestions = async (manager: EntityManager, questionIds: number[]): Promise<number> => {
+  if (questionIds.length === 0) {
+    return 0;
+  }
+
+  const result = await manager
+    .createQueryBuilder()
+    .update(Question)
+    .set({ isActive: false, retiredAt: () => 'CURRENT_TIMESTAMP' })
+    .where('id IN (:...questionIds)', { questionIds })
+    .andWhere('is_active = true')
+    .execute();
+  return result.affected || 0;
+};
+
+/**
+ * Retires every active question of a stage, e.g. before regenerating its bank.
+ */
+export const retireStageQuestions = async (manager: EntityManager, stageId: number): Promise<number> => {
+  const active = await manager.getRepository(Question).find({
+    select: { id: true },
+    where: { stageId, isActive: true }
+  });
+  return retireQuestions(manager, active.map(q => q.id));
+};
+
+// Active, approved questions are the only ones evaluations may serve
+export const countSelectableQuestions = (manager: EntityManager, stageId: number): Promise<number> =>
+  manager.getRepository(Question).count({ where: { stageId, isActive: true, status: 'approved' } });
+
+/**
+ * Applies an edit to a question. Questions nobody has seen are updated in place;
+ * otherwise the original is retired and the edit becomes a new version. Either way
+ * the edited content goes back through the stage's review flow (drafts stay drafts),
+ * so a changed answer key is never served under an earlier approval.
+ */
+export const reviseQuestion = async (
+  manager: EntityManager,
+  question: Question,
+  changes: Partial<QuestionContent>
+): Promise<{ question: Question; versioned: boolean }> => {
+  const questionRepository = manager.getRepository(Question);
+  const stage = await manager.getRepository(Stage).findOneOrFail({ where: { id: question.stageId } });
+  const review = {
+    status: question.status === 'draft' ? 'draft' as const : initialQuestionStatus(stage),
+    reviewerNotes: null,
+    reviewedBy: null,
+    reviewedAt: null
+  };
+
+  if (!(await isQuestionInUse(manager, question.id))) {
+    await questionRepository.update(question.id, { ...changes, ...review });
+    await refreshStageQuestionCount(manager, question.stageId);
+    const updated = await questionRepository.findOneOrFail({ where: { id: question.id } });
+    return { question: updated, versioned: false };
+  }
+
+  await retireQuestions(manager, [question.id]);
+
+  const nextVersion = await questionRepository.save({
+    stageId: question.stageId,
+    type: question.type,
+    questionText: question.questionText,
+    options: question.options,
+    correctAnswer: question.correctAnswer,
+    correctAnswers: question.correctAnswers,
+    matchTargets: question.matchTargets,
+    points: question.points,
+    category: question.category,
+    difficulty: question.difficulty,
+    rubric: question.rubric,
+    attachments: question.attachments,
+    ...changes,
+    ...review,
+    version: question.version + 1,
+    previousVersionId: question.id
+  });
+  await refreshStageQuestionCount(manager, question.stageId);
+  return { question: nextVersion, versioned: true };
+};
+
+/**
+ * Returns every version of a question, oldest first.
+ */
+export const getQuestionHistory = async (manager: EntityManager, question: Question): Promise<Question[]> => {
+  const rows: { id: number }[] = await manager.query(
+    `WITH RECURSIVE older AS (
+       SELECT id, previous_version_id FROM questions WHERE id = $1
+       UNION ALL
+       SELECT q.id, q.previous_version_id FROM questions q JOIN older o ON q.id = o.previous_version_id
+     ), newer AS (
+       SELECT id FROM questions WHERE id = $1
+       UNION ALL
+       SELECT q.id FROM questions q JOIN newer n ON q.previous_version_id = n.id
+     )
+     SELECT id FROM older UNION SELECT id FROM newer`,
+    [question.id]
+  );
+
+  return manager.getRepository(Question)
+    .createQueryBuilder('question')
+    .where('question.id IN (:...ids)', { ids: rows.map(r => r.id) })
+    .orderBy('question.version', 'ASC')
+    .getMany();
+};
+
+/**
+ * Moves questions through the review workflow. All questions must allow the action,
+ * otherwise nothing changes.
+ */
+export const reviewQuestions = async (
+  manager: EntityManager,
+  questionIds: number[],
+  action: ReviewAction,
+  reviewerId: number,
+  notes: string | null
+): Promise<Question[]> => {
+  const questionRepository = manager.getRepository(Question);
+  const { to, from } = REVIEW_TRANSITIONS[action];
+
+  const questions = await questionRepository.find({ where: { id: In(questionIds) } });
+  const missing = questionIds.filter(id => !questions.some(q => q.id === id));
+  if (missing.length > 0) {
+    throw new QuestionReviewError('Questions not found', missing);
+  }
+
+  const retired = questions.filter(q => !q.isActive).map(q => q.id);
+  if (retired.length > 0) {
+    throw new QuestionReviewError('Retired questions cannot be reviewed', retired);
+  }
+
+  const blocked = questions.filter(q => !from.includes(q.status)).map(q => q.id);
+  if (blocked.length > 0) {
+    throw new QuestionReviewError(`Cannot ${action} questions in status other than ${from.join(', ')}`, blocked);
+  }
+
+  // Update by ID: loaded questions carry a placeholder `stage` relation that save() would write back
+  await questionRepository.update(
+    { id: In(questionIds) },
+    action === 'submit'
+      ? { status: to }
+      : { status: to, reviewerNotes: notes, reviewedBy: reviewerId, reviewedAt: new Date() }
+  );
+
+  for (const stageId of new Set(questions.map(q => q.stageId))) {
+    await refreshStageQuestionCount(manager, stageId);
+  }
+  return questionRepository.find({ where: { id: In(questionIds) }, order: { id: 'ASC' } });
+};
@@ -0,0 +1,353 @@
+import { Question, QuestionAttachmentKind } from '../entities/Question';
+import { getMatchTargetOrder, getOptionOrder } from './samplingService';
+
+export type QuestionType =
+  | 'open-text' | 'artifact' | 'multiple-choice' | 'multi-select' | 'true-false' | 'ordering' | 'matching';
+
+export const QUESTION_TYPES: QuestionType[] = [
+  'open-text', 'artifact', 'multiple-choice', 'multi-select', 'true-false', 'ordering', 'matching'
+];
+
+export const QUESTION_ATTACHMENT_KINDS: QuestionAttachmentKind[] = ['code', 'http', 'bug-report'];
+
+// Types answered against a fixed key and graded without the AI; 'open-text' and 'artifact'
+// (open answers about attached code, HTTP exchanges or bug reports) go to the AI grader
+export const AUTO_GRADED_QUESTION_TYPES: QuestionType[] = [
+  'multiple-choice', 'multi-select', 'true-false', 'ordering', 'matching'
+];
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  'open-text': 'Pregunta abierta',
+  'artifact': 'Análisis de artefacto',
+  'multiple-choice': 'Opción múltiple',
+  'multi-select': 'Selección múltiple',
+  'true-false': 'Verdadero o falso',
+  'ordering': 'Ordenamiento',
+  'matching': 'Emparejamiento'
+};
+
+/**
+ * Grade of an answer to an auto-graded question. `credit` is the fraction (0-1) of
+ * the question's points earned; only multi-select answers get partial credit.
+ */
+export interface AutoGrade {
+  isCorrect: boolean;
+  credit: number;
+}
+
+/**
+ * Maps a stored or submitted type to its canonical form. Older rows use underscores,
+ * e.g. multiple_choice.
+ */
+export const normalizeQuestionType = (type: unknown): QuestionType | null => {
+  if (typeof type !== 'string') {
+    return null;
+  }
+  const normalized = type.trim().toLowerCase().replace(/_/g, '-');
+  return QUESTION_TYPES.includes(normalized as QuestionType) ? normalized as QuestionType : null;
+};
+
+export const isAutoGradedType = (type: unknown): boolean => {
+  const normalized = normalizeQuestionType(type);
+  return normalized !== null && AUTO_GRADED_QUESTION_TYPES.includes(normalized);
+};
+
+/**
+ * Reads a true/false value from a stored key or a submitted answer.
+ */
+export const parseTrueFalse = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (text === 'true' || text === 'verdadero') {
+    return true;
+  }
+  if (text === 'false' || text === 'falso') {
+    return false;
+  }
+  return null;
+};
+
+/**
+ * Stores a submitted answer as text. Multi-item answers (arrays of shown indexes) are
+ * kept as JSON.
+ */
+export const serializeAnswer = (raw: unknown): string =>
+  Array.isArray(raw) ? JSON.stringify(raw) : String(raw);
+
+/**
+ * Reads a list of shown indexes from a JSON array (`[2,0,1]`) or a comma-separated
+ * list (`2,0,1`). Returns null when the answer is not a list of non-negative integers.
+ */
+export const parseIndexList = (answer: string): number[] | null => {
+  const text = answer.trim();
+  if (!text) {
+    return [];
+  }
+
+  let values: unknown[];
+  if (text.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(text);
+      if (!Array.isArray(parsed)) {
+        return null;
+      }
+      values = parsed;
+    } catch (error) {
+      return null;
+    }
+  } else {
+    values = text.split(',');
+  }
+
+  const indexes = values.map(v => {
+    if (typeof v === 'number') {
+      return v;
+    }
+    return typeof v === 'string' && /^\s*\d+\s*$/.test(v) ? parseInt(v) : NaN;
+  });
+  return indexes.every(i => Number.isInteger(i) && i >= 0) ? indexes : null;
+};
+
+/**
+ * Whether the learner left the question unanswered.
+ */
+export const isBlankAnswer = (answer: string): boolean => {
+  const text = answer.trim();
+  return text === '' || text === '[]';
+};
+
+// Ordering and matching keys live in the stored order itself, so those questions are
+// shuffled even when there is no attempt seed (e.g. previews)
+const shuffleSeed = (question: Question, samplingSeed: string | null): string | null =>
+  samplingSeed || (['ordering', 'matching'].includes(normalizeQuestionType(question.type) || '')
+    ? `question:${question.id}`
+    : null);
+
+/**
+ * Order in which a question's options are shown: `order[shownIndex]` is the index in
+ * `Question.options`.
+ */
+export const getShownOptionOrder = (question: Question, samplingSeed: string | null): number[] =>
+  getOptionOrder(shuffleSeed(question, samplingSeed), question.id, question.options?.length || 0);
+
+/**
+ * Order in which the targets of a matching question are shown: `order[shownIndex]` is
+ * the index in `Question.matchTargets`.
+ */
+export const getShownTargetOrder = (question: Question, samplingSeed: string | null): number[] =>
+  getMatchTargetOrder(shuffleSeed(question, samplingSeed), question.id, question.matchTargets?.length || 0);
+
+/**
+ * Maps the option index a learner submitted (in the shuffled order they saw) back to
+ * the option text stored on the question.
+ */
+export const getSelectedOption = (
+  question: Question,
+  answer: string,
+  samplingSeed: string | null
+): string | undefined => {
+  const shownIndex = parseInt(answer);
+  if (!question.options || isNaN(shownIndex)) {
+    return undefined;
+  }
+  const originalIndex = getShownOptionOrder(question, samplingSeed)[shownIndex];
+  return originalIndex === undefined ? undefined : question.options[originalIndex];
+};
+
+// Maps submitted shown indexes to stored option indexes; null if any index is out of range
+const toOriginalIndexes = (shownIndexes: number[] | null, order: number[]): number[] | null => {
+  if (!shownIndexes) {
+    return null;
+  }
+  const original = shownIndexes.map(i => order[i]);
+  return original.every(i => i !== undefined) ? original : null;
+};
+
+const allOrNothing = (isCorrect: boolean): AutoGrade => ({ isCorrect, credit: isCorrect ? 1 : 0 });
+
+/**
+ * Grades an answer to an auto-graded question against its key.
+ * @returns null when the question must be graded by the AI
+ */
+export const gradeAutoAnswer = (question: Question, answer: string, samplingSeed: string | null): AutoGrade | null => {
+  switch (normalizeQuestionType(question.type)) {
+    case 'multiple-choice': {
+      const selected = getSelectedOption(question, answer, samplingSeed);
+      return allOrNothing(selected !== undefined && selected === question.correctAnswer);
+    }
+    case 'true-false': {
+      const value = parseTrueFalse(answer);
+      return allOrNothing(value !== null && value === parseTrueFalse(question.correctAnswer));
+    }
+    case 'multi-select': {
+      const selected = toOriginalIndexes(parseIndexList(answer), getShownOptionOrder(question, samplingSeed));
+      const correct = new Set(question.correctAnswers || []);
+      if (!selected || correct.size === 0) {
+        return allOrNothing(false);
+      }
+      // Each wrong pick cancels a right one, so selecting everything earns nothing
+      const picks = new Set(selected.map(i => question.options![i]));
+      const hits = [...picks].filter(option => correct.has(option)).length;
+      const misses = picks.size - hits;
+      return {
+        isCorrect: hits === correct.size && misses === 0,
+        credit: Math.min(Math.max((hits - misses) / correct.size, 0), 1)
+      };
+    }
+    case 'ordering': {
+      // Options are stored in the correct order
+      const order = toOriginalIndexes(parseIndexList(answer), getShownOptionOrder(question, samplingSeed));
+      return allOrNothing(Boolean(order)
+        && order!.length === (question.options?.length || 0)
+        && order!.every((original, position) => original === position));
+    }
+    case 'matching': {
+      // options[i] pairs with matchTargets[i]; answer[i] is the shown target picked for shown item i
+      const leftOrder = getShownOptionOrder(question, samplingSeed);
+      const targets = toOriginalIndexes(parseIndexList(answer), getShownTargetOrder(question, samplingSeed));
+      return allOrNothing(Boolean(targets)
+        && targets!.length === leftOrder.length
+        && targets!.every((target, shownIndex) => target === leftOrder[shownIndex]));
+    }
+    default:
+      return null;
+  }
+};
+
+const trueFalseLabel = (value: boolean | null): string | null =>
+  value === null ? null : value ? 'Verdadero' : 'Falso';
+
+/**
+ * Readable form of a learner's answer to an auto-graded question, e.g. for the
+ * feedback prompt. Returns null for open questions and unreadable answers.
+ */
+export const describeAnswer = (question: Question, answer: string, samplingSeed: string | null): string | null => {
+  const options = question.options || [];
+  switch (normalizeQuestionType(question.type)) {
+    case 'multiple-choice':
+      return getSelectedOption(question, answer, samplingSeed) ?? null;
+    case 'true-false':
+      return trueFalseLabel(parseTrueFalse(answer));
+    case 'multi-select':
+    case 'ordering': {
+      const indexes = toOriginalIndexes(parseIndexList(answer), getShownOptionOrder(question, samplingSeed));
+      return indexes ? indexes.map(i => options[i]).join(normalizeQuestionType(question.type) === 'ordering' ? ' → ' : ', ') : null;
+    }
+    case 'matching': {
+      const leftOrder = getShownOptionOrder(question, samplingSeed);
+      const targets = toOriginalIndexes(parseIndexList(answer), getShownTargetOrder(question, samplingSeed));
+      return targets
+        ? targets.map((target, shownIndex) => `${options[leftOrder[shownIndex]]} → ${question.matchTargets![target]}`).join('; ')
+        : null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Explains the grade of an answer to an auto-graded question without giving away the
+ * key: how much of it was right and, when it was not, the topic to review. Returns null
+ * for open questions.
+ */
+export const explainAutoAnswer = (question: Question, answer: string, samplingSeed: string | null): string | null => {
+  const grade = gradeAutoAnswer(question, answer, samplingSeed);
+  if (!grade) {
+    return null;
+  }
+
+  let detail: string | null = null;
+  switch (normalizeQuestionType(question.type)) {
+    case 'multi-select': {
+      const selected = toOriginalIndexes(parseIndexList(answer), getShownOptionOrder(question, samplingSeed));
+      const correct = new Set(question.correctAnswers || []);
+      if (selected) {
+        const picks = new Set(selected.map(i => question.options![i]));
+        const hits = [...picks].filter(option => correct.has(option)).length;
+        detail = `Opciones correctas marcadas: ${hits} de ${correct.size}; incorrectas: ${picks.size - hits}.`;
+      }
+      break;
+    }
+    case 'ordering': {
+      const order = toOriginalIndexes(parseIndexList(answer), getShownOptionOrder(question, samplingSeed));
+      if (order) {
+        const placed = order.filter((original, position) => original === position).length;
+        detail = `Elementos en su posición: ${placed} de ${question.options?.length || 0}.`;
+      }
+      break;
+    }
+    case 'matching': {
+      const leftOrder = getShownOptionOrder(question, samplingSeed);
+      const targets = toOriginalIndexes(parseIndexList(answer), getShownTargetOrder(question, samplingSeed));
+      if (targets) {
+        const paired = targets.filter((target, shownIndex) => target === leftOrder[shownIndex]).length;
+        detail = `Parejas correctas: ${paired} de ${leftOrder.length}.`;
+      }
+      break;
+    }
+  }
+
+  if (grade.isCorrect) {
+    return 'Respuesta correcta.';
+  }
+  const summary = isBlankAnswer(answer)
+    ? 'No se respondió la pregunta.'
+    : detail ?? 'La respuesta elegida no es correcta.';
+  return question.category ? `${summary} Conviene repasar: ${question.category}.` : summary;
+};
+
+/**
+ * Readable form of the key of an auto-graded question. Returns null for open questions.
+ */
+export const describeCorrectAnswer = (question: Question): string | null => {
+  const options = question.options || [];
+  switch (normalizeQuestionType(question.type)) {
+    case 'multiple-choice':
+      return question.correctAnswer || null;
+    case 'true-false':
+      return trueFalseLabel(parseTrueFalse(question.correctAnswer));
+    case 'multi-select':
+      return (question.correctAnswers || []).join(', ');
+    case 'ordering':
+      return options.join(' → ');
+    case 'matching':
+      return options.map((option, i) => `${option} → ${question.matchTargets?.[i]}`).join('; ');
+    default:
+      return null;
+  }
+};
+
+/**
+ * The correct answer in the same format the learner submits, using the order the
+ * options were shown in. Returns null for open questions.
+ */
+export const getShownAnswerKey = (question: Question, samplingSeed: string | null): string | null => {
+  const options = question.options || [];
+  const optionOrder = getShownOptionOrder(question, samplingSeed);
+  switch (normalizeQuestionType(question.type)) {
+    case 'multiple-choice': {
+      const shownIndex = optionOrder.findIndex(i => options[i] === question.correctAnswer);
+      return shownIndex === -1 ? null : String(shownIndex);
+    }
+    case 'true-false': {
+      const value = parseTrueFalse(question.correctAnswer);
+      return value === null ? null : String(value);
+    }
+    case 'multi-select': {
+      const correct = question.correctAnswers || [];
+      return JSON.stringify(optionOrder
+        .map((original, shownIndex) => (correct.includes(options[original]) ? shownIndex : -1))
+        .filter(i => i !== -1));
+    }
+    case 'ordering':
+      return JSON.stringify(options.map((_, original) => optionOrder.indexOf(original)));
+    case 'matching': {
+      const targetOrder = getShownTargetOrder(question, samplingSeed);
+      return JSON.stringify(optionOrder.map(original => targetOrder.indexOf(original)));
+    }
+    default:
+      return null;
+  }
+};
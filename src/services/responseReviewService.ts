@@ -0,0 +1,189 @@
+import { EntityManager } from 'typeorm';
+import { AppDataSource } from '../config/database-minimal';
+import { EvaluationAttempt } from '../entities/EvaluationAttempt';
+import { ResponseReviewReason, ResponseReviewStatus, UserResponse } from '../entities/UserResponse';
+import { CLOSED_QUESTION_TYPES } from './attemptService';
+import { enqueueGradingJob } from './gradingJobRunner';
+import { rescoreAttempt } from './gradingService';
+
+export interface ReviewQueueFilters {
+  status: ResponseReviewStatus;
+  reason?: ResponseReviewReason;
+  stageId?: number;
+  page: number;
+  limit: number;
+}
+
+export interface GradeOverride {
+  isCorrect: boolean;
+  pointsEarned?: number;
+  comment: string;
+}
+
+export interface ReviewOutcome {
+  response: UserResponse;
+  attemptStatus: EvaluationAttempt['status'];
+  attemptScore: number | null;
+  // True when the attempt still needed its final score and was sent back to the grading worker
+  finalizationQueued: boolean;
+}
+
+export class ResponseReviewError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code: string) {
+    super(message);
+    this.name = 'ResponseReviewError';
+  }
+}
+
+/**
+ * Lists open answers waiting for (or already given) a human review, oldest first.
+ */
+export const findReviewQueue = async (
+  manager: EntityManager,
+  filters: ReviewQueueFilters
+): Promise<{ responses: UserResponse[]; total: number }> => {
+  const query = manager.getRepository(UserResponse)
+    .createQueryBuilder('response')
+    .innerJoinAndSelect('response.question', 'question')
+    .innerJoinAndSelect('response.attempt', 'attempt')
+    .where('response.review_status = :status', { status: filters.status });
+
+  if (filters.reason) {
+    query.andWhere('response.review_reason = :reason', { reason: filters.reason });
+  }
+  if (filters.stageId !== undefined) {
+    query.andWhere('attempt.stage_id = :stageId', { stageId: filters.stageId });
+  }
+
+  const [responses, total] = await query
+    .orderBy('response.created_at', 'ASC')
+    .addOrderBy('response.id', 'ASC')
+    .skip((filters.page - 1) * filters.limit)
+    .take(filters.limit)
+    .getManyAndCount();
+
+  return { responses, total };
+};
+
+const loadOpenResponse = async (manager: EntityManager, responseId: number): Promise<UserResponse> => {
+  const response = await manager.getRepository(UserResponse).findOne({
+    where: { id: responseId },
+    relations: ['question', 'attempt']
+  });
+  if (!response) {
+    throw new ResponseReviewError('Response not found', 404, 'RESPONSE_NOT_FOUND');
+  }
+  if (CLOSED_QUESTION_TYPES.includes(response.question.type)) {
+    throw new ResponseReviewError('Only open answers can be reviewed', 400, 'NOT_OPEN_QUESTION');
+  }
+  if (!['graded', 'grading_failed'].includes(response.attempt.status)) {
+    throw new ResponseReviewError('The attempt has not finished grading', 409, 'ATTEMPT_NOT_GRADED');
+  }
+  return response;
+};
+
+/**
+ * Brings the attempt up to date after a reviewed answer changed. Graded attempts are
+ * re-scored in place; an attempt whose grading failed is handed back to the grading
+ * worker once none of its answers is missing a grade, so it gets its AI feedback.
+ */
+const settleAttempt = async (
+  manager: EntityManager,
+  attempt: EvaluationAttempt,
+  response: UserResponse
+): Promise<ReviewOutcome> => {
+  if (attempt.status === 'graded') {
+    const rescored = await rescoreAttempt(manager, attempt.id);
+    return { response, attemptStatus: 'graded', attemptScore: rescored.score, finalizationQueued: false };
+  }
+
+  const ungraded = await manager.getRepository(UserResponse)
+    .createQueryBuilder('response')
+    .where('response.attempt_id = :attemptId', { attemptId: attempt.id })
+    .andWhere('response.grading_status != :graded', { graded: 'graded' })
+    .getCount();
+  if (ungraded > 0) {
+    return { response, attemptStatus: attempt.status, attemptScore: attempt.score, finalizationQueued: false };
+  }
+
+  await manager.getRepository(EvaluationAttempt).update(attempt.id, { status: 'grading' });
+  await enqueueGradingJob(manager, attempt.id);
+  return { response, attemptStatus: 'grading', attemptScore: attempt.score, finalizationQueued: true };
+};
+
+/**
+ * Stores a reviewer's verdict on a loaded answer (with `question` and `attempt`) and
+ * brings its attempt up to date. Runs inside the caller's transaction.
+ */
+export const applyGradeOverride = async (
+  manager: EntityManager,
+  response: UserResponse,
+  reviewerId: number,
+  override: GradeOverride
+): Promise<ReviewOutcome> => {
+  const maxPoints = response.question.points;
+
+  const pointsEarned = override.pointsEarned ?? (override.isCorrect ? maxPoints : 0);
+  if (pointsEarned < 0 || pointsEarned > maxPoints) {
+    throw new ResponseReviewError(`pointsEarned must be between 0 and ${maxPoints}`, 400, 'INVALID_POINTS');
+  }
+
+  await manager.getRepository(UserResponse).update(response.id, {
+    isCorrect: override.isCorrect,
+    pointsEarned: Math.round(pointsEarned * 100) / 100,
+    gradingStatus: 'graded',
+    overridden: true,
+    reviewStatus: 'resolved',
+    reviewerComment: override.comment,
+    reviewedBy: reviewerId,
+    reviewedAt: new Date()
+  });
+
+  const updated = await manager.getRepository(UserResponse).findOneOrFail({
+    where: { id: response.id },
+    relations: ['question']
+  });
+  return settleAttempt(manager, response.attempt, updated);
+};
+
+/**
+ * Replaces the grader's verdict on an open answer. Points default to all or nothing
+ * and may be set to any value up to the question's points for partial credit.
+ */
+export const overrideResponseGrade = async (
+  responseId: number,
+  reviewerId: number,
+  override: GradeOverride
+): Promise<ReviewOutcome> => {
+  return AppDataSource.transaction(async manager => {
+    const response = await loadOpenResponse(manager, responseId);
+    return applyGradeOverride(manager, response, reviewerId, override);
+  });
+};
+
+/**
+ * Accepts the AI grade of a queued answer as is and takes it off the queue.
+ */
+export const confirmResponseGrade = async (
+  responseId: number,
+  reviewerId: number,
+  comment: string | null
+): Promise<UserResponse> => {
+  return AppDataSource.transaction(async manager => {
+    const response = await loadOpenResponse(manager, responseId);
+    if (response.gradingStatus !== 'graded') {
+      throw new ResponseReviewError('An ungraded answer needs an override, not a confirmation', 409, 'NOT_GRADED');
+    }
+    if (response.reviewStatus !== 'pending') {
+      throw new ResponseReviewError('The answer is not waiting for review', 409, 'NOT_IN_QUEUE');
+    }
+
+    await manager.getRepository(UserResponse).update(response.id, {
+      reviewStatus: 'resolved',
+      reviewerComment: comment,
+      reviewedBy: reviewerId,
+      reviewedAt: new Date()
+    });
+    return manager.getRepository(UserResponse).findOneOrFail({ where: { id: response.id }, relations: ['question'] });
+  });
+};
@@ -0,0 +1,71 @@
+import { RubricCriterion } from '../entities/Question';
+import { RubricCriterionScore } from '../entities/UserResponse';
+
+// Share of the rubric an answer must earn to count as correct
+export const RUBRIC_CORRECT_THRESHOLD = 0.5;
+
+/**
+ * Result of grading an open answer. `credit` is the fraction (0-1) of the question's
+ * points the answer earns; `breakdown` is set when the question has a rubric.
+ */
+export interface OpenAnswerEvaluation {
+  isCorrect: boolean;
+  explanation: string;
+  credit: number;
+  breakdown: RubricCriterionScore[] | null;
+  confidence: number | null;
+}
+
+/**
+ * Reads the grader's self-reported confidence. Missing or out-of-range values are
+ * treated as unknown rather than failing the grade.
+ */
+export const parseConfidence = (raw: unknown): number | null => {
+  const confidence = Number(raw);
+  return raw !== undefined && raw !== null && Number.isFinite(confidence) && confidence >= 0 && confidence <= 1
+    ? confidence
+    : null;
+};
+
+/**
+ * Matches the grader's per-criterion scores to the rubric. Criteria are matched by name,
+ * falling back to position, so the stored breakdown always follows the rubric.
+ * @throws Error when a criterion is missing or has no usable score
+ */
+export const parseRubricScores = (raw: unknown, rubric: RubricCriterion[]): RubricCriterionScore[] => {
+  if (!Array.isArray(raw)) {
+    throw new Error('Missing criteria in rubric evaluation response');
+  }
+
+  return rubric.map((criterion, index) => {
+    const item = raw.find((c: any) => typeof c?.criterion === 'string'
+      && c.criterion.trim().toLowerCase() === criterion.criterion.toLowerCase()) ?? raw[index];
+    const score = Number(item?.score);
+    if (item?.score === undefined || item?.score === null || !Number.isFinite(score) || score < 0 || score > 1) {
+      throw new Error(`Invalid score for rubric criterion "${criterion.criterion}"`);
+    }
+    return {
+      criterion: criterion.criterion,
+      weight: criterion.weight,
+      score,
+      justification: typeof item.justification === 'string' ? item.justification : ''
+    };
+  });
+};
+
+/**
+ * Weighted share of the rubric earned, between 0 and 1.
+ */
+export const rubricCredit = (breakdown: RubricCriterionScore[]): number => {
+  const totalWeight = breakdown.reduce((sum, c) => sum + c.weight, 0);
+  if (totalWeight <= 0) {
+    return 0;
+  }
+  return breakdown.reduce((sum, c) => sum + c.weight * c.score, 0) / totalWeight;
+};
+
+/**
+ * Points earned for a given credit, kept to two decimals to match `user_responses.points_earned`.
+ */
+export const pointsForCredit = (points: number, credit: number): number =>
+  Math.round(points * Math.min(Math.max(credit, 0), 1) * 100) / 100;
@@ -0,0 +1,117 @@
+import { randomBytes } from 'crypto';
+
+export type RandomSource = () => number;
+
+/**
+ * Creates a new random seed for an attempt.
+ */
+export const generateSeed = (): string => randomBytes(16).toString('hex');
+
+// xmur3 string hash, used to turn a seed string into a 32-bit PRNG state
+const hashSeed = (seed: string): number => {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^= h >>> 16) >>> 0;
+};
+
+/**
+ * Deterministic PRNG (mulberry32) returning floats in [0, 1). The same seed always
+ * produces the same sequence, so a stored seed reproduces an attempt's draws.
+ */
+export const createSeededRandom = (seed: string): RandomSource => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const randomInt = (random: RandomSource, maxExclusive: number): number => Math.floor(random() * maxExclusive);
+
+/**
+ * Unbiased Fisher–Yates shuffle. Returns a new array.
+ */
+export const shuffle = <T>(items: readonly T[], random: RandomSource): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Draws `count` items without replacement, spreading them across strata in proportion
+ * to each stratum's size (largest-remainder method, ties broken at random).
+ */
+export const stratifiedSample = <T>(
+  items: readonly T[],
+  count: number,
+  stratumOf: (item: T) => string,
+  random: RandomSource
+): T[] => {
+  if (count >= items.length) {
+    return shuffle(items, random);
+  }
+  if (count <= 0) {
+    return [];
+  }
+
+  const strata = new Map<string, T[]>();
+  for (const item of items) {
+    const key = stratumOf(item);
+    strata.set(key, [...(strata.get(key) || []), item]);
+  }
+
+  // Shuffle first so ties in the remainder ordering are random too
+  const groups = shuffle([...strata.values()], random).map(group => {
+    const exact = (group.length / items.length) * count;
+    return { items: shuffle(group, random), quota: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let remaining = count - groups.reduce((sum, g) => sum + g.quota, 0);
+  for (const group of [...groups].sort((a, b) => b.remainder - a.remainder)) {
+    if (remaining === 0) {
+      break;
+    }
+    if (group.quota < group.items.length) {
+      group.quota++;
+      remaining--;
+    }
+  }
+
+  return shuffle(groups.flatMap(g => g.items.slice(0, g.quota)), random);
+};
+
+/**
+ * Order in which a question's options are shown in an attempt: `order[shownIndex]`
+ * is the index of that option in `Question.options`. Derived from the attempt seed,
+ * so it never needs to be stored. Without a seed the original order is kept.
+ */
+export const getOptionOrder = (seed: string | null | undefined, questionId: number, optionCount: number): number[] => {
+  const identity = Array.from({ length: optionCount }, (_, i) => i);
+  if (!seed) {
+    return identity;
+  }
+  return shuffle(identity, createSeededRandom(`${seed}:options:${questionId}`));
+};
+
+/**
+ * Order in which the right-hand items of a matching question are shown, independent
+ * of the option order so positions never line up with the answer key.
+ */
+export const getMatchTargetOrder = (seed: string | null | undefined, questionId: number, targetCount: number): number[] => {
+  const identity = Array.from({ length: targetCount }, (_, i) => i);
+  if (!seed) {
+    return identity;
+  }
+  return shuffle(identity, createSeededRandom(`${seed}:targets:${questionId}`));
+};
@@ -0,0 +1,130 @@
+import { Question } from '../entities/Question';
+import { ScoringMode, Stage } from '../entities/Stage';
+import { CLOSED_QUESTION_TYPES } from './attemptService';
+import { isBlankAnswer } from './questionTypes';
+
+export const SCORING_MODES: ScoringMode[] = ['points', 'count'];
+
+export const DEFAULT_PASSING_SCORE = 60;
+
+/**
+ * How a stage turns graded answers into a 0-100 score and decides whether it passes.
+ */
+export interface ScoringPolicy {
+  scoringMode: ScoringMode;
+  passingScore: number;
+  negativeMarking: number;
+}
+
+export interface ScorableResponse {
+  question: Pick<Question, 'type' | 'points'>;
+  response: string;
+  isCorrect: boolean | null;
+  pointsEarned: number;
+}
+
+export interface AttemptScore {
+  score: number;
+  passed: boolean;
+  correctCount: number;
+  totalQuestions: number;
+  earnedPoints: number;
+  maxPoints: number;
+  penalty: number;
+}
+
+export const getScoringPolicy = (stage: Pick<Stage, 'scoringMode' | 'passingScore' | 'negativeMarking'>): ScoringPolicy => ({
+  scoringMode: stage.scoringMode || 'points',
+  passingScore: stage.passingScore ?? DEFAULT_PASSING_SCORE,
+  negativeMarking: Number(stage.negativeMarking) || 0
+});
+
+/**
+ * Checks scoring policy fields sent by an admin. Omitted fields are not checked.
+ * @returns list of problems, empty when the input is valid
+ */
+export const validateScoringPolicyInput = (input: {
+  scoringMode?: unknown;
+  passingScore?: unknown;
+  negativeMarking?: unknown;
+}): string[] => {
+  const errors: string[] = [];
+  if (input.scoringMode !== undefined && !SCORING_MODES.includes(input.scoringMode as ScoringMode)) {
+    errors.push(`scoringMode must be one of: ${SCORING_MODES.join(', ')}`);
+  }
+  if (input.passingScore !== undefined) {
+    const passingScore = Number(input.passingScore);
+    if (!Number.isInteger(passingScore) || passingScore < 0 || passingScore > 100) {
+      errors.push('passingScore must be an integer between 0 and 100');
+    }
+  }
+  if (input.negativeMarking !== undefined) {
+    const negativeMarking = Number(input.negativeMarking);
+    if (input.negativeMarking === null || !Number.isFinite(negativeMarking) || negativeMarking < 0 || negativeMarking > 1) {
+      errors.push('negativeMarking must be a number between 0 and 1');
+    }
+  }
+  return errors;
+};
+
+export const isPassingScore = (score: number | null | undefined, policy: ScoringPolicy): boolean =>
+  score !== null && score !== undefined && score >= policy.passingScore;
+
+/**
+ * Whether a learner has passed a stage. A stage stays passed once completed, even if
+ * its threshold is raised later.
+ */
+export const hasPassedStage = (
+  userStage: { isCompleted: boolean; score: number | null } | null | undefined,
+  stage: Pick<Stage, 'scoringMode' | 'passingScore' | 'negativeMarking'>
+): boolean => Boolean(userStage?.isCompleted) || isPassingScore(userStage?.score, getScoringPolicy(stage));
+
+/**
+ * Scores graded responses under a stage policy. `unanswered` lists the questions of the
+ * attempt left without a response: each scores zero but still counts towards the total.
+ * Blank answers are never penalized, and the score never drops below zero.
+ */
+export const scoreResponses = (
+  answered: ScorableResponse[],
+  policy: ScoringPolicy,
+  unanswered: Pick<Question, 'type' | 'points'>[] = []
+): AttemptScore => {
+  const responses: ScorableResponse[] = [
+    ...answered,
+    ...unanswered.map(question => ({ question, response: '', isCorrect: false, pointsEarned: 0 }))
+  ];
+  const totalQuestions = responses.length;
+  const correctCount = responses.filter(r => r.isCorrect).length;
+  const earnedPoints = responses.reduce((sum, r) => sum + Number(r.pointsEarned || 0), 0);
+  const maxPoints = responses.reduce((sum, r) => sum + r.question.points, 0);
+
+  // Partially correct multi-select answers are not penalized
+  const wrongClosed = responses.filter(r =>
+    CLOSED_QUESTION_TYPES.includes(r.question.type) && r.isCorrect === false
+    && Number(r.pointsEarned || 0) === 0 && !isBlankAnswer(r.response)
+  );
+
+  let raw: number;
+  let penalty: number;
+  if (policy.scoringMode === 'count') {
+    // Each question is worth one unit; rubric-graded answers contribute their share of it
+    const credits = responses.reduce((sum, r) =>
+      sum + (r.question.points > 0 ? Number(r.pointsEarned || 0) / r.question.points : (r.isCorrect ? 1 : 0)), 0);
+    penalty = wrongClosed.length * policy.negativeMarking;
+    raw = totalQuestions > 0 ? (credits - penalty) / totalQuestions : 0;
+  } else {
+    penalty = wrongClosed.reduce((sum, r) => sum + r.question.points * policy.negativeMarking, 0);
+    raw = maxPoints > 0 ? (earnedPoints - penalty) / maxPoints : 0;
+  }
+
+  const score = Math.round(Math.min(Math.max(raw, 0), 1) * 100);
+  return {
+    score,
+    passed: isPassingScore(score, policy),
+    correctCount,
+    totalQuestions,
+    earnedPoints,
+    maxPoints,
+    penalty
+  };
+};
@@ -0,0 +1,40 @@
+import { AppDataSource } from '../config/database-minimal';
+import { publishDueStages } from './stageService';
+
+const POLL_INTERVAL_MS = 60000;
+
+let pollTimer: NodeJS.Timeout | null = null;
+
+const runPublisher = async (): Promise<void> => {
+  if (!AppDataSource.isInitialized) {
+    return;
+  }
+  const published = await publishDueStages(AppDataSource.manager);
+  if (published > 0) {
+    console.log(`📅 ${published} scheduled stage(s) published`);
+  }
+};
+
+/**
+ * Starts publishing scheduled stages once a minute. Called once the database
+ * connection is ready.
+ */
+export const startStagePublisher = (): void => {
+  if (pollTimer) {
+    return;
+  }
+  const tick = () => runPublisher().catch(error => console.error('Error publishing scheduled stages:', error));
+  pollTimer = setInterval(tick, POLL_INTERVAL_MS);
+  tick();
+  console.log('📅 Stage publisher started');
+};
+
+/**
+ * Stops publishing scheduled stages.
+ */
+export const stopStagePublisher = (): void => {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+};
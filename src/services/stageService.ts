@@ -0,0 +1,280 @@
+import { EntityManager } from 'typeorm';
+import { Question } from '../entities/Question';
+import { Stage } from '../entities/Stage';
+import { StagePrerequisite } from '../entities/StagePrerequisite';
+import { QUESTION_CONTENT_FIELDS, refreshStageQuestionCount } from './questionService';
+
+export interface StageOrderItem {
+  id: number;
+  displayOrder: number;
+}
+
+export type StageAvailability = 'upcoming' | 'open' | 'closed';
+
+export interface StageScheduleInput {
+  availableFrom?: Date | null;
+  availableUntil?: Date | null;
+  publishAt?: Date | null;
+}
+
+// Admin preview: unpublished stages are shown as if published. With `at`, only those the
+// publishing worker will have published by then are shown, and windows are checked at that time
+export interface StagePreview {
+  at: Date | null;
+}
+
+export interface CloneStageOptions {
+  title?: string;
+  displayOrder?: number;
+}
+
+// Settings a clone takes from its source; progress, ordering and activation are its own
+const CLONED_STAGE_FIELDS: (keyof Stage)[] = [
+  'description', 'difficulty', 'icon', 'color', 'estimatedTime', 'considerations', 'topicsCovered',
+  'whatToExpect', 'tipsForSuccess', 'evaluationDescription', 'totalQuestions', 'openQuestions',
+  'closedQuestions', 'timeLimitMinutes', 'autoApproveQuestions', 'scoringMode', 'passingScore',
+  'negativeMarking', 'revealCorrectAnswers', 'maxAttempts', 'retakeCooldownMinutes', 'lockoutAfterFailures',
+  'lockoutMinutes', 'practiceAccess'
+];
+
+export class StageError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code: string) {
+    super(message);
+    this.name = 'StageError';
+  }
+}
+
+const SCHEDULE_FIELDS: (keyof StageScheduleInput)[] = ['availableFrom', 'availableUntil', 'publishAt'];
+
+/**
+ * Validates the availability window and publish date of a stage request. Dates are ISO
+ * strings; `null` clears a field. `current` supplies the values the request leaves out.
+ */
+export const parseStageScheduleInput = (
+  raw: Record<string, unknown>,
+  current?: Pick<Stage, 'availableFrom' | 'availableUntil'>
+): { input: StageScheduleInput; errors: string[] } => {
+  const errors: string[] = [];
+  const input: StageScheduleInput = {};
+
+  for (const field of SCHEDULE_FIELDS) {
+    const value = raw[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (value === null) {
+      input[field] = null;
+      continue;
+    }
+    const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) {
+      errors.push(`${field} must be a date`);
+    } else {
+      input[field] = date;
+    }
+  }
+
+  const from = input.availableFrom !== undefined ? input.availableFrom : current?.availableFrom ?? null;
+  const until = input.availableUntil !== undefined ? input.availableUntil : current?.availableUntil ?? null;
+  if (errors.length === 0 && from && until && new Date(from).getTime() >= new Date(until).getTime()) {
+    errors.push('availableUntil must be after availableFrom');
+  }
+
+  return { input, errors };
+};
+
+/**
+ * Where `now` falls relative to the stage's availability window.
+ */
+export const getStageAvailability = (
+  stage: Pick<Stage, 'availableFrom' | 'availableUntil'>,
+  now: Date = new Date()
+): StageAvailability => {
+  if (stage.availableFrom && now.getTime() < new Date(stage.availableFrom).getTime()) {
+    return 'upcoming';
+  }
+  if (stage.availableUntil && now.getTime() >= new Date(stage.availableUntil).getTime()) {
+    return 'closed';
+  }
+  return 'open';
+};
+
+/**
+ * Whether learners can see the stage, or would see it in the given admin preview.
+ */
+export const isStagePublished = (stage: Pick<Stage, 'isActive' | 'publishAt'>, preview?: StagePreview): boolean => {
+  if (stage.isActive) {
+    return true;
+  }
+  if (!preview) {
+    return false;
+  }
+  return preview.at === null
+    || (stage.publishAt !== null && new Date(stage.publishAt).getTime() <= preview.at.getTime());
+};
+
+/**
+ * Publishes inactive stages whose `publishAt` has passed.
+ * @returns number of stages published
+ */
+export const publishDueStages = async (manager: EntityManager, now: Date = new Date()): Promise<number> => {
+  const result = await manager
+    .createQueryBuilder()
+    .update(Stage)
+    .set({ isActive: true, publishAt: null })
+    .where('is_active = false')
+    .andWhere('publish_at <= :now', { now })
+    .execute();
+  return result.affected || 0;
+};
+
+/**
+ * Validates the body of a bulk reorder: `{ stages: [{ id, displayOrder }] }`.
+ */
+export const parseStageOrderInput = (raw: unknown): { items: StageOrderItem[]; errors: string[] } => {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { items: [], errors: ['stages must be a non-empty array of { id, displayOrder }'] };
+  }
+
+  const errors: string[] = [];
+  const items: StageOrderItem[] = [];
+  raw.forEach((item, i) => {
+    const id = Number(item?.id);
+    const displayOrder = Number(item?.displayOrder);
+    if (!Number.isInteger(id) || id <= 0) {
+      errors.push(`stages[${i}].id must be a stage ID`);
+    } else if (!Number.isInteger(displayOrder) || displayOrder < 1) {
+      errors.push(`stages[${i}].displayOrder must be a positive integer`);
+    } else {
+      items.push({ id, displayOrder });
+    }
+  });
+
+  if (new Set(items.map(item => item.id)).size !== items.length) {
+    errors.push('stages must not list a stage more than once');
+  }
+  return { items, errors };
+};
+
+/**
+ * Rewrites the displayOrder of many stages at once. Stages left out keep their slot, and
+ * no two stages may end up sharing one. Nothing is saved if any check fails.
+ */
+export const reorderStages = async (manager: EntityManager, items: StageOrderItem[]): Promise<Stage[]> => {
+  const stageRepository = manager.getRepository(Stage);
+  // Locked so two reorders cannot interleave and leave duplicated slots behind
+  const stages = await stageRepository.find({ lock: { mode: 'pessimistic_write' } });
+
+  const missing = items.filter(item => !stages.some(s => s.id === item.id)).map(item => item.id);
+  if (missing.length > 0) {
+    throw new StageError(`Stages not found: ${missing.join(', ')}`, 404, 'STAGE_NOT_FOUND');
+  }
+
+  const newOrder = new Map(items.map(item => [item.id, item.displayOrder]));
+  const taken = new Map<number, number>();
+  for (const stage of stages) {
+    const displayOrder = newOrder.get(stage.id) ?? stage.displayOrder;
+    const holder = taken.get(displayOrder);
+    if (holder !== undefined) {
+      throw new StageError(
+        `Stages ${holder} and ${stage.id} would share displayOrder ${displayOrder}`,
+        409,
+        'DISPLAY_ORDER_CONFLICT'
+      );
+    }
+    taken.set(displayOrder, stage.id);
+  }
+
+  const changed = stages.filter(stage => newOrder.has(stage.id) && newOrder.get(stage.id) !== stage.displayOrder);
+  for (const stage of changed) {
+    await stageRepository.update(stage.id, { displayOrder: newOrder.get(stage.id)! });
+  }
+
+  return stageRepository.find({ order: { displayOrder: 'ASC' } });
+};
+
+// "<title> (copia)", then "(copia 2)", "(copia 3)"... until the title is free
+const getCloneTitle = async (manager: EntityManager, title: string): Promise<string> => {
+  const stageRepository = manager.getRepository(Stage);
+  for (let n = 1; ; n++) {
+    const candidate = n === 1 ? `${title} (copia)` : `${title} (copia ${n})`;
+    if (!(await stageRepository.exist({ where: { title: candidate } }))) {
+      return candidate;
+    }
+  }
+};
+
+/**
+ * Duplicates a stage with its prerequisites and its active, approved questions. The
+ * clone starts inactive so admins can adjust it before learners see it. Tracks and
+ * learner progress are not copied.
+ */
+export const cloneStage = async (
+  manager: EntityManager,
+  sourceId: number,
+  options: CloneStageOptions
+): Promise<{ stage: Stage; clonedQuestions: number }> => {
+  const stageRepository = manager.getRepository(Stage);
+  const source = await stageRepository.findOne({ where: { id: sourceId } });
+  if (!source) {
+    throw new StageError('Stage not found', 404, 'STAGE_NOT_FOUND');
+  }
+
+  let title: string;
+  if (options.title !== undefined) {
+    if (await stageRepository.exist({ where: { title: options.title } })) {
+      throw new StageError('A stage with this title already exists', 409, 'STAGE_EXISTS');
+    }
+    title = options.title;
+  } else {
+    title = await getCloneTitle(manager, source.title);
+  }
+
+  let displayOrder: number;
+  if (options.displayOrder !== undefined) {
+    if (await stageRepository.exist({ where: { displayOrder: options.displayOrder } })) {
+      throw new StageError('Another stage with this displayOrder already exists', 409, 'DISPLAY_ORDER_CONFLICT');
+    }
+    displayOrder = options.displayOrder;
+  } else {
+    const last = await stageRepository.findOne({ where: {}, order: { displayOrder: 'DESC' } });
+    displayOrder = (last?.displayOrder ?? 0) + 1;
+  }
+
+  const settings = Object.fromEntries(CLONED_STAGE_FIELDS.map(field => [field, source[field]]));
+  const clone = await stageRepository.save(stageRepository.create({
+    ...settings,
+    title,
+    displayOrder,
+    isActive: false,
+    questionCount: 0
+  }));
+
+  // Nothing requires the new stage yet, so copying its prerequisites cannot create a cycle
+  const prerequisiteRepository = manager.getRepository(StagePrerequisite);
+  const prerequisites = await prerequisiteRepository.find({ where: { stageId: source.id } });
+  if (prerequisites.length > 0) {
+    await prerequisiteRepository.save(prerequisites.map(row => prerequisiteRepository.create({
+      stageId: clone.id,
+      prerequisiteStageId: row.prerequisiteStageId,
+      groupIndex: row.groupIndex,
+      minScore: row.minScore
+    })));
+  }
+
+  const questions = await manager.getRepository(Question).find({
+    where: { stageId: source.id, isActive: true, status: 'approved' }
+  });
+  if (questions.length > 0) {
+    await manager.getRepository(Question).save(questions.map(question => ({
+      ...Object.fromEntries(QUESTION_CONTENT_FIELDS.map(field => [field, question[field]])),
+      stageId: clone.id,
+      status: 'approved' as const,
+      reviewedBy: question.reviewedBy,
+      reviewedAt: question.reviewedAt
+    })));
+  }
+  clone.questionCount = await refreshStageQuestionCount(manager, clone.id);
+
+  return { stage: clone, clonedQuestions: questions.length };
+};
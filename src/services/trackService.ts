@@ -0,0 +1,256 @@
+import { EntityManager, In, Not } from 'typeorm';
+import { Stage } from '../entities/Stage';
+import { StagePrerequisite } from '../entities/StagePrerequisite';
+import { Track } from '../entities/Track';
+import { TrackStage } from '../entities/TrackStage';
+import { UserStage } from '../entities/UserStage';
+import { UserTrack } from '../entities/UserTrack';
+import { computeStageUnlocks, StageUnlockState } from './prerequisiteService';
+import { hasPassedStage } from './scoringService';
+import { isStagePublished, StagePreview } from './stageService';
+
+export interface TrackInput {
+  title?: string;
+  description?: string | null;
+  isActive?: boolean;
+  displayOrder?: number;
+  // Replaces the track's stages, in order
+  stageIds?: number[];
+}
+
+export interface TrackStageState {
+  stageId: number;
+  position: number;
+  isPassed: boolean;
+  isUnlocked: boolean;
+}
+
+export interface TrackProgress {
+  trackId: number;
+  title: string;
+  isEnrolled: boolean;
+  // First stage of the track the learner has not passed yet; null once the track is done
+  currentStageId: number | null;
+  completedStages: number;
+  totalStages: number;
+  progress: number;
+  isCompleted: boolean;
+  stages: TrackStageState[];
+}
+
+export interface LearnerProgress {
+  stages: Stage[];
+  userStages: UserStage[];
+  prerequisites: Map<number, StageUnlockState>;
+  // Whether each stage can be started, whatever track it is reached through
+  isUnlocked: Map<number, boolean>;
+  // Active tracks in display order
+  tracks: TrackProgress[];
+}
+
+export class TrackError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code: string) {
+    super(message);
+    this.name = 'TrackError';
+  }
+}
+
+/**
+ * Validates a track request body. With `partial`, missing fields are left out instead
+ * of being required.
+ */
+export const parseTrackInput = (body: any, partial: boolean): { input: TrackInput; errors: string[] } => {
+  const errors: string[] = [];
+  const input: TrackInput = {};
+
+  if (body.title !== undefined || !partial) {
+    if (typeof body.title !== 'string' || !body.title.trim()) {
+      errors.push('title is required');
+    } else {
+      input.title = body.title.trim();
+    }
+  }
+  if (body.description !== undefined) {
+    input.description = body.description === null ? null : String(body.description);
+  }
+  if (body.isActive !== undefined) {
+    input.isActive = Boolean(body.isActive);
+  }
+  if (body.displayOrder !== undefined) {
+    const displayOrder = Number(body.displayOrder);
+    if (!Number.isInteger(displayOrder)) {
+      errors.push('displayOrder must be an integer');
+    } else {
+      input.displayOrder = displayOrder;
+    }
+  }
+  if (body.stageIds !== undefined) {
+    const stageIds = Array.isArray(body.stageIds) ? body.stageIds.map(Number) : null;
+    if (!stageIds || stageIds.some((id: number) => !Number.isInteger(id) || id <= 0)) {
+      errors.push('stageIds must be an array of stage IDs');
+    } else if (new Set(stageIds).size !== stageIds.length) {
+      errors.push('stageIds must not repeat a stage');
+    } else {
+      input.stageIds = stageIds;
+    }
+  }
+
+  return { input, errors };
+};
+
+/**
+ * Creates a track, or updates `track` when given. Stages are stored in the order of
+ * `stageIds`.
+ */
+export const saveTrack = async (manager: EntityManager, track: Track | null, input: TrackInput): Promise<Track> => {
+  const trackRepository = manager.getRepository(Track);
+
+  if (input.title !== undefined) {
+    const existing = await trackRepository.findOne({
+      where: { title: input.title, ...(track ? { id: Not(track.id) } : {}) }
+    });
+    if (existing) {
+      throw new TrackError('A track with this title already exists', 409, 'TRACK_EXISTS');
+    }
+  }
+
+  if (input.stageIds && input.stageIds.length > 0) {
+    const found = await manager.getRepository(Stage).find({ where: { id: In(input.stageIds) } });
+    const missing = input.stageIds.filter(id => !found.some(s => s.id === id));
+    if (missing.length > 0) {
+      throw new TrackError(`Stages not found: ${missing.join(', ')}`, 400, 'STAGE_NOT_FOUND');
+    }
+  }
+
+  const saved = await trackRepository.save(trackRepository.merge(track || trackRepository.create(), {
+    ...(input.title !== undefined ? { title: input.title } : {}),
+    ...(input.description !== undefined ? { description: input.description } : {}),
+    ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+    ...(input.displayOrder !== undefined ? { displayOrder: input.displayOrder } : {})
+  }));
+
+  if (input.stageIds) {
+    const trackStageRepository = manager.getRepository(TrackStage);
+    await trackStageRepository.delete({ trackId: saved.id });
+    if (input.stageIds.length > 0) {
+      await trackStageRepository.save(input.stageIds.map((stageId, i) =>
+        trackStageRepository.create({ trackId: saved.id, stageId, position: i + 1 })
+      ));
+    }
+  }
+
+  return saved;
+};
+
+/**
+ * Enrolls a learner in an active track. Enrolling twice is a no-op.
+ */
+export const enrollInTrack = async (manager: EntityManager, userId: number, trackId: number): Promise<UserTrack> => {
+  const track = await manager.getRepository(Track).findOne({ where: { id: trackId, isActive: true } });
+  if (!track) {
+    throw new TrackError('Track not found', 404, 'TRACK_NOT_FOUND');
+  }
+
+  const userTrackRepository = manager.getRepository(UserTrack);
+  const existing = await userTrackRepository.findOne({ where: { userId, trackId } });
+  return existing || userTrackRepository.save(userTrackRepository.create({ userId, trackId }));
+};
+
+export const leaveTrack = async (manager: EntityManager, userId: number, trackId: number): Promise<void> => {
+  const result = await manager.getRepository(UserTrack).delete({ userId, trackId });
+  if (!result.affected) {
+    throw new TrackError('You are not enrolled in this track', 404, 'NOT_ENROLLED');
+  }
+};
+
+/**
+ * Works out a learner's progress in every active track and which stages they can start.
+ * Within a track, a stage unlocks once the previous active stage of that track is passed
+ * and its prerequisite graph is met. A stage that belongs to tracks is unlocked if it is
+ * unlocked in any of them; stages outside every track only follow the graph.
+ */
+export const computeLearnerProgress = (data: {
+  stages: Stage[];
+  prerequisiteRows: StagePrerequisite[];
+  tracks: Track[];
+  trackStages: TrackStage[];
+  userStages: UserStage[];
+  enrolledTrackIds: number[];
+}): LearnerProgress => {
+  const prerequisites = computeStageUnlocks(data.stages, data.prerequisiteRows, data.userStages);
+  const stageById = new Map(data.stages.map(s => [s.id, s]));
+  const userStageById = new Map(data.userStages.map(us => [us.stageId, us]));
+
+  const tracks = data.tracks
+    .filter(track => track.isActive)
+    .sort((a, b) => a.displayOrder - b.displayOrder || a.id - b.id)
+    .map(track => {
+      // Inactive stages cannot be taken, so they are skipped in the track's sequence
+      const entries = data.trackStages
+        .filter(ts => ts.trackId === track.id && stageById.get(ts.stageId)?.isActive)
+        .sort((a, b) => a.position - b.position);
+
+      const stages: TrackStageState[] = [];
+      entries.forEach((entry, i) => {
+        const previous = stages[i - 1];
+        stages.push({
+          stageId: entry.stageId,
+          position: i + 1,
+          isPassed: hasPassedStage(userStageById.get(entry.stageId), stageById.get(entry.stageId)!),
+          isUnlocked: Boolean(prerequisites.get(entry.stageId)?.isUnlocked) && (!previous || previous.isPassed)
+        });
+      });
+
+      const completedStages = stages.filter(s => s.isPassed).length;
+      return {
+        trackId: track.id,
+        title: track.title,
+        isEnrolled: data.enrolledTrackIds.includes(track.id),
+        currentStageId: stages.find(s => !s.isPassed)?.stageId ?? null,
+        completedStages,
+        totalStages: stages.length,
+        progress: stages.length > 0 ? Math.round((completedStages / stages.length) * 100) : 0,
+        isCompleted: stages.length > 0 && completedStages === stages.length,
+        stages
+      };
+    });
+
+  const isUnlocked = new Map<number, boolean>();
+  for (const stage of data.stages) {
+    const trackStates = tracks.flatMap(t => t.stages.filter(s => s.stageId === stage.id));
+    isUnlocked.set(stage.id, trackStates.length > 0
+      ? trackStates.some(s => s.isUnlocked)
+      : Boolean(prerequisites.get(stage.id)?.isUnlocked));
+  }
+
+  return { stages: data.stages, userStages: data.userStages, prerequisites, isUnlocked, tracks };
+};
+
+/**
+ * Loads everything `computeLearnerProgress` needs for one learner. In an admin preview,
+ * the stages the preview shows count as active.
+ */
+export const loadLearnerProgress = async (
+  manager: EntityManager,
+  userId: number,
+  preview?: StagePreview
+): Promise<LearnerProgress> => {
+  const stages = (await manager.getRepository(Stage).find({ order: { displayOrder: 'ASC' } }))
+    .map(stage => (!stage.isActive && isStagePublished(stage, preview)
+      ? Object.assign(new Stage(), stage, { isActive: true })
+      : stage));
+  const prerequisiteRows = await manager.getRepository(StagePrerequisite).find();
+  const tracks = await manager.getRepository(Track).find({ where: { isActive: true } });
+  const trackStages = await manager.getRepository(TrackStage).find();
+  const userStages = await manager.getRepository(UserStage).find({ where: { userId } });
+  const userTracks = await manager.getRepository(UserTrack).find({ where: { userId } });
+
+  return computeLearnerProgress({
+    stages,
+    prerequisiteRows,
+    tracks,
+    trackStages,
+    userStages,
+    enrolledTrackIds: userTracks.map(ut => ut.trackId)
+  });
+};
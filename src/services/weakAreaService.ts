@@ -0,0 +1,267 @@
+import { EntityManager, In } from 'typeorm';
+import { v4 as uuidv4 } from 'uuid';
+import { AppDataSource } from '../config/database-minimal';
+import { PracticeSession } from '../entities/PracticeSession';
+import { Question } from '../entities/Question';
+import { QuestionGenerationJobStatus } from '../entities/QuestionGenerationJob';
+import { Stage } from '../entities/Stage';
+import { UserResponse } from '../entities/UserResponse';
+import { assertPracticeSessionQuota, canPracticeStage, PracticeError } from './practiceService';
+import { enqueueQuestionGenerationJob } from './questionGenerationJobRunner';
+import { createSeededRandom, generateSeed, shuffle } from './samplingService';
+import { loadLearnerProgress } from './trackService';
+
+// A graded answer from the learner's evaluation history
+export interface AnsweredQuestion {
+  questionId: number;
+  stageId: number;
+  category: string | null;
+  difficulty: string | null;
+  isCorrect: boolean;
+}
+
+export interface WeakArea {
+  category: string;
+  difficulty: string | null;
+  answered: number;
+  missed: number;
+  // Share of answers in the area that were correct, 0-100
+  accuracy: number;
+  // Stages where the learner missed questions of the area, most misses first
+  stageIds: number[];
+}
+
+// Background generation requested for an area whose pool was too thin
+export interface WeakAreaGeneration {
+  category: string;
+  difficulty: string | null;
+  stageId: number;
+  requested: number;
+  jobId: number;
+  jobStatus: QuestionGenerationJobStatus;
+  // False when the same request was already queued or handled recently
+  queued: boolean;
+}
+
+export interface WeakAreaQuiz {
+  session: PracticeSession;
+  questions: Question[];
+  weakAreas: WeakArea[];
+  generation: WeakAreaGeneration[];
+}
+
+export const DEFAULT_WEAK_AREA_QUIZ_SIZE = 10;
+export const MAX_WEAK_AREA_QUIZ_SIZE = 20;
+export const DEFAULT_WEAK_AREA_COUNT = 3;
+export const MAX_WEAK_AREA_COUNT = 5;
+
+// Categories are free text from generation, so "Regression testing " and "regression testing" match
+const categoryKey = (category: string | null): string => (category || '').trim().toLowerCase();
+
+/**
+ * Groups answered questions by category and difficulty and keeps the groups with at
+ * least one miss, weakest first: lowest accuracy, then most misses. Questions without
+ * a category cannot be targeted and are left out.
+ */
+export const analyzeWeakAreas = (answers: AnsweredQuestion[]): WeakArea[] => {
+  const groups = new Map<string, { category: string; difficulty: string | null; answers: AnsweredQuestion[] }>();
+  for (const answer of answers) {
+    if (!categoryKey(answer.category)) {
+      continue;
+    }
+    const key = `${categoryKey(answer.category)}|${answer.difficulty || ''}`;
+    const group = groups.get(key) || { category: answer.category!.trim(), difficulty: answer.difficulty || null, answers: [] };
+    group.answers.push(answer);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()]
+    .map(group => {
+      const misses = group.answers.filter(a => !a.isCorrect);
+      const missesByStage = new Map<number, number>();
+      for (const miss of misses) {
+        missesByStage.set(miss.stageId, (missesByStage.get(miss.stageId) || 0) + 1);
+      }
+      return {
+        category: group.category,
+        difficulty: group.difficulty,
+        answered: group.answers.length,
+        missed: misses.length,
+        accuracy: Math.round(((group.answers.length - misses.length) / group.answers.length) * 100),
+        stageIds: [...missesByStage.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0]).map(([stageId]) => stageId)
+      };
+    })
+    .filter(area => area.missed > 0)
+    .sort((a, b) => a.accuracy - b.accuracy || b.missed - a.missed || a.category.localeCompare(b.category));
+};
+
+/**
+ * Loads the learner's graded answers from finished evaluation attempts. Practice
+ * answers are not included.
+ */
+export const loadAnsweredQuestions = async (manager: EntityManager, userId: number): Promise<AnsweredQuestion[]> => {
+  const rows: { questionId: number; stageId: number; category: string | null; difficulty: string | null; isCorrect: boolean }[] =
+    await manager.getRepository(UserResponse)
+      .createQueryBuilder('response')
+      .innerJoin('response.question', 'question')
+      .innerJoin('response.attempt', 'attempt')
+      .select('question.id', 'questionId')
+      .addSelect('question.stage_id', 'stageId')
+      .addSelect('question.category', 'category')
+      .addSelect('question.difficulty', 'difficulty')
+      .addSelect('response.is_correct', 'isCorrect')
+      .where('response.user_id = :userId', { userId })
+      .andWhere('attempt.status = :status', { status: 'graded' })
+      .andWhere('response.grading_status = :gradingStatus', { gradingStatus: 'graded' })
+      .andWhere('response.is_correct IS NOT NULL')
+      .getRawMany();
+
+  return rows.map(row => ({ ...row, questionId: Number(row.questionId), stageId: Number(row.stageId) }));
+};
+
+// Published stages the learner has unlocked and may practice
+const getPracticeableStages = async (manager: EntityManager, userId: number): Promise<Map<number, Stage>> => {
+  const progress = await loadLearnerProgress(manager, userId);
+  return new Map(progress.stages
+    .filter(stage => stage.isActive && progress.isUnlocked.get(stage.id) && canPracticeStage(stage, true))
+    .map(stage => [stage.id, stage]));
+};
+
+// Questions matching the area's difficulty first, then ones the learner has not answered
+// correctly before; random order otherwise
+const rankCandidates = (
+  candidates: Question[],
+  area: WeakArea,
+  answeredCorrectly: Set<number>,
+  random: () => number
+): Question[] => {
+  const rank = (q: Question) =>
+    (q.difficulty === area.difficulty ? 0 : 2) + (answeredCorrectly.has(q.id) ? 1 : 0);
+  return shuffle(candidates, random).sort((a, b) => rank(a) - rank(b));
+};
+
+// Splits the quiz evenly across areas, the weakest ones taking the remainder
+const splitQuota = (size: number, areaCount: number): number[] =>
+  Array.from({ length: areaCount }, (_, i) => Math.floor(size / areaCount) + (i < size % areaCount ? 1 : 0));
+
+/**
+ * Builds a remedial practice quiz from the learner's weakest categories, using approved
+ * questions from the stages they have unlocked and can practice. When a category's pool
+ * is too thin, generation of closed questions at the area's difficulty is queued for the
+ * stage where the learner missed it most; they are saved as drafts for review and never
+ * join the quiz being built.
+ */
+export const buildWeakAreaQuiz = async (
+  userId: number,
+  options: { size: number; areaCount: number }
+): Promise<WeakAreaQuiz> => {
+  const manager = AppDataSource.manager;
+  await assertPracticeSessionQuota(manager, userId);
+
+  const answers = await loadAnsweredQuestions(manager, userId);
+  const weakAreas = analyzeWeakAreas(answers).slice(0, options.areaCount);
+  if (weakAreas.length === 0) {
+    throw new PracticeError('There are no missed questions to practice yet', 404, 'NO_WEAK_AREAS');
+  }
+
+  const stages = await getPracticeableStages(manager, userId);
+
+  const pool = stages.size > 0
+    ? await manager.getRepository(Question)
+      .createQueryBuilder('question')
+      .where('question.stage_id IN (:...stageIds)', { stageIds: [...stages.keys()] })
+      .andWhere('question.is_active = true')
+      .andWhere('question.status = :status', { status: 'approved' })
+      .andWhere('LOWER(TRIM(question.category)) IN (:...categories)', {
+        categories: [...new Set(weakAreas.map(area => categoryKey(area.category)))]
+      })
+      .orderBy('question.id', 'ASC')
+      .getMany()
+    : [];
+
+  const answeredCorrectly = new Set(answers.filter(a => a.isCorrect).map(a => a.questionId));
+  const samplingSeed = generateSeed();
+  const random = createSeededRandom(samplingSeed);
+
+  const selected: Question[] = [];
+  const generation: WeakAreaGeneration[] = [];
+  const quotas = splitQuota(options.size, weakAreas.length);
+  for (const [i, area] of weakAreas.entries()) {
+    const candidates = pool.filter(q =>
+      categoryKey(q.category) === categoryKey(area.category) && !selected.some(s => s.id === q.id)
+    );
+    const picked = rankCandidates(candidates, area, answeredCorrectly, random).slice(0, quotas[i]);
+    selected.push(...picked);
+
+    const shortfall = quotas[i] - picked.length;
+    const stage = area.stageIds.map(id => stages.get(id)).find((s): s is Stage => Boolean(s));
+    if (shortfall === 0 || !stage) {
+      continue;
+    }
+    const { job, queued } = await enqueueQuestionGenerationJob(manager, {
+      stageId: stage.id,
+      category: area.category,
+      difficulty: area.difficulty,
+      requested: shortfall
+    });
+    generation.push({
+      category: area.category,
+      difficulty: area.difficulty,
+      stageId: stage.id,
+      requested: shortfall,
+      jobId: job.id,
+      jobStatus: job.status,
+      queued
+    });
+  }
+
+  if (selected.length === 0) {
+    throw new PracticeError(
+      generation.length > 0
+        ? 'No questions are available for your weak areas yet; more have been requested, try again later'
+        : 'No questions are available for your weak areas yet',
+      400,
+      'NO_QUESTIONS'
+    );
+  }
+
+  const questions = shuffle(selected, random);
+  const sessionRepository = manager.getRepository(PracticeSession);
+  const session = await sessionRepository.save(sessionRepository.create({
+    sessionId: uuidv4(),
+    userId,
+    kind: 'weak_areas',
+    stageId: null,
+    questionIds: questions.map(q => q.id),
+    samplingSeed
+  }));
+
+  return { session, questions, weakAreas, generation };
+};
+
+/**
+ * The learner's weak areas with the number of approved questions available for each in
+ * the stages they can practice.
+ */
+export const getWeakAreas = async (
+  manager: EntityManager,
+  userId: number
+): Promise<(WeakArea & { availableQuestions: number })[]> => {
+  const weakAreas = analyzeWeakAreas(await loadAnsweredQuestions(manager, userId));
+  if (weakAreas.length === 0) {
+    return [];
+  }
+
+  const stageIds = [...(await getPracticeableStages(manager, userId)).keys()];
+  const pool = stageIds.length > 0
+    ? await manager.getRepository(Question).find({
+      select: ['id', 'category'],
+      where: { stageId: In(stageIds), isActive: true, status: 'approved' }
+    })
+    : [];
+
+  return weakAreas.map(area => ({
+    ...area,
+    availableQuestions: pool.filter(q => categoryKey(q.category) === categoryKey(area.category)).length
+  }));
+};